@@ -22,8 +22,12 @@ export const RESOLUTION_PIXELS: Record<ImageResolution, number> = {
 export const GRID_CONFIG = {
   /** Gemini output resolution - determines total canvas size */
   resolution: '2K' as ImageResolution,
-  /** Desired tile size in pixels - must divide evenly into resolution */
-  tileSize: 256,
+  /**
+   * Desired tile size in pixels - must divide evenly into resolution.
+   * 128px gives the 16x16 grid the layout needs at 2K; 256px tiles would
+   * need a 4K image, which costs more and takes longer per design run
+   */
+  tileSize: 128,
 } as const;
 
 // ─────────────────────────────────────────────────────────────────
@@ -55,6 +59,21 @@ export const DERIVED_CONFIG = {
 // Default map dimensions (width × height in tiles)
 export const DEFAULT_MAP_SIZE = 10;
 
+// Largest accepted map side (keeps LLM prompts and exporters' int16 coords sane)
+export const MAX_MAP_SIZE = 128;
+
+// Chunk side for the chunked planner (one LLM conversation per chunk)
+export const DEFAULT_CHUNK_SIZE = 16;
+
+// plan --candidates: most runs accepted, and how many run at once
+// (each agent run is a long tool loop, so keep provider rate limits in mind)
+export const MAX_CANDIDATES = 16;
+export const CANDIDATE_CONCURRENCY = 3;
+
+// Temperature used for LLM calls when a --seed is given.
+// Seed alone is not enough: most providers only honour it at low temperature.
+export const SEEDED_TEMPERATURE = 0;
+
 // Gemini image models support more aspect ratios
 type GeminiAspectRatio =
   | '1:1'
@@ -85,3 +104,29 @@ export const defaultImageConfig: ImageGenerationConfig = {
   // Use resolution from GRID_CONFIG for consistency
   imageSize: GRID_CONFIG.resolution,
 };
+
+// ─────────────────────────────────────────────────────────────────
+// Model Configuration
+// Each role is a "provider:modelId" spec, overridable per role with
+// MODEL_<ROLE> env vars (see lib/models.ts)
+// ─────────────────────────────────────────────────────────────────
+export type ModelRole =
+  | 'scene'
+  | 'spritesheet'
+  | 'planner-ground'
+  | 'planner-roads'
+  | 'planner-objects'
+  | 'image';
+
+export const DEFAULT_MODELS: Record<ModelRole, string> = {
+  scene: 'google:gemini-2.5-pro-preview-05-06',
+  spritesheet: 'google:gemini-2.5-pro-preview-05-06',
+  'planner-ground': 'google:gemini-2.0-flash',
+  'planner-roads': 'google:gemini-2.0-flash',
+  'planner-objects': 'google:gemini-2.0-flash',
+  image: `google:${defaultImageConfig.model}`,
+};
+
+// Base URL for the "local" provider (any OpenAI-compatible server: Ollama,
+// LM Studio, vLLM, llama.cpp). Overridable with LOCAL_MODEL_BASE_URL
+export const DEFAULT_LOCAL_BASE_URL = 'http://localhost:11434/v1';
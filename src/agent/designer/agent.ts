@@ -9,6 +9,8 @@
  * - Sequential chain pattern for predictable execution order
  * - Scene description (free-form text) enables creative expression
  * - Spritesheet phase interprets scene into structured metadata
+ * - An optional seed is passed to every model call (and the image cache
+ *   key) so a run can be repeated
  */
 
 import { writeFile, mkdir } from 'fs/promises';
@@ -18,6 +20,7 @@ import { executeSpritesheetPhase } from './phases/spritesheet-phase';
 import { generatePromptFromMetadata } from './prompt-generator';
 import { generateSpritesheetImage } from '../lib/generate-image';
 import type { SpritesheetMetadata } from '../types';
+import type { SpriteSlot } from './layout';
 
 const DEFAULT_OUTPUT_DIR = 'src/agent/output';
 
@@ -29,32 +32,44 @@ export interface DesignerResult {
   sceneDescription: string;
 }
 
+export interface DesignerOptions {
+  /** Seed passed to every model call. Default: unseeded */
+  seed?: number;
+  /** Structural slots for the sheet (from a layout template). Default: built-in layout */
+  slots?: SpriteSlot[];
+}
+
 /**
  * Run the Designer Agent with sequential phase execution.
  *
  * @param theme - Visual theme (e.g., "cyberpunk", "medieval", "fantasy village")
  * @param verbose - Enable detailed logging
  * @param outputDir - Directory for output files
+ * @param options - Seed for reproducible runs, layout slots
  * @returns Complete DesignerResult with metadata, prompt, and image path
  */
 export async function runDesignerAgent(
   theme: string,
   verbose = false,
-  outputDir = DEFAULT_OUTPUT_DIR
+  outputDir = DEFAULT_OUTPUT_DIR,
+  options: DesignerOptions = {}
 ): Promise<DesignerResult> {
+  const { seed, slots } = options;
+
   if (verbose) {
     console.log(`[Designer] Starting with theme: "${theme}"`);
+    if (seed !== undefined) console.log(`[Designer] Seed: ${seed}`);
   }
 
   // Phase 1: Generate scene description
-  const sceneDescription = await executeScenePhase(theme, verbose);
+  const sceneDescription = await executeScenePhase(theme, verbose, seed);
 
   if (verbose) {
     console.log(`[Designer] Scene description: ${sceneDescription.length} chars`);
   }
 
   // Phase 2: Generate sprite metadata from scene
-  const metadata = await executeSpritesheetPhase(sceneDescription, verbose);
+  const metadata = await executeSpritesheetPhase(sceneDescription, verbose, seed, slots);
 
   if (verbose) {
     console.log(`[Designer] Metadata: ${metadata.sprites.length} sprites`);
@@ -93,7 +108,7 @@ export async function runDesignerAgent(
     console.log(`[Designer] Generating spritesheet image...`);
   }
 
-  const imageResult = await generateSpritesheetImage(prompt, outputDir);
+  const imageResult = await generateSpritesheetImage(prompt, outputDir, undefined, { seed });
 
   if (verbose) {
     if (imageResult.cached) {
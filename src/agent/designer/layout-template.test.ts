@@ -0,0 +1,81 @@
+import { writeFile, mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { buildLayoutSlots, type SpriteSlot } from './layout';
+import { loadLayoutTemplate, validateLayoutSlots } from './layout-template';
+
+const slot = (col: number, row: number, w = 1, h = 1): SpriteSlot => ({
+  col,
+  row,
+  w,
+  h,
+  category: 'prop',
+  placement: { layer: 'object', walkable: false, anchor: 'bottom_center' },
+  connectivity: { type: 'none', connects: [] },
+  hint: `prop at ${col},${row}`,
+});
+
+describe('validateLayoutSlots', () => {
+  it('accepts the default layout', () => {
+    expect(validateLayoutSlots(buildLayoutSlots())).toEqual([]);
+  });
+
+  it('reports slots that run off the grid', () => {
+    const errors = validateLayoutSlots([slot(15, 0, 2, 1), slot(0, 15, 1, 1)]);
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toMatch(/Slot 0 .* extends past the 16x16 grid/);
+  });
+
+  it('reports overlapping footprints', () => {
+    const errors = validateLayoutSlots([slot(0, 0, 2, 2), slot(1, 1), slot(2, 2)]);
+    expect(errors).toEqual(['Slot 1 (prop at 1,1) overlaps slot 0 (prop at 0,0) at (1, 1)']);
+  });
+});
+
+describe('loadLayoutTemplate', () => {
+  let dir: string;
+  beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'layout-'));
+  });
+  afterAll(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('loads the harbour example with category placement defaults', async () => {
+    const { name, slots } = await loadLayoutTemplate('examples/layouts/harbour.json');
+    expect(name).toBe('harbour');
+
+    const office = slots.find((s) => s.hint.startsWith('harbourmaster'));
+    expect(office).toMatchObject({ w: 2, h: 2, placement: { layer: 'object', walkable: false, anchor: 'bottom_center' } });
+
+    // Partial placement keeps the category's other defaults
+    const water = slots.find((s) => s.hint.startsWith('deep harbour water'));
+    expect(water?.placement).toEqual({ layer: 'ground', walkable: false, anchor: 'top_left' });
+  });
+
+  it('reads YAML templates', async () => {
+    const path = join(dir, 'tiny.yaml');
+    await writeFile(path, 'name: tiny\nslots:\n  - { col: 0, row: 0, category: ground, hint: grass }\n');
+    const { name, slots } = await loadLayoutTemplate(path);
+    expect(name).toBe('tiny');
+    expect(slots[0]).toMatchObject({ w: 1, h: 1, connectivity: { type: 'none' }, placement: { layer: 'ground' } });
+  });
+
+  it('lists every layout problem in one error', async () => {
+    const path = join(dir, 'broken.json');
+    const slots = [
+      { col: 14, row: 0, w: 3, category: 'building', hint: 'too wide' },
+      { col: 0, row: 0, category: 'prop', hint: 'crate' },
+      { col: 0, row: 0, category: 'prop', hint: 'barrel' },
+    ];
+    await writeFile(path, JSON.stringify({ slots }));
+    await expect(loadLayoutTemplate(path)).rejects.toThrow(/too wide.*extends past[\s\S]*barrel.*overlaps slot 1 \(crate\)/);
+  });
+
+  it('rejects slots with an unknown category', async () => {
+    const path = join(dir, 'bad.json');
+    await writeFile(path, JSON.stringify({ slots: [{ col: 0, row: 0, category: 'boat', hint: 'dinghy' }] }));
+    await expect(loadLayoutTemplate(path)).rejects.toThrow(/is invalid/);
+  });
+});
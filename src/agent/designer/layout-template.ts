@@ -0,0 +1,144 @@
+/**
+ * Layout Templates - User-defined spritesheet layouts
+ *
+ * Loads a JSON or YAML file listing the spritesheet's structural slots
+ * (position, size, category, placement, connectivity, hint) to use instead
+ * of the built-in layout, e.g. a harbour town that needs docks and boats
+ * rather than vending machines and manholes.
+ *
+ * Architecture Decision:
+ * - Templates produce the same SpriteSlot[] as buildLayoutSlots, so the
+ *   spritesheet phase, prompt generator and planner need no template
+ *   specific code: everything downstream reads the resulting metadata
+ * - The template is checked before any model call; slots outside the
+ *   DERIVED_CONFIG grid and overlapping footprints are reported together
+ *   so a template can be fixed in one pass
+ * - Placement defaults by category (ground tiles paint the ground layer,
+ *   everything else stands on the object layer), so most slots only need
+ *   position, category and hint
+ */
+
+import { readFile } from 'fs/promises';
+import { extname } from 'path';
+import { parse as parseYaml } from 'yaml';
+import { z } from 'zod';
+import { DERIVED_CONFIG } from '../config';
+import { ConnectivitySchema, PlacementSchema, TerrainCornersSchema, type Placement, type SpriteCategory } from '../types';
+import { SpriteCategorySchema } from '../types/primitives';
+import type { SpriteSlot } from './layout';
+
+// Unlike PlacementSchema, no defaults: missing fields come from the category
+const SlotPlacementSchema = z.object({
+  layer: PlacementSchema.shape.layer.unwrap().optional(),
+  walkable: z.boolean().optional(),
+  anchor: PlacementSchema.shape.anchor.unwrap().optional(),
+});
+
+const LayoutSlotSchema = z.object({
+  col: z.number().int().min(0),
+  row: z.number().int().min(0),
+  w: z.number().int().min(1).max(4).default(1),
+  h: z.number().int().min(1).max(4).default(1),
+  category: SpriteCategorySchema,
+  placement: SlotPlacementSchema.optional(),
+  connectivity: ConnectivitySchema.default({ type: 'none', connects: [] }),
+  terrain: TerrainCornersSchema.optional(),
+  rotatable: z.boolean().optional(),
+  pathCost: z.number().positive().optional(),
+  hint: z.string().min(1).describe('What kind of sprite goes in this slot'),
+});
+
+export const LayoutTemplateSchema = z.object({
+  name: z.string().optional(),
+  description: z.string().optional(),
+  slots: z.array(LayoutSlotSchema).min(1),
+});
+
+export type LayoutTemplate = z.infer<typeof LayoutTemplateSchema>;
+
+/** Placement used for a slot's category when the template leaves it out */
+const DEFAULT_PLACEMENT: Record<SpriteCategory, Placement> = {
+  ground: { layer: 'ground', walkable: true, anchor: 'top_left' },
+  building: { layer: 'object', walkable: false, anchor: 'bottom_center' },
+  prop: { layer: 'object', walkable: false, anchor: 'bottom_center' },
+  wall: { layer: 'object', walkable: false, anchor: 'bottom_center' },
+  marker: { layer: 'object', walkable: true, anchor: 'center' },
+};
+
+/**
+ * Check slots against the spritesheet grid: every footprint inside
+ * DERIVED_CONFIG's columns x rows and no two footprints sharing a cell.
+ *
+ * @returns One message per problem (empty when the layout is valid)
+ */
+export function validateLayoutSlots(slots: SpriteSlot[]): string[] {
+  const errors: string[] = [];
+  const owners = new Map<string, number>();
+  const label = (i: number) => `Slot ${i} (${slots[i]!.hint})`;
+
+  slots.forEach((slot, i) => {
+    if (slot.col + slot.w > DERIVED_CONFIG.columns || slot.row + slot.h > DERIVED_CONFIG.rows) {
+      errors.push(
+        `${label(i)} at (${slot.col}, ${slot.row}) size ${slot.w}x${slot.h} extends past the ${DERIVED_CONFIG.columns}x${DERIVED_CONFIG.rows} grid`
+      );
+      return;
+    }
+
+    for (let row = slot.row; row < slot.row + slot.h; row++) {
+      for (let col = slot.col; col < slot.col + slot.w; col++) {
+        const key = `${col},${row}`;
+        const owner = owners.get(key);
+        if (owner !== undefined) {
+          errors.push(`${label(i)} overlaps slot ${owner} (${slots[owner]!.hint}) at (${col}, ${row})`);
+          return;
+        }
+        owners.set(key, i);
+      }
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * Turn a parsed template into structural slots, filling placement
+ * defaults by category.
+ */
+export function buildTemplateSlots(template: LayoutTemplate): SpriteSlot[] {
+  return template.slots.map(({ placement, rotatable, pathCost, terrain, ...slot }) => ({
+    ...slot,
+    placement: { ...DEFAULT_PLACEMENT[slot.category], ...placement },
+    ...(terrain && { terrain }),
+    ...(rotatable !== undefined && { rotatable }),
+    ...(pathCost !== undefined && { pathCost }),
+  }));
+}
+
+/**
+ * Load a layout template from a .json, .yaml or .yml file.
+ * Throws with every problem listed if the template is invalid.
+ */
+export async function loadLayoutTemplate(path: string): Promise<{ name: string; slots: SpriteSlot[] }> {
+  const raw = await readFile(path, 'utf-8');
+  const isYaml = ['.yaml', '.yml'].includes(extname(path).toLowerCase());
+
+  let data: unknown;
+  try {
+    data = isYaml ? parseYaml(raw) : JSON.parse(raw);
+  } catch (error) {
+    throw new Error(`Layout template ${path} is not valid ${isYaml ? 'YAML' : 'JSON'}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const parsed = LayoutTemplateSchema.safeParse(data);
+  if (!parsed.success) {
+    throw new Error(`Layout template ${path} is invalid:\n${z.prettifyError(parsed.error)}`);
+  }
+
+  const slots = buildTemplateSlots(parsed.data);
+  const errors = validateLayoutSlots(slots);
+  if (errors.length > 0) {
+    throw new Error(`Layout template ${path} does not fit the spritesheet:\n${errors.map((e) => `  - ${e}`).join('\n')}`);
+  }
+
+  return { name: parsed.data.name ?? path, slots };
+}
@@ -1,5 +1,5 @@
 /**
- * Fixed Spritesheet Layout
+ * Default Spritesheet Layout
  *
  * Defines structural slots for the spritesheet with predetermined positions,
  * sizes, categories, and connectivity. The LLM fills in semantic fields
@@ -9,6 +9,8 @@
  * - Structural layout is deterministic in TypeScript
  * - Prevents grid corruption, duplicate positions, invalid connectivity
  * - LLM focuses purely on creative naming and descriptions
+ * - This is the built-in layout; `design --layout <file>` swaps in a
+ *   user template with the same slot shape (see layout-template.ts)
  */
 
 import type {
@@ -17,6 +19,7 @@ import type {
   SpriteCategory,
   Placement,
   Connectivity,
+  TerrainCorners,
 } from '../types';
 
 /**
@@ -30,6 +33,12 @@ export interface SpriteSlot {
   category: SpriteCategory;
   placement: Placement;
   connectivity: Connectivity;
+  /** Terrain at each corner (ground tiles in the transition set only) */
+  terrain?: TerrainCorners;
+  /** Whether the sprite may be placed rotated (default: roads only) */
+  rotatable?: boolean;
+  /** Road routing cost of this ground tile (default 1) */
+  pathCost?: number;
   /** Hint for LLM describing what kind of sprite goes here */
   hint: string;
 }
@@ -43,17 +52,36 @@ interface RoadConfig {
 interface GroundConfig {
   hint: string;
   walkable: boolean;
+  pathCost?: number;
+}
+
+/** Terrain names for row 1's primary and secondary surfaces (see row 9) */
+const TRANSITION_TERRAINS = ['primary', 'secondary'] as const;
+
+interface WallConfig {
+  connects: Direction[];
+  type: ConnectivityType;
+  hint: string;
+  /** Gates are the walkable pieces */
+  gate?: boolean;
+}
+
+interface ShorelineConfig {
+  connects: Direction[];
+  contentSide: Direction;
+  hint: string;
 }
 
 /**
  * Build all structural slots for the spritesheet.
- * Returns 52 slots: 8 roads + 8 grounds + 4 buildings (2x2) + 32 props
+ * Returns 101 slots: 15 roads + 8 grounds + 4 buildings (2x2) + 32 props
+ * + 12 shoreline edges + 14 terrain transitions + 16 walls
  */
 export function buildLayoutSlots(): SpriteSlot[] {
   const slots: SpriteSlot[] = [];
 
   // ─────────────────────────────────────────────────────────────────
-  // Row 0: Roads (8 slots) - connectivity is fixed, IDs are thematic
+  // Row 0: Roads (15 slots) - connectivity is fixed, IDs are thematic
   // ─────────────────────────────────────────────────────────────────
   const roadConnections: RoadConfig[] = [
     { connects: ['east', 'west'], type: 'path', hint: 'horizontal road' },
@@ -68,6 +96,14 @@ export function buildLayoutSlots(): SpriteSlot[] {
       hint: '4-way intersection',
     },
     { connects: ['south', 'east', 'west'], type: 'intersection', hint: 'T-junction (south)' },
+    // Cols 8-14: remaining T orientations and dead-end caps
+    { connects: ['north', 'east', 'west'], type: 'intersection', hint: 'T-junction (north)' },
+    { connects: ['north', 'south', 'east'], type: 'intersection', hint: 'T-junction (east)' },
+    { connects: ['north', 'south', 'west'], type: 'intersection', hint: 'T-junction (west)' },
+    { connects: ['east'], type: 'cap', hint: 'road dead end, road continues east' },
+    { connects: ['west'], type: 'cap', hint: 'road dead end, road continues west' },
+    { connects: ['north'], type: 'cap', hint: 'road dead end, road continues north' },
+    { connects: ['south'], type: 'cap', hint: 'road dead end, road continues south' },
   ];
 
   roadConnections.forEach((road, col) => {
@@ -91,13 +127,15 @@ export function buildLayoutSlots(): SpriteSlot[] {
     { hint: 'secondary walkable surface', walkable: true },
     { hint: 'decorative/accent ground', walkable: true },
     { hint: 'pathway/trail surface', walkable: true },
-    { hint: 'rough/uneven terrain', walkable: true },
-    { hint: 'damaged/worn surface', walkable: true },
+    { hint: 'rough/uneven terrain', walkable: true, pathCost: 3 },
+    { hint: 'damaged/worn surface', walkable: true, pathCost: 2 },
     { hint: 'natural growth (moss/grass)', walkable: true },
     { hint: 'hazard zone (water/lava/void)', walkable: false },
   ];
 
-  groundHints.forEach(({ hint, walkable }, col) => {
+  groundHints.forEach(({ hint, walkable, pathCost }, col) => {
+    // The two main surfaces are the terrains the row 9 transitions blend
+    const terrain = TRANSITION_TERRAINS[col];
     slots.push({
       col,
       row: 1,
@@ -106,6 +144,8 @@ export function buildLayoutSlots(): SpriteSlot[] {
       category: 'ground',
       placement: { layer: 'ground', walkable, anchor: 'top_left' },
       connectivity: { type: 'none', connects: [] },
+      ...(terrain && { terrain: { nw: terrain, ne: terrain, se: terrain, sw: terrain } }),
+      ...(pathCost !== undefined && { pathCost }),
       hint,
     });
   });
@@ -203,6 +243,103 @@ export function buildLayoutSlots(): SpriteSlot[] {
     });
   });
 
+  // ─────────────────────────────────────────────────────────────────
+  // Row 8: Shoreline edges for the hazard ground (12 slots)
+  // contentSide = side the hazard lies on (corners: the north/south one),
+  // connects = directions the shoreline continues (see lib/shoreline.ts)
+  // ─────────────────────────────────────────────────────────────────
+  const shorelines: ShorelineConfig[] = [
+    { connects: ['east', 'west'], contentSide: 'south', hint: 'shoreline straight, bank along north edge' },
+    { connects: ['east', 'west'], contentSide: 'north', hint: 'shoreline straight, bank along south edge' },
+    { connects: ['north', 'south'], contentSide: 'west', hint: 'shoreline straight, bank along east edge' },
+    { connects: ['north', 'south'], contentSide: 'east', hint: 'shoreline straight, bank along west edge' },
+    { connects: ['south', 'east'], contentSide: 'south', hint: 'shoreline outer corner, bank along north and west edges' },
+    { connects: ['south', 'west'], contentSide: 'south', hint: 'shoreline outer corner, bank along north and east edges' },
+    { connects: ['north', 'east'], contentSide: 'north', hint: 'shoreline outer corner, bank along south and west edges' },
+    { connects: ['north', 'west'], contentSide: 'north', hint: 'shoreline outer corner, bank along south and east edges' },
+    { connects: ['north', 'west'], contentSide: 'south', hint: 'shoreline inner corner, bank in north-west corner only' },
+    { connects: ['north', 'east'], contentSide: 'south', hint: 'shoreline inner corner, bank in north-east corner only' },
+    { connects: ['south', 'west'], contentSide: 'north', hint: 'shoreline inner corner, bank in south-west corner only' },
+    { connects: ['south', 'east'], contentSide: 'north', hint: 'shoreline inner corner, bank in south-east corner only' },
+  ];
+
+  shorelines.forEach(({ connects, contentSide, hint }, col) => {
+    slots.push({
+      col,
+      row: 8,
+      w: 1,
+      h: 1,
+      category: 'ground',
+      placement: { layer: 'ground', walkable: false, anchor: 'top_left' },
+      connectivity: { type: 'edge', connects, contentSide },
+      hint: `${hint}; the rest of the tile is the hazard ground from (7, 1)`,
+    });
+  });
+
+  // ─────────────────────────────────────────────────────────────────
+  // Row 9: Terrain transitions (14 slots) - corner-Wang set between the
+  // primary (0, 1) and secondary (1, 1) surfaces. Each slot is one mix of
+  // corners; the two all-same mixes are the row 1 tiles themselves
+  // ─────────────────────────────────────────────────────────────────
+  const [primary, secondary] = TRANSITION_TERRAINS;
+  const corners = ['nw', 'ne', 'se', 'sw'] as const;
+  const cornerNames = { nw: 'north-west', ne: 'north-east', se: 'south-east', sw: 'south-west' };
+
+  for (let mask = 1; mask < 15; mask++) {
+    const secondaryCorners = corners.filter((_, bit) => mask & (1 << bit));
+    const terrain = Object.fromEntries(
+      corners.map((corner) => [corner, secondaryCorners.includes(corner) ? secondary : primary])
+    ) as TerrainCorners;
+
+    slots.push({
+      col: mask - 1,
+      row: 9,
+      w: 1,
+      h: 1,
+      category: 'ground',
+      placement: { layer: 'ground', walkable: true, anchor: 'top_left' },
+      connectivity: { type: 'none', connects: [] },
+      terrain,
+      hint: `terrain transition: secondary surface (1, 1) in the ${secondaryCorners.map((c) => cornerNames[c]).join(', ')} corner(s), primary surface (0, 1) elsewhere, blended with a soft organic edge`,
+    });
+  }
+
+  // ─────────────────────────────────────────────────────────────────
+  // Row 10: Walls and fences (16 slots) - connectivity works like roads,
+  // placed on the object layer by drawWall / encloseRegion
+  // ─────────────────────────────────────────────────────────────────
+  const walls: WallConfig[] = [
+    { connects: ['east', 'west'], type: 'path', hint: 'wall straight, running east-west' },
+    { connects: ['north', 'south'], type: 'path', hint: 'wall straight, running north-south' },
+    { connects: ['north', 'east'], type: 'corner', hint: 'wall corner joining north and east' },
+    { connects: ['north', 'west'], type: 'corner', hint: 'wall corner joining north and west' },
+    { connects: ['south', 'east'], type: 'corner', hint: 'wall corner joining south and east' },
+    { connects: ['south', 'west'], type: 'corner', hint: 'wall corner joining south and west' },
+    { connects: ['south', 'east', 'west'], type: 'intersection', hint: 'wall T-junction, branch to the south' },
+    { connects: ['north', 'east', 'west'], type: 'intersection', hint: 'wall T-junction, branch to the north' },
+    { connects: ['north', 'south', 'east'], type: 'intersection', hint: 'wall T-junction, branch to the east' },
+    { connects: ['north', 'south', 'west'], type: 'intersection', hint: 'wall T-junction, branch to the west' },
+    { connects: ['east'], type: 'cap', hint: 'wall end post, wall continues east' },
+    { connects: ['west'], type: 'cap', hint: 'wall end post, wall continues west' },
+    { connects: ['north'], type: 'cap', hint: 'wall end post, wall continues north' },
+    { connects: ['south'], type: 'cap', hint: 'wall end post, wall continues south' },
+    { connects: ['east', 'west'], type: 'path', hint: 'gate in an east-west wall (open, passable)', gate: true },
+    { connects: ['north', 'south'], type: 'path', hint: 'gate in a north-south wall (open, passable)', gate: true },
+  ];
+
+  walls.forEach(({ connects, type, hint, gate = false }, col) => {
+    slots.push({
+      col,
+      row: 10,
+      w: 1,
+      h: 1,
+      category: 'wall',
+      placement: { layer: 'object', walkable: gate, anchor: 'bottom_center' },
+      connectivity: { type, connects },
+      hint,
+    });
+  });
+
   return slots;
 }
 
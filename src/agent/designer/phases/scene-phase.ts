@@ -6,7 +6,8 @@
  */
 
 import { generateText } from 'ai';
-import { google } from '@ai-sdk/google';
+import { getModel } from '../../lib/models';
+import { getSeedSettings } from '../../lib/random';
 
 /**
  * Execute the scene description phase.
@@ -14,12 +15,14 @@ import { google } from '@ai-sdk/google';
  */
 export async function executeScenePhase(
   theme: string,
-  verbose: boolean
+  verbose: boolean,
+  seed?: number
 ): Promise<string> {
   if (verbose) console.log('[Scene Phase] Starting...');
 
   const result = await generateText({
-    model: google('gemini-2.5-pro-preview-05-06'),
+    model: getModel('scene'),
+    ...getSeedSettings(seed),
     system: buildScenePrompt(),
     prompt: `Create a detailed scene description for a top-down JRPG game world with this theme: "${theme}"`,
   });
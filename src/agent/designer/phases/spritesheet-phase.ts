@@ -6,17 +6,19 @@
  * 2. Having the LLM fill in semantic fields (id, description) based on theme
  *
  * Architecture Decision:
- * - Structural layout is deterministic (layout.ts)
+ * - Structural layout is deterministic (layout.ts, or a user template
+ *   from layout-template.ts)
  * - LLM cannot break grid positions or connectivity
  * - LLM focuses on creative naming and vivid descriptions
  */
 
 import { generateObject } from 'ai';
-import { google } from '@ai-sdk/google';
+import { getModel } from '../../lib/models';
+import { getSeedSettings } from '../../lib/random';
 import { z } from 'zod';
 import type { Sprite, SpritesheetMetadata } from '../../types';
 import { GRID_CONFIG, DERIVED_CONFIG } from '../../config';
-import { buildLayoutSlots, getSlotCount } from '../layout';
+import { buildLayoutSlots, type SpriteSlot } from '../layout';
 
 // ─────────────────────────────────────────────────────────────────
 // Schema for LLM output - only semantic fields
@@ -45,15 +47,17 @@ type SpriteSemantic = z.infer<typeof SpriteSemanticSchema>;
 
 /**
  * Execute the spritesheet metadata generation phase.
- * Merges fixed structural layout with LLM-generated semantic content.
+ * Merges the structural layout (default: buildLayoutSlots) with
+ * LLM-generated semantic content.
  */
 export async function executeSpritesheetPhase(
   sceneDescription: string,
-  verbose: boolean
+  verbose: boolean,
+  seed?: number,
+  slots: SpriteSlot[] = buildLayoutSlots()
 ): Promise<SpritesheetMetadata> {
   if (verbose) console.log('[Spritesheet Phase] Starting...');
 
-  const slots = buildLayoutSlots();
   const slotCount = slots.length;
 
   // Prepare slot summary for LLM (only what it needs to know)
@@ -66,7 +70,8 @@ export async function executeSpritesheetPhase(
   }));
 
   const result = await generateObject({
-    model: google('gemini-2.5-pro-preview-05-06'),
+    model: getModel('spritesheet'),
+    ...getSeedSettings(seed),
     schema: SpriteSemanticsSchema,
     system: buildDescriptionPrompt(),
     prompt: `Scene description:
@@ -106,6 +111,9 @@ Every sprite must have a UNIQUE id - no duplicates allowed.`,
       description: semantic?.description ?? slot.hint,
       placement: slot.placement,
       connectivity: slot.connectivity,
+      ...(slot.terrain && { terrain: slot.terrain }),
+      ...(slot.rotatable !== undefined && { rotatable: slot.rotatable }),
+      ...(slot.pathCost !== undefined && { pathCost: slot.pathCost }),
     };
   });
 
@@ -3,8 +3,22 @@ import { readFile, writeFile } from 'fs/promises';
 import { existsSync } from 'fs';
 import { join } from 'path';
 import { runDesignerAgent } from './designer/agent';
-import { runPlannerAgent } from './planner/agent';
-import { SpritesheetMetadataSchema, MapSchema } from './types';
+import { loadLayoutTemplate } from './designer/layout-template';
+import type { SpriteSlot } from './designer/layout';
+import { runPlannerAgent, PLANNER_BACKENDS, type PlannerBackend, type PlannerOptions } from './planner/agent';
+import type { WfcPin } from './lib/wfc';
+import { getMissingCredentials } from './lib/models';
+import { configureCassette, getCassetteMode, type CassetteMode } from './lib/cassette';
+import { SpritesheetMetadataSchema, MapSchema, type SpritesheetMetadata } from './types';
+import {
+  SEEDED_TEMPERATURE,
+  DEFAULT_MAP_SIZE,
+  MAX_MAP_SIZE,
+  DEFAULT_CHUNK_SIZE,
+  MAX_CANDIDATES,
+  DEFAULT_LOCAL_BASE_URL,
+  type ModelRole,
+} from './config';
 
 /**
  * Agent Pipeline for Generative Town (Simplified)
@@ -21,7 +35,21 @@ import { SpritesheetMetadataSchema, MapSchema } from './types';
  *
  * Usage:
  *   npx tsx src/agent/index.ts design cyberpunk
+ *   npx tsx src/agent/index.ts design cyberpunk --seed 42
+ *   npx tsx src/agent/index.ts design "harbour town" --layout harbour.json
+ *   npx tsx src/agent/index.ts plan --size 32x20
+ *   npx tsx src/agent/index.ts plan --planner procedural --seed 42
+ *   npx tsx src/agent/index.ts plan --planner wfc --pin 5,5=plaza_tile
+ *   npx tsx src/agent/index.ts plan --planner chunked --size 64x64
+ *   npx tsx src/agent/index.ts plan --candidates 4 --seed 7
+ *   npx tsx src/agent/index.ts plan --seed 1 --record cassettes/plan
+ *   npx tsx src/agent/index.ts plan --seed 1 --replay cassettes/plan
  *   npx tsx src/agent/index.ts render
+ *   npx tsx src/agent/index.ts validate
+ *   npx tsx src/agent/index.ts export --format tiled
+ *   npx tsx src/agent/index.ts export --format godot
+ *   npx tsx src/agent/index.ts export --format ldtk
+ *   npx tsx src/agent/index.ts export --format rpgmaker
  */
 
 const DEFAULT_OUTPUT_DIR = 'src/agent/output';
@@ -32,6 +60,45 @@ interface PipelineOptions {
   verbose?: boolean;
   outputDir?: string;
   force?: boolean;
+  format?: ExportFormat;
+  planner?: PlannerBackend;
+  seed?: number;
+  pins?: WfcPin[];
+  width?: number;
+  height?: number;
+  chunkSize?: number;
+  cassette?: { mode: CassetteMode; dir: string };
+  thresholdsPath?: string;
+  candidates?: number;
+  layoutPath?: string;
+}
+
+const EXPORT_FORMATS = ['tiled', 'godot', 'ldtk', 'rpgmaker'] as const;
+type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+/**
+ * Exit with an error if the providers behind these model roles are missing
+ * API keys (or a MODEL_* override is malformed). Replays need no keys.
+ */
+function requireModelCredentials(roles: readonly ModelRole[]): void {
+  let missing: string[];
+  try {
+    missing = getMissingCredentials(roles);
+  } catch (error) {
+    console.error(`❌ Error: ${error instanceof Error ? error.message : error}`);
+    process.exit(1);
+  }
+
+  if (getCassetteMode() === 'replay') {
+    return;
+  }
+
+  for (const envVar of missing) {
+    console.error(`❌ Error: ${envVar} environment variable is required`);
+  }
+  if (missing.length > 0) {
+    process.exit(1);
+  }
 }
 
 /**
@@ -77,12 +144,21 @@ async function design(theme: string, options: PipelineOptions = {}) {
 
   console.log(`\n🎨 Generating spritesheet for theme "${theme}"\n`);
 
-  if (!process.env.GOOGLE_GENERATIVE_AI_API_KEY) {
-    console.error('❌ Error: GOOGLE_GENERATIVE_AI_API_KEY environment variable is required');
-    process.exit(1);
+  let slots: SpriteSlot[] | undefined;
+  if (options.layoutPath) {
+    try {
+      const template = await loadLayoutTemplate(options.layoutPath);
+      slots = template.slots;
+      console.log(`   Layout: ${template.name} (${slots.length} slots)`);
+    } catch (error) {
+      console.error(`❌ Error: ${error instanceof Error ? error.message : error}`);
+      process.exit(1);
+    }
   }
 
-  const result = await runDesignerAgent(theme, verbose, outputDir);
+  requireModelCredentials(['scene', 'spritesheet', 'image']);
+
+  const result = await runDesignerAgent(theme, verbose, outputDir, { seed: options.seed, slots });
 
   console.log('\n✅ Spritesheet generation complete!');
   console.log(`   Sprites: ${result.metadata.sprites.length}`);
@@ -140,14 +216,157 @@ async function render(options: PipelineOptions = {}) {
   return result;
 }
 
+// ─────────────────────────────────────────────────────────────────
+// Validate Command (scores map.json, exits non-zero on failed checks)
+// ─────────────────────────────────────────────────────────────────
+
+/**
+ * Quality thresholds: defaults, overridden by a partial JSON file if given.
+ */
+async function loadThresholds(thresholdsPath: string | undefined) {
+  const { QualityThresholdsSchema, DEFAULT_QUALITY_THRESHOLDS } = await import('./lib/map-quality');
+  if (!thresholdsPath) {
+    return DEFAULT_QUALITY_THRESHOLDS;
+  }
+
+  const overrides = QualityThresholdsSchema.partial().safeParse(JSON.parse(await readFile(thresholdsPath, 'utf-8')));
+  if (!overrides.success) {
+    console.error(`❌ Error: Invalid thresholds in ${thresholdsPath}: ${overrides.error.message}`);
+    process.exit(1);
+  }
+  return { ...DEFAULT_QUALITY_THRESHOLDS, ...overrides.data };
+}
+
+async function validate(options: PipelineOptions = {}) {
+  const { outputDir = DEFAULT_OUTPUT_DIR, thresholdsPath } = options;
+
+  console.log(`\n🔍 Validating map quality\n`);
+
+  if (!existsSync(MAP_PATH)) {
+    console.error(`❌ Error: Could not find ${MAP_PATH}`);
+    console.error('   Run "plan" first to generate map.json.');
+    process.exit(1);
+  }
+
+  const { evaluateMapQuality, formatQualityReport } = await import('./lib/map-quality');
+  const thresholds = await loadThresholds(thresholdsPath);
+
+  const mapRaw = await readFile(MAP_PATH, 'utf-8');
+  const map = MapSchema.parse(JSON.parse(mapRaw));
+
+  const metadataRaw = await readFile(METADATA_PATH, 'utf-8');
+  const metadata = SpritesheetMetadataSchema.parse(JSON.parse(metadataRaw));
+
+  const report = evaluateMapQuality(map, metadata, thresholds);
+  const reportPath = join(outputDir, 'map-quality.json');
+  await writeFile(reportPath, JSON.stringify({ thresholds, ...report }, null, 2), 'utf-8');
+
+  console.log(formatQualityReport(report));
+  console.log(`\n   Report: ${reportPath}`);
+
+  if (!report.passed) {
+    const failed = report.checks.filter((c) => !c.passed).map((c) => c.name);
+    console.error(`\n❌ Quality checks failed: ${failed.join(', ')}`);
+    process.exit(1);
+  }
+
+  console.log('\n✅ All quality checks passed');
+  return report;
+}
+
+// ─────────────────────────────────────────────────────────────────
+// Export Command (converts map.json to game-engine formats)
+// ─────────────────────────────────────────────────────────────────
+
+async function exportMap(options: PipelineOptions = {}) {
+  const { outputDir = DEFAULT_OUTPUT_DIR, format } = options;
+
+  if (!format) {
+    console.error(`❌ Error: export requires --format (${EXPORT_FORMATS.join(', ')})`);
+    process.exit(1);
+  }
+
+  console.log(`\n📦 Exporting map (${format})\n`);
+
+  if (!existsSync(MAP_PATH)) {
+    console.error(`❌ Error: Could not find ${MAP_PATH}`);
+    console.error('   Run "plan" first to generate map.json.');
+    process.exit(1);
+  }
+
+  const mapRaw = await readFile(MAP_PATH, 'utf-8');
+  const map = MapSchema.parse(JSON.parse(mapRaw));
+
+  const metadataRaw = await readFile(METADATA_PATH, 'utf-8');
+  const metadata = SpritesheetMetadataSchema.parse(JSON.parse(metadataRaw));
+
+  const spritesheetPath = await findSpritesheetImage(outputDir);
+  if (!spritesheetPath) {
+    console.error('❌ Error: No spritesheet image found');
+    process.exit(1);
+  }
+
+  switch (format) {
+    case 'tiled': {
+      const { exportToTiled } = await import('./lib/export-tiled');
+      const result = await exportToTiled(map, metadata, spritesheetPath, join(outputDir, 'tiled'));
+
+      console.log('✅ Tiled export complete!');
+      console.log(`   Map: ${result.files.tmx}, ${result.files.tmj}`);
+      console.log(`   Tileset: ${result.files.tsx}, ${result.files.tsj}`);
+      console.log(`   Tiles: ${result.stats.tilesExported}, tile objects: ${result.stats.tileObjectsExported}`);
+      return result;
+    }
+
+    case 'godot': {
+      const { exportToGodot } = await import('./lib/export-godot');
+      const result = await exportToGodot(map, metadata, spritesheetPath, join(outputDir, 'godot'));
+
+      console.log('✅ Godot export complete!');
+      console.log(`   Scene: ${result.files.scene}`);
+      console.log(`   TileSet: ${result.files.tileset}`);
+      console.log(`   Tiles: ${result.stats.tilesExported} (${result.stats.terrainTiles} road terrain, ${result.stats.collisionTiles} with collision)`);
+      return result;
+    }
+
+    case 'ldtk': {
+      const { exportToLdtk } = await import('./lib/export-ldtk');
+      const result = await exportToLdtk(map, metadata, spritesheetPath, join(outputDir, 'ldtk'));
+
+      console.log('✅ LDtk export complete!');
+      console.log(`   Project: ${result.files.project}`);
+      console.log(`   Tiles: ${result.stats.groundTiles} ground, ${result.stats.objectTiles} objects`);
+      console.log(`   Collision cells: ${result.stats.collisionCells}, entities: ${result.stats.entities}`);
+      return result;
+    }
+
+    case 'rpgmaker': {
+      const { exportToRpgMaker } = await import('./lib/export-rpgmaker');
+      const result = await exportToRpgMaker(map, metadata, spritesheetPath, join(outputDir, 'rpgmaker'));
+
+      console.log('✅ RPG Maker MZ export complete!');
+      console.log(`   Map: ${result.files.map}`);
+      console.log(`   Tileset entry: ${result.files.tilesets}`);
+      console.log(`   Images: ${result.files.images.join(', ')}`);
+      console.log(`   Tiles: ${result.stats.floorTiles} floor, ${result.stats.upperTiles} upper`);
+      return result;
+    }
+  }
+}
+
 // ─────────────────────────────────────────────────────────────────
 // Plan Command (runs planner + render)
 // ─────────────────────────────────────────────────────────────────
 
 async function plan(options: PipelineOptions = {}) {
-  const { verbose = false, outputDir = DEFAULT_OUTPUT_DIR } = options;
+  const { verbose = false, planner = 'agent', candidates = 1 } = options;
+  const usesModel = planner === 'agent' || planner === 'chunked';
 
-  console.log(`\n🗺️  Running Planner Agent (AI-driven)\n`);
+  console.log(
+    usesModel
+      ? `\n🗺️  Running Planner Agent (AI-driven${planner === 'chunked' ? ', chunked' : ''})\n`
+      : `\n🗺️  Running Planner (${planner}, offline)\n`
+  );
 
   if (!existsSync(METADATA_PATH)) {
     console.error(`❌ Error: Could not find ${METADATA_PATH}`);
@@ -155,9 +374,10 @@ async function plan(options: PipelineOptions = {}) {
     process.exit(1);
   }
 
-  if (!process.env.GOOGLE_GENERATIVE_AI_API_KEY) {
-    console.error('❌ Error: GOOGLE_GENERATIVE_AI_API_KEY environment variable is required');
-    process.exit(1);
+  if (planner === 'agent') {
+    requireModelCredentials(['planner-ground', 'planner-roads', 'planner-objects']);
+  } else if (planner === 'chunked') {
+    requireModelCredentials(['planner-ground', 'planner-objects']);
   }
 
   // Load metadata
@@ -168,13 +388,26 @@ async function plan(options: PipelineOptions = {}) {
     console.log(`[Planner] Loaded ${metadata.sprites.length} sprites from metadata`);
   }
 
-  // Run AI-driven planner
-  const map = await runPlannerAgent(metadata, undefined, undefined, verbose);
+  const plannerOptions = {
+    planner,
+    seed: options.seed,
+    pins: options.pins,
+    chunkSize: options.chunkSize,
+  };
+
+  if (candidates > 1) {
+    return planCandidates(metadata, options, plannerOptions);
+  }
+
+  const map = await runPlannerAgent(metadata, options.width, options.height, verbose, plannerOptions);
 
   // Save map.json
   await writeFile(MAP_PATH, JSON.stringify(map, null, 2), 'utf-8');
   console.log(`✅ Map generated: ${MAP_PATH}`);
   console.log(`   Size: ${map.width}x${map.height} tiles`);
+  if (map.seed !== undefined) {
+    console.log(`   Seed: ${map.seed} (re-run with --seed ${map.seed} to reproduce)`);
+  }
 
   // Auto-render
   console.log('\n🖼️  Auto-rendering map...\n');
@@ -183,6 +416,79 @@ async function plan(options: PipelineOptions = {}) {
   return map;
 }
 
+/**
+ * plan --candidates N: run the planner N times, keep the best-scoring map
+ * as map.json and save the rest (map, render, score) for a designer to
+ * compare by eye.
+ */
+async function planCandidates(metadata: SpritesheetMetadata, options: PipelineOptions, plannerOptions: PlannerOptions) {
+  const { verbose = false, outputDir = DEFAULT_OUTPUT_DIR, candidates: count = 1 } = options;
+  const { runPlannerCandidates } = await import('./planner/candidates');
+  const { renderMap } = await import('./lib/render-map');
+
+  const spritesheetPath = await findSpritesheetImage(outputDir);
+  if (!spritesheetPath) {
+    console.error('❌ Error: No spritesheet image found');
+    process.exit(1);
+  }
+
+  console.log(`🎲 Generating ${count} candidate maps\n`);
+  const thresholds = await loadThresholds(options.thresholdsPath);
+  const { ranked, failed } = await runPlannerCandidates(metadata, options.width, options.height, verbose, {
+    ...plannerOptions,
+    count,
+    thresholds,
+  });
+  const [best, ...others] = ranked;
+  const summaryPath = join(outputDir, 'map-candidates.json');
+
+  if (!best) {
+    await writeFile(summaryPath, JSON.stringify({ thresholds, candidates: [], failed }, null, 2), 'utf-8');
+    console.error(`❌ Error: All ${count} planner runs failed (see ${summaryPath})`);
+    process.exit(1);
+  }
+
+  // Save map.json
+  await writeFile(MAP_PATH, JSON.stringify(best.map, null, 2), 'utf-8');
+
+  const summary = [];
+  for (const candidate of ranked) {
+    const isBest = candidate === best;
+    const mapPath = isBest ? MAP_PATH : join(outputDir, `map-candidate-${candidate.index}.json`);
+    const renderPath = join(outputDir, isBest ? 'map-render.png' : `map-candidate-${candidate.index}.png`);
+
+    if (!isBest) {
+      await writeFile(mapPath, JSON.stringify(candidate.map, null, 2), 'utf-8');
+    }
+    await renderMap(candidate.map, metadata, spritesheetPath, renderPath, { scale: 0.25 });
+
+    summary.push({
+      index: candidate.index,
+      selected: isBest,
+      seed: candidate.map.seed,
+      map: mapPath,
+      render: renderPath,
+      ...candidate.report,
+    });
+  }
+
+  await writeFile(summaryPath, JSON.stringify({ thresholds, candidates: summary, failed }, null, 2), 'utf-8');
+
+  console.log(`\n✅ Best of ${ranked.length}: run ${best.index} (score ${best.report.score}/100) → ${MAP_PATH}`);
+  for (const candidate of others) {
+    console.log(`   Run ${candidate.index}: score ${candidate.report.score}/100 → map-candidate-${candidate.index}.json`);
+  }
+  for (const run of failed) {
+    console.log(`   Run ${run.index}: failed (${run.error})`);
+  }
+  if (best.map.seed !== undefined) {
+    console.log(`   Seed: ${best.map.seed} (re-run with --seed ${best.map.seed} to reproduce)`);
+  }
+  console.log(`   Scores: ${summaryPath}`);
+
+  return best.map;
+}
+
 // ─────────────────────────────────────────────────────────────────
 // CLI
 // ─────────────────────────────────────────────────────────────────
@@ -196,21 +502,92 @@ Commands:
   design <theme>              Generate spritesheet (metadata + prompt + image)
                               Example: design cyberpunk
                               Example: design "medieval fantasy village"
+                              Example: design "harbour town" --layout harbour.json
 
   plan                        Run planner to generate map.json + auto-render
                               (Requires spritesheet-metadata.json from design)
+                              Example: plan --size 32x20
+                              Example: plan --planner procedural --seed 42
+                              Example: plan --planner wfc --pin 4,4=plaza_tile
+                              Example: plan --planner chunked --size 64x64
+                              Example: plan --candidates 4 --seed 7
 
   render                      Render map.json to PNG image
                               (Requires map.json + metadata + spritesheet)
 
+  validate                    Score map.json (coverage, road connectivity and
+                              ends, objects on roads, building access,
+                              reachability, hazards, sprite variety). Writes
+                              map-quality.json, exits 1 if a threshold fails.
+                              Alias: score
+                              Example: validate --thresholds thresholds.json
+
+  export --format <format>    Export map.json for a game engine / editor
+                              Formats: tiled (TMX/TMJ + TSX/TSJ tileset)
+                                       godot (Godot 4 .tres TileSet + .tscn scene)
+                                       ldtk (LDtk project with collision + entities)
+                                       rpgmaker (RPG Maker MZ map + A5/B/C tilesets)
+
 Options:
   --verbose, -v               Show detailed output
+  --output, -o <dir>          Output directory (default: ${DEFAULT_OUTPUT_DIR})
+  --format <format>           Export format (export command only)
+  --width <n>, --height <n>   Map size in tiles (plan command only,
+                              default: ${DEFAULT_MAP_SIZE}x${DEFAULT_MAP_SIZE}, max: ${MAX_MAP_SIZE})
+  --size <W>x<H>              Shorthand for --width W --height H
+  --planner <backend>         Planner backend (plan command only, default: agent)
+                                agent       LLM-driven phases (needs API key)
+                                procedural  Seeded algorithm, no network access
+                                wfc         Wave Function Collapse over road
+                                            connectivity, no network access
+                                chunked     LLM phases per chunk on a seeded
+                                            road skeleton (large maps)
+  --layout <file>             Spritesheet layout template, JSON or YAML (design
+                              only, default: built-in layout). See
+                              examples/layouts/harbour.json
+  --seed <n>                  Seed for reproducible runs (design, plan). Sent to
+                              the models with temperature ${SEEDED_TEMPERATURE}, used for all
+                              non-LLM random choices and recorded in map.json
+                              (default: random for offline planners, else unseeded)
+  --pin <x,y=spriteId>        Fix a ground tile before WFC solves the rest
+                              (wfc planner only, repeatable)
+  --candidates <n>            Run the planner n times and keep the best-scoring
+                              map as map.json; the others are saved as
+                              map-candidate-<k>.json/.png, all scores in
+                              map-candidates.json (plan only, max ${MAX_CANDIDATES}).
+                              With --seed, run k uses seed + k - 1
+  --thresholds <file>         JSON overriding quality thresholds (validate,
+                              plan --candidates)
+  --record <dir>              Record every model call (design, plan) to <dir>
+  --replay <dir>              Serve model calls from a recording instead of the
+                              network. Fails on any call that was not recorded
+                              (use the same --seed as the recording)
+  --chunk-size <n>            Chunk side in tiles (chunked planner only,
+                              default: ${DEFAULT_CHUNK_SIZE})
 
 Environment:
-  GOOGLE_GENERATIVE_AI_API_KEY      Required for all AI operations.
+  GOOGLE_GENERATIVE_AI_API_KEY      Required for roles using google (the default)
+                                    (not needed for --planner procedural/wfc).
+  OPENROUTER_API_KEY                Required for roles using openrouter
+  LOCAL_MODEL_BASE_URL              OpenAI-compatible server for the local provider
+                                    (default: ${DEFAULT_LOCAL_BASE_URL})
+  LOCAL_MODEL_API_KEY               Optional key for the local server
+  MODEL_<ROLE>                      Model for one role as provider:modelId, e.g.
+                                    MODEL_PLANNER_ROADS=openrouter:openai/gpt-4o-mini
+                                    Roles: SCENE, SPRITESHEET, PLANNER_GROUND,
+                                    PLANNER_ROADS, PLANNER_OBJECTS, IMAGE
+  MODEL_PLANNER                     Model for all three planner roles
 `);
 }
 
+/**
+ * Parse a map width/height argument. Returns null if invalid.
+ */
+function parseMapSide(value: string | undefined): number | null {
+  const size = Number(value);
+  return value && Number.isInteger(size) && size >= 1 && size <= MAX_MAP_SIZE ? size : null;
+}
+
 function parseArgs(rawArgs: string[]): { args: string[]; options: PipelineOptions } {
   const options: PipelineOptions = {};
   const args: string[] = [];
@@ -227,6 +604,96 @@ function parseArgs(rawArgs: string[]): { args: string[]; options: PipelineOption
         process.exit(1);
       }
       options.outputDir = nextArg;
+    } else if (arg === '--format') {
+      const nextArg = rawArgs[++i];
+      if (!nextArg || !(EXPORT_FORMATS as readonly string[]).includes(nextArg)) {
+        console.error(`❌ Error: --format must be one of: ${EXPORT_FORMATS.join(', ')}`);
+        process.exit(1);
+      }
+      options.format = nextArg as ExportFormat;
+    } else if (arg === '--planner') {
+      const nextArg = rawArgs[++i];
+      if (!nextArg || !(PLANNER_BACKENDS as readonly string[]).includes(nextArg)) {
+        console.error(`❌ Error: --planner must be one of: ${PLANNER_BACKENDS.join(', ')}`);
+        process.exit(1);
+      }
+      options.planner = nextArg as PlannerBackend;
+    } else if (arg === '--seed') {
+      const nextArg = rawArgs[++i];
+      const seed = Number(nextArg);
+      if (!nextArg || !Number.isInteger(seed) || seed < 0) {
+        console.error('❌ Error: --seed requires a non-negative integer');
+        process.exit(1);
+      }
+      options.seed = seed;
+    } else if (arg === '--width' || arg === '--height') {
+      const size = parseMapSide(rawArgs[++i]);
+      if (size === null) {
+        console.error(`❌ Error: ${arg} requires an integer between 1 and ${MAX_MAP_SIZE}`);
+        process.exit(1);
+      }
+      options[arg === '--width' ? 'width' : 'height'] = size;
+    } else if (arg === '--size') {
+      const match = rawArgs[++i]?.match(/^(\d+)x(\d+)$/i);
+      const width = parseMapSide(match?.[1]);
+      const height = parseMapSide(match?.[2]);
+      if (width === null || height === null) {
+        console.error(`❌ Error: --size must look like WxH (e.g. 32x20), each side 1-${MAX_MAP_SIZE}`);
+        process.exit(1);
+      }
+      options.width = width;
+      options.height = height;
+    } else if (arg === '--chunk-size') {
+      const size = parseMapSide(rawArgs[++i]);
+      if (size === null || size < 4) {
+        console.error(`❌ Error: --chunk-size requires an integer between 4 and ${MAX_MAP_SIZE}`);
+        process.exit(1);
+      }
+      options.chunkSize = size;
+    } else if (arg === '--candidates') {
+      const nextArg = rawArgs[++i];
+      const count = Number(nextArg);
+      if (!nextArg || !Number.isInteger(count) || count < 1 || count > MAX_CANDIDATES) {
+        console.error(`❌ Error: --candidates requires an integer between 1 and ${MAX_CANDIDATES}`);
+        process.exit(1);
+      }
+      options.candidates = count;
+    } else if (arg === '--layout') {
+      const nextArg = rawArgs[++i];
+      if (!nextArg || !existsSync(nextArg)) {
+        console.error('❌ Error: --layout requires an existing JSON or YAML file');
+        process.exit(1);
+      }
+      options.layoutPath = nextArg;
+    } else if (arg === '--thresholds') {
+      const nextArg = rawArgs[++i];
+      if (!nextArg || !existsSync(nextArg)) {
+        console.error('❌ Error: --thresholds requires an existing JSON file');
+        process.exit(1);
+      }
+      options.thresholdsPath = nextArg;
+    } else if (arg === '--record' || arg === '--replay') {
+      const nextArg = rawArgs[++i];
+      if (!nextArg || nextArg.startsWith('-')) {
+        console.error(`❌ Error: ${arg} requires a cassette directory`);
+        process.exit(1);
+      }
+      if (options.cassette) {
+        console.error('❌ Error: --record and --replay cannot be combined');
+        process.exit(1);
+      }
+      options.cassette = { mode: arg === '--record' ? 'record' : 'replay', dir: nextArg };
+    } else if (arg === '--pin') {
+      const nextArg = rawArgs[++i];
+      const match = nextArg?.match(/^(\d+),(\d+)=(.+)$/);
+      if (!match) {
+        console.error('❌ Error: --pin must look like x,y=spriteId (e.g. 4,4=plaza_tile)');
+        process.exit(1);
+      }
+      options.pins = [
+        ...(options.pins ?? []),
+        { x: Number(match[1]), y: Number(match[2]), assetId: match[3]! },
+      ];
     } else if (arg && !arg.startsWith('-')) {
       args.push(arg);
     } else if (arg) {
@@ -243,6 +710,15 @@ async function main() {
   const [, , command, ...rawArgs] = process.argv;
   const { args, options } = parseArgs(rawArgs);
 
+  if (options.cassette) {
+    configureCassette(options.cassette);
+    console.log(
+      options.cassette.mode === 'record'
+        ? `📼 Recording model calls to ${options.cassette.dir}`
+        : `📼 Replaying model calls from ${options.cassette.dir} (offline)`
+    );
+  }
+
   switch (command) {
     case 'design': {
       const theme = args[0] || 'cyberpunk';
@@ -258,6 +734,15 @@ async function main() {
       await render(options);
       break;
 
+    case 'export':
+      await exportMap(options);
+      break;
+
+    case 'validate':
+    case 'score':
+      await validate(options);
+      break;
+
     case undefined:
     case '':
     default:
@@ -275,4 +760,10 @@ main().catch(err => {
 export { runDesignerAgent } from './designer/agent';
 export { runPlannerAgent } from './planner/agent';
 export { renderMap, renderMapFromFiles } from './lib/render-map';
+export { wfcFill, learnAdjacency, loadAdjacencyModel } from './lib/wfc';
+export { evaluateMapQuality, formatQualityReport } from './lib/map-quality';
+export { exportToTiled } from './lib/export-tiled';
+export { exportToGodot } from './lib/export-godot';
+export { exportToLdtk } from './lib/export-ldtk';
+export { exportToRpgMaker } from './lib/export-rpgmaker';
 export * from './types';
@@ -0,0 +1,205 @@
+/**
+ * Cassette - Record and replay model calls
+ *
+ * Records every model request/response to disk (--record <dir>) and serves
+ * them back without network access (--replay <dir>), so planner prompt
+ * changes can be regression-tested offline.
+ *
+ * Architecture Decision:
+ * - Implemented as AI SDK language model middleware around every model the
+ *   registry hands out (and the image model), so generateText,
+ *   generateObject and streamText are all covered without touching phases
+ * - One file per model call, keyed by a hash of the provider, model and
+ *   full call options (prompt, tools, settings). Multi-step tool loops are
+ *   one call per step: each step's prompt includes the previous tool
+ *   results, so a replay only matches while the tools behave the same
+ * - Streams are stored as their list of parts and replayed in order
+ * - Generate responses are stored with a timestamp, so anything derived
+ *   from response.timestamp replays byte for byte
+ * - Replay never falls back to the network: a missing recording is an
+ *   error, so a changed prompt is caught instead of silently re-billed
+ */
+
+import { createHash } from 'crypto';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { simulateReadableStream, wrapLanguageModel } from 'ai';
+import type { LanguageModel, LanguageModelMiddleware } from 'ai';
+
+export type CassetteMode = 'record' | 'replay';
+
+export interface CassetteConfig {
+  mode: CassetteMode;
+  /** Directory holding one JSON file per recorded call */
+  dir: string;
+}
+
+type LanguageModelInstance = Exclude<LanguageModel, string>;
+type CallOptions = Parameters<LanguageModelInstance['doGenerate']>[0];
+type GenerateResult = Awaited<ReturnType<LanguageModelInstance['doGenerate']>>;
+type StreamResult = Awaited<ReturnType<LanguageModelInstance['doStream']>>;
+type StreamPart = StreamResult['stream'] extends ReadableStream<infer T> ? T : never;
+
+interface CassetteEntry {
+  label: string;
+  model: string;
+  kind: 'generate' | 'stream';
+  /** Call options, kept for reviewing what changed between recordings */
+  request: unknown;
+  response: unknown;
+}
+
+let activeCassette: CassetteConfig | null = null;
+
+// ─────────────────────────────────────────────────────────────────
+// Configuration
+// ─────────────────────────────────────────────────────────────────
+
+/**
+ * Turn recording or replaying on for every model created afterwards.
+ * Pass null to turn it off.
+ */
+export function configureCassette(config: CassetteConfig | null): void {
+  activeCassette = config;
+  if (config?.mode === 'record' && !existsSync(config.dir)) {
+    mkdirSync(config.dir, { recursive: true });
+  }
+}
+
+export function getCassetteMode(): CassetteMode | null {
+  return activeCassette?.mode ?? null;
+}
+
+/**
+ * Wrap a model so its calls are recorded or replayed. Returns the model
+ * unchanged when no cassette is configured.
+ *
+ * @param model - Model from a provider
+ * @param label - Role name, used as the recording's file name prefix
+ */
+export function withCassette(model: LanguageModelInstance, label: string): LanguageModelInstance {
+  const cassette = activeCassette;
+  if (!cassette) {
+    return model;
+  }
+  return wrapLanguageModel({ model, middleware: createCassetteMiddleware(cassette, label) });
+}
+
+// ─────────────────────────────────────────────────────────────────
+// Middleware
+// ─────────────────────────────────────────────────────────────────
+
+function createCassetteMiddleware(cassette: CassetteConfig, label: string): LanguageModelMiddleware {
+  return {
+    middlewareVersion: 'v2',
+
+    wrapGenerate: async ({ doGenerate, params, model }) => {
+      const modelName = `${model.provider}:${model.modelId}`;
+      const path = getEntryPath(cassette.dir, label, modelName, params);
+
+      if (cassette.mode === 'replay') {
+        return readEntry(path, label).response as GenerateResult;
+      }
+
+      const generated = await doGenerate();
+      // Pin the response time (not every provider sends one) so a replay
+      // reports the recorded time instead of the current one
+      const result = { ...generated, response: { ...generated.response, timestamp: generated.response?.timestamp ?? new Date() } };
+      // The raw HTTP body duplicates the parsed content (and can hold a full image)
+      const response = { ...result, response: { ...result.response, body: undefined } };
+      writeEntry(path, { label, model: modelName, kind: 'generate', request: params, response });
+      return result;
+    },
+
+    wrapStream: async ({ doStream, params, model }) => {
+      const modelName = `${model.provider}:${model.modelId}`;
+      const path = getEntryPath(cassette.dir, label, modelName, params);
+
+      if (cassette.mode === 'replay') {
+        const entry = readEntry(path, label);
+        const { parts, ...rest } = entry.response as { parts: StreamPart[] } & Omit<StreamResult, 'stream'>;
+        return {
+          ...rest,
+          stream: simulateReadableStream({ chunks: parts, initialDelayInMs: null, chunkDelayInMs: null }),
+        };
+      }
+
+      const { stream, ...rest } = await doStream();
+      const parts: StreamPart[] = [];
+      const recording = stream.pipeThrough(
+        new TransformStream<StreamPart, StreamPart>({
+          transform(part, controller) {
+            parts.push(part);
+            controller.enqueue(part);
+          },
+          flush() {
+            writeEntry(path, { label, model: modelName, kind: 'stream', request: params, response: { ...rest, parts } });
+          },
+        })
+      );
+      return { ...rest, stream: recording };
+    },
+  };
+}
+
+// ─────────────────────────────────────────────────────────────────
+// Storage
+// ─────────────────────────────────────────────────────────────────
+
+/**
+ * File for a call: "<label>-<hash>.json". The hash covers the model and
+ * every call option except the abort signal.
+ */
+function getEntryPath(dir: string, label: string, model: string, params: CallOptions): string {
+  const { abortSignal: _abortSignal, ...request } = params;
+  const hash = createHash('sha256')
+    .update(serialize({ model, request }))
+    .digest('hex')
+    .slice(0, 16);
+  return join(dir, `${label}-${hash}.json`);
+}
+
+function readEntry(path: string, label: string): CassetteEntry {
+  if (!existsSync(path)) {
+    throw new Error(
+      `No recording for this ${label} call (${path}). The request changed since it was recorded; re-record with --record.`
+    );
+  }
+  return deserialize(readFileSync(path, 'utf-8')) as CassetteEntry;
+}
+
+function writeEntry(path: string, entry: CassetteEntry): void {
+  writeFileSync(path, serialize(entry, 2));
+}
+
+/**
+ * JSON with the non-JSON values model calls carry (binary file data,
+ * timestamps, stream errors) tagged so they survive a round trip.
+ */
+function serialize(value: unknown, indent?: number): string {
+  return JSON.stringify(
+    value,
+    function (this: Record<string, unknown>, key, current: unknown) {
+      const original = this[key];
+      if (original instanceof Uint8Array) return { $uint8array: Buffer.from(original).toString('base64') };
+      if (original instanceof Date) return { $date: original.toISOString() };
+      if (original instanceof Error) return { $error: original.message };
+      if (original instanceof URL) return { $url: original.href };
+      return current;
+    },
+    indent
+  );
+}
+
+function deserialize(json: string): unknown {
+  return JSON.parse(json, (_key, value: unknown) => {
+    if (value && typeof value === 'object') {
+      const tagged = value as Record<string, unknown>;
+      if (typeof tagged.$uint8array === 'string') return new Uint8Array(Buffer.from(tagged.$uint8array, 'base64'));
+      if (typeof tagged.$date === 'string') return new Date(tagged.$date);
+      if (typeof tagged.$error === 'string') return new Error(tagged.$error);
+      if (typeof tagged.$url === 'string') return new URL(tagged.$url);
+    }
+    return value;
+  });
+}
@@ -0,0 +1,307 @@
+import { copyFile, mkdir, writeFile } from 'fs/promises';
+import { basename, join } from 'path';
+import type { GameMap, SpritesheetMetadata, Sprite, MapCell, Direction } from '../types';
+import { getFootprint } from './footprint';
+import { isRoadSprite } from './road-tiles';
+import { getRotationFlips } from './rotation';
+
+/**
+ * Godot 4 Exporter - Converts map.json to a TileSet (.tres) + scene (.tscn)
+ *
+ * Architecture Decision:
+ * - The spritesheet itself is the TileSetAtlasSource; atlas coords are
+ *   Sprite.col/row and multi-tile sprites use size_in_atlas, so no image
+ *   slicing is needed.
+ * - Road autotiling is expressed as one terrain ("road") in a
+ *   MATCH_SIDES terrain set. Peering bits come straight from
+ *   connectivity.connects, so Godot's terrain painter picks the same
+ *   sprites the planner's road tools would.
+ * - Collision is one physics layer; every non-walkable sprite gets a
+ *   polygon covering its footprint.
+ * - Text resource formats are written directly (format=3, Godot 4.3+
+ *   TileMapLayer nodes) instead of depending on the Godot CLI.
+ * - Rotated cells use the atlas transform bits in the alternative tile ID
+ *   (transpose + flips), so no extra alternative tiles are declared.
+ */
+
+export interface GodotExportOptions {
+  /** Godot resource directory the exported files will live in. Default 'res://generative_town' */
+  resourceDir?: string;
+  /** Base filename for the scene. Default 'map' */
+  sceneName?: string;
+  /** Base filename for the TileSet. Default 'tileset' */
+  tilesetName?: string;
+}
+
+export interface GodotExportResult {
+  files: {
+    tileset: string;
+    scene: string;
+    texture: string;
+  };
+  stats: {
+    tilesExported: number;
+    terrainTiles: number;
+    collisionTiles: number;
+  };
+}
+
+// Godot's TileSet.TERRAIN_MODE_MATCH_SIDES
+const TERRAIN_MODE_MATCH_SIDES = 2;
+
+// TileSetAtlasSource.TRANSFORM_* bits, OR'd into the alternative tile ID
+const TRANSFORM_FLIP_H = 1 << 12;
+const TRANSFORM_FLIP_V = 1 << 13;
+const TRANSFORM_TRANSPOSE = 1 << 14;
+
+// Variant.Type values for custom data layers
+const VARIANT_TYPE_BOOL = 1;
+const VARIANT_TYPE_STRING = 4;
+
+// Godot names for the side peering bits (CellNeighbor)
+const PEERING_BIT_BY_DIRECTION: Record<Direction, string> = {
+  north: 'top_side',
+  south: 'bottom_side',
+  east: 'right_side',
+  west: 'left_side',
+};
+
+const CUSTOM_DATA_LAYERS = [
+  { name: 'sprite_id', type: VARIANT_TYPE_STRING },
+  { name: 'category', type: VARIANT_TYPE_STRING },
+  { name: 'walkable', type: VARIANT_TYPE_BOOL },
+] as const;
+
+/**
+ * Collision polygon covering the sprite footprint, in tile-local space
+ * (origin at the centre of the anchor cell).
+ */
+function getCollisionPolygon(sprite: Sprite, tileSize: number): number[] {
+  const half = tileSize / 2;
+  const footprint = getFootprint(sprite, 0, 0);
+  const left = footprint.left * tileSize - half;
+  const top = footprint.top * tileSize - half;
+  const right = (footprint.right + 1) * tileSize - half;
+  const bottom = (footprint.bottom + 1) * tileSize - half;
+  return [left, top, right, top, right, bottom, left, bottom];
+}
+
+/**
+ * Build the TileSetAtlasSource tile entries for one sprite.
+ */
+function buildAtlasTileLines(sprite: Sprite, tileSize: number): string[] {
+  const key = `${sprite.col}:${sprite.row}`;
+  const lines: string[] = [];
+
+  if (sprite.w > 1 || sprite.h > 1) {
+    lines.push(`${key}/size_in_atlas = Vector2i(${sprite.w}, ${sprite.h})`);
+  }
+
+  lines.push(`${key}/0 = 0`);
+
+  // Godot centres big tiles on their cell; shift so the texture covers the
+  // footprint around the anchor cell (positive origin moves the texture up/left)
+  if (sprite.w > 1 || sprite.h > 1) {
+    const footprint = getFootprint(sprite, 0, 0);
+    const originX = -((footprint.left + (sprite.w - 1) / 2) * tileSize);
+    const originY = -((footprint.top + (sprite.h - 1) / 2) * tileSize);
+    lines.push(`${key}/0/texture_origin = Vector2i(${originX}, ${originY})`);
+  }
+
+  if (isRoadSprite(sprite)) {
+    lines.push(`${key}/0/terrain_set = 0`);
+    lines.push(`${key}/0/terrain = 0`);
+    for (const dir of sprite.connectivity.connects) {
+      lines.push(`${key}/0/terrains_peering_bit/${PEERING_BIT_BY_DIRECTION[dir]} = 0`);
+    }
+  }
+
+  if (!sprite.placement.walkable) {
+    const points = getCollisionPolygon(sprite, tileSize).join(', ');
+    lines.push(`${key}/0/physics_layer_0/polygon_0/points = PackedVector2Array(${points})`);
+  }
+
+  lines.push(`${key}/0/custom_data_0 = ${JSON.stringify(sprite.id)}`);
+  lines.push(`${key}/0/custom_data_1 = ${JSON.stringify(sprite.category)}`);
+  lines.push(`${key}/0/custom_data_2 = ${sprite.placement.walkable}`);
+
+  return lines;
+}
+
+function buildTilesetResource(metadata: SpritesheetMetadata, texturePath: string): string {
+  const tileSize = metadata.tileSize;
+
+  const lines: string[] = [
+    '[gd_resource type="TileSet" load_steps=3 format=3]',
+    '',
+    `[ext_resource type="Texture2D" path=${JSON.stringify(texturePath)} id="1_sheet"]`,
+    '',
+    '[sub_resource type="TileSetAtlasSource" id="TileSetAtlasSource_sheet"]',
+    'texture = ExtResource("1_sheet")',
+    `texture_region_size = Vector2i(${tileSize}, ${tileSize})`,
+  ];
+
+  for (const sprite of metadata.sprites) {
+    lines.push(...buildAtlasTileLines(sprite, tileSize));
+  }
+
+  lines.push(
+    '',
+    '[resource]',
+    `tile_size = Vector2i(${tileSize}, ${tileSize})`,
+    'physics_layer_0/collision_layer = 1',
+    `terrain_set_0/mode = ${TERRAIN_MODE_MATCH_SIDES}`,
+    'terrain_set_0/terrain_0/name = "road"',
+    'terrain_set_0/terrain_0/color = Color(0.85, 0.65, 0.3, 1)',
+  );
+
+  CUSTOM_DATA_LAYERS.forEach((layer, index) => {
+    lines.push(`custom_data_layer_${index}/name = "${layer.name}"`);
+    lines.push(`custom_data_layer_${index}/type = ${layer.type}`);
+  });
+
+  lines.push('sources/0 = SubResource("TileSetAtlasSource_sheet")', '');
+  return lines.join('\n');
+}
+
+/**
+ * Alternative tile ID (base tile 0) with the transform bits for a
+ * clockwise rotation.
+ */
+function getAlternativeTile(rotation = 0): number {
+  const { flipH, flipV, flipD } = getRotationFlips(rotation);
+  return (flipH ? TRANSFORM_FLIP_H : 0) | (flipV ? TRANSFORM_FLIP_V : 0) | (flipD ? TRANSFORM_TRANSPOSE : 0);
+}
+
+/**
+ * Encode a map layer as TileMapLayer.tile_map_data.
+ *
+ * Format (little-endian): uint16 format version (0), then per cell
+ * int16 x, int16 y, uint16 source_id, uint16 atlas_x, uint16 atlas_y,
+ * uint16 alternative_tile.
+ */
+function encodeTileMapData(
+  layer: (MapCell | null)[][],
+  spriteById: Map<string, Sprite>
+): { bytes: number[]; cellCount: number } {
+  const cells: Array<[number, number, Sprite, number]> = [];
+
+  for (let y = 0; y < layer.length; y++) {
+    const row = layer[y];
+    if (!row) continue;
+    for (let x = 0; x < row.length; x++) {
+      const cell = row[x];
+      if (!cell) continue;
+      const sprite = spriteById.get(cell.assetId);
+      if (!sprite) {
+        console.warn(`   Warning: Unknown asset ID "${cell.assetId}" - skipping`);
+        continue;
+      }
+      cells.push([x, y, sprite, getAlternativeTile(cell.rotation)]);
+    }
+  }
+
+  const buffer = new DataView(new ArrayBuffer(2 + cells.length * 12));
+  buffer.setUint16(0, 0, true);
+
+  cells.forEach(([x, y, sprite, alternative], i) => {
+    const offset = 2 + i * 12;
+    buffer.setInt16(offset, x, true);
+    buffer.setInt16(offset + 2, y, true);
+    buffer.setUint16(offset + 4, 0, true);
+    buffer.setUint16(offset + 6, sprite.col, true);
+    buffer.setUint16(offset + 8, sprite.row, true);
+    buffer.setUint16(offset + 10, alternative, true);
+  });
+
+  return {
+    bytes: Array.from(new Uint8Array(buffer.buffer)),
+    cellCount: cells.length,
+  };
+}
+
+function buildSceneResource(
+  map: GameMap,
+  metadata: SpritesheetMetadata,
+  tilesetPath: string
+): { scene: string; tilesExported: number } {
+  const spriteById = new Map(metadata.sprites.map(s => [s.id, s]));
+  const ground = encodeTileMapData(map.layers.ground, spriteById);
+  const objects = encodeTileMapData(map.layers.objects, spriteById);
+
+  const scene = [
+    '[gd_scene load_steps=2 format=3]',
+    '',
+    `[ext_resource type="TileSet" path=${JSON.stringify(tilesetPath)} id="1_tileset"]`,
+    '',
+    '[node name="Town" type="Node2D"]',
+    '',
+    '[node name="Ground" type="TileMapLayer" parent="."]',
+    `tile_map_data = PackedByteArray(${ground.bytes.join(', ')})`,
+    'tile_set = ExtResource("1_tileset")',
+    '',
+    '[node name="Objects" type="TileMapLayer" parent="."]',
+    'y_sort_enabled = true',
+    `tile_map_data = PackedByteArray(${objects.bytes.join(', ')})`,
+    'tile_set = ExtResource("1_tileset")',
+    '',
+  ].join('\n');
+
+  return { scene, tilesExported: ground.cellCount + objects.cellCount };
+}
+
+/**
+ * Export a map to a Godot 4 TileSet resource and TileMapLayer scene.
+ *
+ * The spritesheet is copied next to the resources so the output directory
+ * can be dropped into a Godot project at `resourceDir`.
+ *
+ * @param map - The parsed GameMap object
+ * @param metadata - The spritesheet metadata
+ * @param spritesheetPath - Path to the spritesheet PNG
+ * @param outputDir - Directory to write .tres/.tscn/.png files to
+ * @param options - Export options (resource paths, file names)
+ */
+export async function exportToGodot(
+  map: GameMap,
+  metadata: SpritesheetMetadata,
+  spritesheetPath: string,
+  outputDir: string,
+  options: GodotExportOptions = {}
+): Promise<GodotExportResult> {
+  const {
+    resourceDir = 'res://generative_town',
+    sceneName = 'map',
+    tilesetName = 'tileset',
+  } = options;
+
+  await mkdir(outputDir, { recursive: true });
+
+  const textureName = basename(spritesheetPath);
+  const files = {
+    texture: join(outputDir, textureName),
+    tileset: join(outputDir, `${tilesetName}.tres`),
+    scene: join(outputDir, `${sceneName}.tscn`),
+  };
+
+  await copyFile(spritesheetPath, files.texture);
+
+  const tileset = buildTilesetResource(metadata, `${resourceDir}/${textureName}`);
+  await writeFile(files.tileset, tileset, 'utf-8');
+
+  const { scene, tilesExported } = buildSceneResource(
+    map,
+    metadata,
+    `${resourceDir}/${tilesetName}.tres`
+  );
+  await writeFile(files.scene, scene, 'utf-8');
+
+  return {
+    files,
+    stats: {
+      tilesExported,
+      terrainTiles: metadata.sprites.filter(isRoadSprite).length,
+      collisionTiles: metadata.sprites.filter(s => !s.placement.walkable).length,
+    },
+  };
+}
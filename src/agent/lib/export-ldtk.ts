@@ -0,0 +1,506 @@
+import { createHash } from 'crypto';
+import { mkdir, writeFile } from 'fs/promises';
+import { basename, join, relative } from 'path';
+import type { GameMap, SpritesheetMetadata, Sprite, MapCell } from '../types';
+import { getFootprint, getFootprintCells } from './footprint';
+import { getRotationFlips } from './rotation';
+
+/**
+ * LDtk Exporter - Converts map.json to an LDtk (.ldtk) project
+ *
+ * Architecture Decision:
+ * - One level, four layers (top to bottom): Entities, Collision (IntGrid),
+ *   Objects (Tiles), Ground (Tiles).
+ * - Multi-tile sprites are written as one grid tile per covered cell, so a
+ *   2x2 building stays editable as plain tiles in LDtk.
+ * - Sprites with category 'marker' are game logic, not art: they become
+ *   Entity definitions/instances instead of Objects tiles.
+ * - Collision is derived from placement.walkable of both ground and objects.
+ * - IIDs are derived from content hashes so re-exporting the same map
+ *   produces a stable diff.
+ *
+ * Trade-off: LDtk tiles can only flip, not rotate. 180° is written as an
+ * X+Y flip; 90°/270° cells are exported unrotated with a warning.
+ */
+
+export interface LdtkExportOptions {
+  /** Base filename for the project. Default 'map' */
+  projectName?: string;
+}
+
+export interface LdtkExportResult {
+  files: {
+    project: string;
+  };
+  stats: {
+    groundTiles: number;
+    objectTiles: number;
+    collisionCells: number;
+    entities: number;
+  };
+}
+
+const LDTK_JSON_VERSION = '1.5.3';
+
+// IntGrid value for blocked cells
+const COLLISION_SOLID = 1;
+
+// Layer/tileset definition UIDs (fixed so the project is reproducible)
+const UID = {
+  tileset: 1,
+  entitiesLayer: 2,
+  collisionLayer: 3,
+  objectsLayer: 4,
+  groundLayer: 5,
+  level: 6,
+  firstEntity: 100,
+} as const;
+
+interface LdtkGridTile {
+  px: [number, number];
+  src: [number, number];
+  f: number;
+  t: number;
+  d: [number];
+  a: number;
+}
+
+/**
+ * Deterministic UUID-shaped IID from a seed string.
+ */
+function makeIid(seed: string): string {
+  const hex = createHash('sha256').update(seed).digest('hex');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20, 32)}`;
+}
+
+/**
+ * Convert a snake_case sprite ID into an LDtk identifier (Capitalized, [A-Za-z0-9_]).
+ */
+function toIdentifier(id: string): string {
+  const cleaned = id.replace(/[^A-Za-z0-9_]/g, '_');
+  const prefixed = /^[A-Za-z]/.test(cleaned) ? cleaned : `E_${cleaned}`;
+  return prefixed.charAt(0).toUpperCase() + prefixed.slice(1);
+}
+
+/**
+ * Base fields shared by every layer definition.
+ */
+function layerDef(uid: number, identifier: string, type: string, gridSize: number) {
+  return {
+    __type: type,
+    identifier,
+    type,
+    uid,
+    doc: null,
+    uiColor: null,
+    gridSize,
+    guideGridWid: 0,
+    guideGridHei: 0,
+    displayOpacity: 1,
+    inactiveOpacity: 0.6,
+    hideInList: false,
+    hideFieldsWhenInactive: true,
+    canSelectWhenInactive: true,
+    renderInWorldView: true,
+    pxOffsetX: 0,
+    pxOffsetY: 0,
+    parallaxFactorX: 0,
+    parallaxFactorY: 0,
+    parallaxScaling: true,
+    requiredTags: [],
+    excludedTags: [],
+    autoTilesKilledByOtherLayerUid: null,
+    uiFilterTags: [],
+    useAsyncRender: false,
+    intGridValues: [] as object[],
+    intGridValuesGroups: [],
+    autoRuleGroups: [],
+    autoSourceLayerDefUid: null,
+    tilesetDefUid: null as number | null,
+    tilePivotX: 0,
+    tilePivotY: 0,
+    biomeFieldUid: null,
+  };
+}
+
+/**
+ * Base fields shared by every layer instance.
+ */
+function layerInstance(
+  def: { identifier: string; type: string; uid: number },
+  map: GameMap,
+  gridSize: number,
+  tileset: { uid: number; relPath: string } | null
+) {
+  return {
+    __identifier: def.identifier,
+    __type: def.type,
+    __cWid: map.width,
+    __cHei: map.height,
+    __gridSize: gridSize,
+    __opacity: 1,
+    __pxTotalOffsetX: 0,
+    __pxTotalOffsetY: 0,
+    __tilesetDefUid: tileset?.uid ?? null,
+    __tilesetRelPath: tileset?.relPath ?? null,
+    iid: makeIid(`layer:${def.identifier}`),
+    levelId: UID.level,
+    layerDefUid: def.uid,
+    pxOffsetX: 0,
+    pxOffsetY: 0,
+    visible: true,
+    optionalRules: [],
+    intGridCsv: [] as number[],
+    autoLayerTiles: [],
+    seed: 0,
+    overrideTilesetUid: null,
+    gridTiles: [] as LdtkGridTile[],
+    entityInstances: [] as object[],
+  };
+}
+
+/**
+ * Build LDtk grid tiles for a map layer. Multi-tile sprites emit one tile
+ * per covered cell, each pointing at the matching cell of the sprite.
+ */
+function buildGridTiles(
+  layer: (MapCell | null)[][],
+  map: GameMap,
+  spriteById: Map<string, Sprite>,
+  metadata: SpritesheetMetadata,
+  skip: (sprite: Sprite) => boolean
+): LdtkGridTile[] {
+  const tileSize = metadata.tileSize;
+  const tiles: LdtkGridTile[] = [];
+  let unrotated = 0;
+
+  for (let y = 0; y < map.height; y++) {
+    for (let x = 0; x < map.width; x++) {
+      const cell = layer[y]?.[x];
+      if (!cell) continue;
+
+      const sprite = spriteById.get(cell.assetId);
+      if (!sprite) {
+        console.warn(`   Warning: Unknown asset ID "${cell.assetId}" - skipping`);
+        continue;
+      }
+      if (skip(sprite)) continue;
+
+      // f bits: 1 = flip X, 2 = flip Y; a diagonal flip has no LDtk equivalent
+      const { flipH, flipV, flipD } = getRotationFlips(cell.rotation);
+      if (flipD) unrotated++;
+      const f = flipD ? 0 : (flipH ? 1 : 0) | (flipV ? 2 : 0);
+
+      const footprint = getFootprint(sprite, x, y);
+      for (const { x: cx, y: cy } of getFootprintCells(footprint)) {
+        if (cx < 0 || cy < 0 || cx >= map.width || cy >= map.height) continue;
+
+        const srcCol = sprite.col + (cx - footprint.left);
+        const srcRow = sprite.row + (cy - footprint.top);
+        tiles.push({
+          px: [cx * tileSize, cy * tileSize],
+          src: [srcCol * tileSize, srcRow * tileSize],
+          f,
+          t: srcRow * metadata.columns + srcCol,
+          d: [cy * map.width + cx],
+          a: 1,
+        });
+      }
+    }
+  }
+
+  if (unrotated > 0) {
+    console.warn(`   Warning: LDtk cannot rotate tiles by 90°/270° - ${unrotated} cell(s) exported unrotated`);
+  }
+
+  return tiles;
+}
+
+/**
+ * Build the IntGrid collision CSV from walkability of ground and objects.
+ */
+function buildCollisionCsv(map: GameMap, spriteById: Map<string, Sprite>): number[] {
+  const csv = new Array<number>(map.width * map.height).fill(0);
+
+  const markBlocked = (layer: (MapCell | null)[][]) => {
+    for (let y = 0; y < map.height; y++) {
+      for (let x = 0; x < map.width; x++) {
+        const cell = layer[y]?.[x];
+        const sprite = cell ? spriteById.get(cell.assetId) : undefined;
+        if (!sprite || sprite.placement.walkable) continue;
+
+        for (const { x: cx, y: cy } of getFootprintCells(getFootprint(sprite, x, y))) {
+          if (cx >= 0 && cy >= 0 && cx < map.width && cy < map.height) {
+            csv[cy * map.width + cx] = COLLISION_SOLID;
+          }
+        }
+      }
+    }
+  };
+
+  markBlocked(map.layers.ground);
+  markBlocked(map.layers.objects);
+
+  return csv;
+}
+
+/**
+ * Build the full LDtk project JSON.
+ */
+function buildLdtkProject(
+  map: GameMap,
+  metadata: SpritesheetMetadata,
+  tilesetRelPath: string
+): { project: object; stats: LdtkExportResult['stats'] } {
+  const tileSize = metadata.tileSize;
+  const spriteById = new Map(metadata.sprites.map(s => [s.id, s]));
+  const tileset = { uid: UID.tileset, relPath: tilesetRelPath };
+  const isMarker = (sprite: Sprite) => sprite.category === 'marker';
+
+  // ─── Definitions ───────────────────────────────────────────────
+  const entitiesDef = layerDef(UID.entitiesLayer, 'Entities', 'Entities', tileSize);
+
+  const collisionDef = layerDef(UID.collisionLayer, 'Collision', 'IntGrid', tileSize);
+  collisionDef.intGridValues = [
+    { value: COLLISION_SOLID, identifier: 'solid', color: '#E04040', tile: null, groupUid: 0 },
+  ];
+
+  const objectsDef = layerDef(UID.objectsLayer, 'Objects', 'Tiles', tileSize);
+  objectsDef.tilesetDefUid = UID.tileset;
+
+  const groundDef = layerDef(UID.groundLayer, 'Ground', 'Tiles', tileSize);
+  groundDef.tilesetDefUid = UID.tileset;
+
+  const markerSprites = metadata.sprites.filter(isMarker);
+  const entityDefs = markerSprites.map((sprite, i) => ({
+    identifier: toIdentifier(sprite.id),
+    uid: UID.firstEntity + i,
+    tags: [],
+    exportToToc: false,
+    allowOutOfBounds: false,
+    doc: sprite.description,
+    width: sprite.w * tileSize,
+    height: sprite.h * tileSize,
+    resizableX: false,
+    resizableY: false,
+    minWidth: null,
+    maxWidth: null,
+    minHeight: null,
+    maxHeight: null,
+    keepAspectRatio: false,
+    tileOpacity: 1,
+    fillOpacity: 0.08,
+    lineOpacity: 0,
+    hollow: false,
+    color: '#94D9B3',
+    renderMode: 'Tile',
+    showName: true,
+    tilesetId: UID.tileset,
+    tileRenderMode: 'FitInside',
+    tileRect: {
+      tilesetUid: UID.tileset,
+      x: sprite.col * tileSize,
+      y: sprite.row * tileSize,
+      w: sprite.w * tileSize,
+      h: sprite.h * tileSize,
+    },
+    uiTileRect: null,
+    nineSliceBorders: [],
+    maxCount: 0,
+    limitScope: 'PerLevel',
+    limitBehavior: 'MoveLastOne',
+    pivotX: 0,
+    pivotY: 0,
+    fieldDefs: [],
+  }));
+  const entityDefBySprite = new Map(markerSprites.map((s, i) => [s.id, entityDefs[i]!]));
+
+  // Per-tile custom data mirrors sprite metadata (placement + connectivity)
+  const tilesetDef = {
+    __cWid: metadata.columns,
+    __cHei: metadata.rows,
+    identifier: 'Spritesheet',
+    uid: UID.tileset,
+    relPath: tilesetRelPath,
+    embedAtlas: null,
+    pxWid: metadata.columns * tileSize,
+    pxHei: metadata.rows * tileSize,
+    tileGridSize: tileSize,
+    spacing: 0,
+    padding: 0,
+    tags: [],
+    tagsSourceEnumUid: null,
+    enumTags: [],
+    customData: metadata.sprites.map(sprite => ({
+      tileId: sprite.row * metadata.columns + sprite.col,
+      data: JSON.stringify({
+        id: sprite.id,
+        category: sprite.category,
+        placement: sprite.placement,
+        connectivity: sprite.connectivity,
+      }),
+    })),
+    savedSelections: [],
+    cachedPixelData: null,
+  };
+
+  // ─── Level instance ────────────────────────────────────────────
+  const entitiesLayer = layerInstance(entitiesDef, map, tileSize, null);
+  const collisionLayer = layerInstance(collisionDef, map, tileSize, null);
+  const objectsLayer = layerInstance(objectsDef, map, tileSize, tileset);
+  const groundLayer = layerInstance(groundDef, map, tileSize, tileset);
+
+  groundLayer.gridTiles = buildGridTiles(map.layers.ground, map, spriteById, metadata, isMarker);
+  objectsLayer.gridTiles = buildGridTiles(map.layers.objects, map, spriteById, metadata, isMarker);
+  collisionLayer.intGridCsv = buildCollisionCsv(map, spriteById);
+
+  for (const layer of [map.layers.ground, map.layers.objects]) {
+    for (let y = 0; y < map.height; y++) {
+      for (let x = 0; x < map.width; x++) {
+        const cell = layer[y]?.[x];
+        const def = cell ? entityDefBySprite.get(cell.assetId) : undefined;
+        const sprite = cell ? spriteById.get(cell.assetId) : undefined;
+        if (!def || !sprite) continue;
+
+        // Entities use a top-left pivot, so position them at the footprint corner
+        const { left, top } = getFootprint(sprite, x, y);
+        entitiesLayer.entityInstances.push({
+          __identifier: def.identifier,
+          __grid: [left, top],
+          __pivot: [0, 0],
+          __tags: [],
+          __tile: def.tileRect,
+          __smartColor: def.color,
+          __worldX: left * tileSize,
+          __worldY: top * tileSize,
+          iid: makeIid(`entity:${def.identifier}:${x},${y}`),
+          width: def.width,
+          height: def.height,
+          defUid: def.uid,
+          px: [left * tileSize, top * tileSize],
+          fieldInstances: [],
+        });
+      }
+    }
+  }
+
+  const level = {
+    identifier: 'Level_0',
+    iid: makeIid('level:0'),
+    uid: UID.level,
+    worldX: 0,
+    worldY: 0,
+    worldDepth: 0,
+    pxWid: map.width * tileSize,
+    pxHei: map.height * tileSize,
+    __bgColor: '#000000',
+    bgColor: null,
+    useAutoIdentifier: true,
+    bgRelPath: null,
+    bgPos: null,
+    bgPivotX: 0.5,
+    bgPivotY: 0.5,
+    __smartColor: '#ADADB5',
+    __bgPos: null,
+    externalRelPath: null,
+    fieldInstances: [],
+    // LDtk lists layer instances top-most first
+    layerInstances: [entitiesLayer, collisionLayer, objectsLayer, groundLayer],
+    __neighbours: [],
+  };
+
+  const project = {
+    __header__: {
+      fileType: 'LDtk Project JSON',
+      app: 'LDtk',
+      doc: 'https://ldtk.io/json',
+      schema: 'https://ldtk.io/files/JSON_SCHEMA.json',
+      appAuthor: 'Sebastien Benard',
+      appVersion: LDTK_JSON_VERSION,
+      url: 'https://ldtk.io',
+    },
+    iid: makeIid(`project:${metadata.theme}`),
+    jsonVersion: LDTK_JSON_VERSION,
+    appBuildId: 0,
+    nextUid: UID.firstEntity + entityDefs.length,
+    identifierStyle: 'Capitalize',
+    toc: [],
+    worldLayout: 'Free',
+    worldGridWidth: map.width * tileSize,
+    worldGridHeight: map.height * tileSize,
+    defaultLevelWidth: map.width * tileSize,
+    defaultLevelHeight: map.height * tileSize,
+    defaultPivotX: 0,
+    defaultPivotY: 0,
+    defaultGridSize: tileSize,
+    defaultEntityWidth: tileSize,
+    defaultEntityHeight: tileSize,
+    bgColor: '#40465B',
+    defaultLevelBgColor: '#000000',
+    minifyJson: false,
+    externalLevels: false,
+    exportTiled: false,
+    simplifiedExport: false,
+    imageExportMode: 'None',
+    exportLevelBg: true,
+    pngFilePattern: null,
+    backupOnSave: false,
+    backupLimit: 10,
+    backupRelPath: null,
+    levelNamePattern: 'Level_%idx',
+    tutorialDesc: null,
+    customCommands: [],
+    flags: [],
+    defs: {
+      layers: [entitiesDef, collisionDef, objectsDef, groundDef],
+      entities: entityDefs,
+      tilesets: [tilesetDef],
+      enums: [],
+      externalEnums: [],
+      levelFields: [],
+    },
+    levels: [level],
+    worlds: [],
+    dummyWorldIid: makeIid('world:dummy'),
+  };
+
+  return {
+    project,
+    stats: {
+      groundTiles: groundLayer.gridTiles.length,
+      objectTiles: objectsLayer.gridTiles.length,
+      collisionCells: collisionLayer.intGridCsv.filter(v => v === COLLISION_SOLID).length,
+      entities: entitiesLayer.entityInstances.length,
+    },
+  };
+}
+
+/**
+ * Export a map to an LDtk project with tile, collision and entity layers.
+ *
+ * @param map - The parsed GameMap object
+ * @param metadata - The spritesheet metadata
+ * @param spritesheetPath - Path to the spritesheet PNG (referenced, not copied)
+ * @param outputDir - Directory to write the .ldtk file to
+ * @param options - Export options (file name)
+ */
+export async function exportToLdtk(
+  map: GameMap,
+  metadata: SpritesheetMetadata,
+  spritesheetPath: string,
+  outputDir: string,
+  options: LdtkExportOptions = {}
+): Promise<LdtkExportResult> {
+  const { projectName = 'map' } = options;
+
+  await mkdir(outputDir, { recursive: true });
+
+  // LDtk resolves tileset paths relative to the project file
+  const tilesetRelPath = relative(outputDir, spritesheetPath) || basename(spritesheetPath);
+  const { project, stats } = buildLdtkProject(map, metadata, tilesetRelPath);
+
+  const files = { project: join(outputDir, `${projectName}.ldtk`) };
+  await writeFile(files.project, JSON.stringify(project, null, 2), 'utf-8');
+
+  return { files, stats };
+}
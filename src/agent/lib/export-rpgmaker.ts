@@ -0,0 +1,450 @@
+import sharp, { type OverlayOptions } from 'sharp';
+import { mkdir, writeFile } from 'fs/promises';
+import { join } from 'path';
+import type { GameMap, SpritesheetMetadata, Sprite, MapCell } from '../types';
+import { getFootprint, getFootprintCells } from './footprint';
+
+/**
+ * RPG Maker MZ Exporter - Converts map.json to MapXXX.json + tileset sheets
+ *
+ * Architecture Decision:
+ * - RPG Maker tiles are 48px, so every sprite is re-sliced from the
+ *   spritesheet into 48px cells on new tileset pages:
+ *   - A5 (normal floor, 8x16) for 1x1 ground sprites
+ *   - B then C (upper tiles, 16x16 each) for buildings, props, walls, markers
+ * - Multi-tile sprites keep their w×h block contiguous within one half-page,
+ *   so they stay readable in the RPG Maker tile palette.
+ * - Map layers: z0 = ground (A5), z2 = 1x1 objects, z3 = multi-tile
+ *   buildings. Buildings never land on the floor layer.
+ * - Passability flags come from placement.walkable.
+ * - RPG Maker tiles cannot rotate, so every (sprite, rotation) pair used
+ *   by the map gets its own pre-rotated tile after the unrotated ones.
+ *
+ * Trade-off: autotiles (A1-A4) are not generated; roads are exported as
+ * their already-resolved A5 floor tiles.
+ */
+
+export interface RpgMakerExportOptions {
+  /** Map number used for the MapXXX.json filename. Default 1 */
+  mapId?: number;
+  /** Tileset database ID referenced by the map. Default 1 */
+  tilesetId?: number;
+  /** Tileset name, also the image filename prefix. Default 'GenerativeTown' */
+  tilesetName?: string;
+}
+
+export interface RpgMakerExportResult {
+  files: {
+    map: string;
+    tilesets: string;
+    images: string[];
+  };
+  stats: {
+    floorTiles: number;
+    upperTiles: number;
+  };
+}
+
+// RPG Maker MZ fixed sizes
+const RM_TILE_SIZE = 48;
+const A5_COLUMNS = 8;
+const A5_ROWS = 16;
+const UPPER_PAGE_COLUMNS = 16;
+const UPPER_PAGE_ROWS = 16;
+const TILES_PER_UPPER_PAGE = 256;
+const FLAGS_LENGTH = 8192;
+
+// Tile ID bases (see Tilemap.TILE_ID_* in rmmz_core.js)
+const TILE_ID_B = 0;
+const TILE_ID_C = 256;
+const TILE_ID_A5 = 1536;
+
+// Tileset flag bits
+const FLAG_IMPASSABLE = 0x0f; // blocked in all four directions
+const FLAG_STAR = 0x10; // drawn above characters, ignored for passage
+
+// Map data layers (z index)
+const LAYER_FLOOR = 0;
+const LAYER_LOWER_OBJECTS = 2;
+const LAYER_UPPER_OBJECTS = 3;
+const LAYER_COUNT = 6;
+
+type UpperPage = 'B' | 'C';
+
+interface SpriteTiles {
+  sprite: Sprite;
+  /** Clockwise degrees the tile image is turned by */
+  rotation: number;
+  /** Tile IDs for each cell of the sprite, row-major (h rows × w columns) */
+  tileIds: number[];
+  page: 'A5' | UpperPage;
+  /** Cell position on the destination page */
+  pageX: number;
+  pageY: number;
+}
+
+function isFloorSprite(sprite: Sprite): boolean {
+  return sprite.category === 'ground' && sprite.w === 1 && sprite.h === 1;
+}
+
+/**
+ * Allocation key for a sprite at a rotation.
+ */
+function tileKey(spriteId: string, rotation = 0): string {
+  return rotation ? `${spriteId}@${rotation}` : spriteId;
+}
+
+/**
+ * Rotated (sprite, rotation) pairs used by the map, in map order.
+ */
+function collectRotatedTiles(map: GameMap, metadata: SpritesheetMetadata): Array<{ sprite: Sprite; rotation: number }> {
+  const spriteById = new Map(metadata.sprites.map(s => [s.id, s]));
+  const rotated = new Map<string, { sprite: Sprite; rotation: number }>();
+
+  for (const layer of [map.layers.ground, map.layers.objects]) {
+    for (const row of layer) {
+      for (const cell of row ?? []) {
+        const sprite = cell ? spriteById.get(cell.assetId) : undefined;
+        if (!sprite || !cell?.rotation) continue;
+        rotated.set(tileKey(sprite.id, cell.rotation), { sprite, rotation: cell.rotation });
+      }
+    }
+  }
+
+  return [...rotated.values()];
+}
+
+/**
+ * Tile ID for a cell on an upper (B-E) page.
+ * Each page is two 8-column halves; IDs run down the left half first.
+ */
+function upperTileId(base: number, pageX: number, pageY: number): number {
+  const half = pageX >= 8 ? 128 : 0;
+  return base + half + pageY * 8 + (pageX % 8);
+}
+
+/**
+ * Allocate page positions for every sprite in the metadata, plus the
+ * rotated copies the map needs.
+ */
+function allocateTiles(
+  metadata: SpritesheetMetadata,
+  rotatedTiles: Array<{ sprite: Sprite; rotation: number }> = []
+): Map<string, SpriteTiles> {
+  const allocations = new Map<string, SpriteTiles>();
+  const entries = [
+    ...metadata.sprites.map(sprite => ({ sprite, rotation: 0 })),
+    ...rotatedTiles,
+  ];
+
+  // A5: one tile per ground sprite, left-to-right, top-to-bottom
+  const floorTiles = entries.filter(e => isFloorSprite(e.sprite));
+  if (floorTiles.length > A5_COLUMNS * A5_ROWS) {
+    throw new Error(`Too many ground tiles for an A5 page (${floorTiles.length} > ${A5_COLUMNS * A5_ROWS})`);
+  }
+  floorTiles.forEach(({ sprite, rotation }, i) => {
+    allocations.set(tileKey(sprite.id, rotation), {
+      sprite,
+      rotation,
+      tileIds: [TILE_ID_A5 + i],
+      page: 'A5',
+      pageX: i % A5_COLUMNS,
+      pageY: Math.floor(i / A5_COLUMNS),
+    });
+  });
+
+  // B/C: occupancy grid per page; B (0,0) is RPG Maker's reserved empty tile
+  const pages: Array<{ page: UpperPage; base: number; used: boolean[][] }> = [
+    { page: 'B', base: TILE_ID_B, used: emptyPage() },
+    { page: 'C', base: TILE_ID_C, used: emptyPage() },
+  ];
+  pages[0]!.used[0]![0] = true;
+
+  // Place larger sprites first so they find contiguous space
+  const upperTiles = entries
+    .filter(e => !isFloorSprite(e.sprite))
+    .sort((a, b) => b.sprite.w * b.sprite.h - a.sprite.w * a.sprite.h);
+
+  for (const { sprite, rotation } of upperTiles) {
+    const slot = findFreeBlock(pages, sprite.w, sprite.h);
+    if (!slot) {
+      throw new Error(`No room left on tileset pages B/C for "${sprite.id}" (${sprite.w}x${sprite.h})`);
+    }
+
+    const tileIds: number[] = [];
+    for (let dy = 0; dy < sprite.h; dy++) {
+      for (let dx = 0; dx < sprite.w; dx++) {
+        slot.used[slot.y + dy]![slot.x + dx] = true;
+        tileIds.push(upperTileId(slot.base, slot.x + dx, slot.y + dy));
+      }
+    }
+
+    allocations.set(tileKey(sprite.id, rotation), {
+      sprite,
+      rotation,
+      tileIds,
+      page: slot.page,
+      pageX: slot.x,
+      pageY: slot.y,
+    });
+  }
+
+  return allocations;
+}
+
+function emptyPage(): boolean[][] {
+  return Array.from({ length: UPPER_PAGE_ROWS }, () =>
+    Array.from({ length: UPPER_PAGE_COLUMNS }, () => false)
+  );
+}
+
+/**
+ * Find a free w×h block that does not straddle a page half.
+ */
+function findFreeBlock(
+  pages: Array<{ page: UpperPage; base: number; used: boolean[][] }>,
+  w: number,
+  h: number
+): { page: UpperPage; base: number; used: boolean[][]; x: number; y: number } | null {
+  for (const page of pages) {
+    for (const halfStart of [0, 8]) {
+      for (let y = 0; y + h <= UPPER_PAGE_ROWS; y++) {
+        for (let x = halfStart; x + w <= halfStart + 8; x++) {
+          let free = true;
+          for (let dy = 0; dy < h && free; dy++) {
+            for (let dx = 0; dx < w && free; dx++) {
+              if (page.used[y + dy]![x + dx]) free = false;
+            }
+          }
+          if (free) return { ...page, x, y };
+        }
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Compose a tileset page image from allocated sprites.
+ *
+ * Downscaling uses the default (lanczos) kernel rather than 'nearest':
+ * 256px → 48px is not an integer ratio, and nearest-neighbour would drop
+ * whole outline rows.
+ */
+async function buildPageImage(
+  spritesheetPath: string,
+  metadata: SpritesheetMetadata,
+  allocations: Map<string, SpriteTiles>,
+  page: SpriteTiles['page'],
+  outputPath: string
+): Promise<void> {
+  const columns = page === 'A5' ? A5_COLUMNS : UPPER_PAGE_COLUMNS;
+  const rows = page === 'A5' ? A5_ROWS : UPPER_PAGE_ROWS;
+  const tileSize = metadata.tileSize;
+  const composites: OverlayOptions[] = [];
+
+  for (const alloc of allocations.values()) {
+    if (alloc.page !== page) continue;
+    const { sprite, rotation } = alloc;
+
+    const resized = await sharp(spritesheetPath)
+      .extract({
+        left: sprite.col * tileSize,
+        top: sprite.row * tileSize,
+        width: sprite.w * tileSize,
+        height: sprite.h * tileSize,
+      })
+      .resize(sprite.w * RM_TILE_SIZE, sprite.h * RM_TILE_SIZE)
+      .toBuffer();
+    const input = rotation ? await sharp(resized).rotate(rotation).toBuffer() : resized;
+
+    composites.push({
+      input,
+      left: alloc.pageX * RM_TILE_SIZE,
+      top: alloc.pageY * RM_TILE_SIZE,
+    });
+  }
+
+  await sharp({
+    create: {
+      width: columns * RM_TILE_SIZE,
+      height: rows * RM_TILE_SIZE,
+      channels: 4,
+      background: { r: 0, g: 0, b: 0, alpha: 0 },
+    },
+  })
+    .composite(composites)
+    .png()
+    .toFile(outputPath);
+}
+
+/**
+ * Build the Tilesets.json flags array from sprite walkability.
+ */
+function buildFlags(allocations: Map<string, SpriteTiles>): number[] {
+  const flags = new Array<number>(FLAGS_LENGTH).fill(0);
+
+  // Reserved empty B tile is a star tile by convention
+  flags[TILE_ID_B] = FLAG_STAR;
+
+  for (const alloc of allocations.values()) {
+    const flag = alloc.sprite.placement.walkable ? 0 : FLAG_IMPASSABLE;
+    for (const tileId of alloc.tileIds) {
+      flags[tileId] = flag;
+    }
+  }
+
+  return flags;
+}
+
+/**
+ * Build MapXXX.json data (width × height × 6 layers).
+ */
+function buildMapData(
+  map: GameMap,
+  metadata: SpritesheetMetadata,
+  allocations: Map<string, SpriteTiles>
+): { data: number[]; floorTiles: number; upperTiles: number } {
+  const spriteById = new Map(metadata.sprites.map(s => [s.id, s]));
+  const data = new Array<number>(map.width * map.height * LAYER_COUNT).fill(0);
+  const index = (x: number, y: number, z: number) => (z * map.height + y) * map.width + x;
+  let floorTiles = 0;
+  let upperTiles = 0;
+
+  const writeLayer = (layer: (MapCell | null)[][]) => {
+    for (let y = 0; y < map.height; y++) {
+      for (let x = 0; x < map.width; x++) {
+        const cell = layer[y]?.[x];
+        if (!cell) continue;
+
+        const sprite = spriteById.get(cell.assetId);
+        const alloc = sprite ? allocations.get(tileKey(sprite.id, cell.rotation)) : undefined;
+        if (!sprite || !alloc) {
+          console.warn(`   Warning: Unknown asset ID "${cell.assetId}" - skipping`);
+          continue;
+        }
+
+        if (alloc.page === 'A5') {
+          data[index(x, y, LAYER_FLOOR)] = alloc.tileIds[0]!;
+          floorTiles++;
+          continue;
+        }
+
+        // Buildings and other multi-tile sprites sit on the top layer
+        const z = sprite.w > 1 || sprite.h > 1 ? LAYER_UPPER_OBJECTS : LAYER_LOWER_OBJECTS;
+        const footprint = getFootprint(sprite, x, y);
+        for (const { x: cx, y: cy } of getFootprintCells(footprint)) {
+          if (cx < 0 || cy < 0 || cx >= map.width || cy >= map.height) continue;
+          const dx = cx - footprint.left;
+          const dy = cy - footprint.top;
+          data[index(cx, cy, z)] = alloc.tileIds[dy * sprite.w + dx]!;
+          upperTiles++;
+        }
+      }
+    }
+  };
+
+  writeLayer(map.layers.ground);
+  writeLayer(map.layers.objects);
+
+  return { data, floorTiles, upperTiles };
+}
+
+function buildMapJson(map: GameMap, tilesetId: number, data: number[]): object {
+  const silentAudio = { name: '', pan: 0, pitch: 100, volume: 90 };
+  return {
+    autoplayBgm: false,
+    autoplayBgs: false,
+    battleback1Name: '',
+    battleback2Name: '',
+    bgm: silentAudio,
+    bgs: silentAudio,
+    disableDashing: false,
+    displayName: '',
+    encounterList: [],
+    encounterStep: 30,
+    height: map.height,
+    note: '',
+    parallaxLoopX: false,
+    parallaxLoopY: false,
+    parallaxName: '',
+    parallaxShow: true,
+    parallaxSx: 0,
+    parallaxSy: 0,
+    scrollType: 0,
+    specifyBattleback: false,
+    tilesetId,
+    width: map.width,
+    data,
+    events: [null],
+  };
+}
+
+/**
+ * Export a map to RPG Maker MZ: MapXXX.json, a Tilesets.json entry and
+ * A5/B/C tileset images.
+ *
+ * Output layout mirrors an RPG Maker project (data/, img/tilesets/) so the
+ * files can be copied in; Tilesets.json holds only the generated entry and
+ * should be merged into the project's own database.
+ *
+ * @param map - The parsed GameMap object
+ * @param metadata - The spritesheet metadata
+ * @param spritesheetPath - Path to the spritesheet PNG
+ * @param outputDir - Project-shaped directory to write into
+ * @param options - Export options (map/tileset IDs and names)
+ */
+export async function exportToRpgMaker(
+  map: GameMap,
+  metadata: SpritesheetMetadata,
+  spritesheetPath: string,
+  outputDir: string,
+  options: RpgMakerExportOptions = {}
+): Promise<RpgMakerExportResult> {
+  const { mapId = 1, tilesetId = 1, tilesetName = 'GenerativeTown' } = options;
+
+  const dataDir = join(outputDir, 'data');
+  const imageDir = join(outputDir, 'img', 'tilesets');
+  await mkdir(dataDir, { recursive: true });
+  await mkdir(imageDir, { recursive: true });
+
+  const allocations = allocateTiles(metadata, collectRotatedTiles(map, metadata));
+  const usedPages = new Set([...allocations.values()].map(a => a.page));
+
+  const images: string[] = [];
+  for (const page of ['A5', 'B', 'C'] as const) {
+    if (!usedPages.has(page)) continue;
+    const imagePath = join(imageDir, `${tilesetName}_${page}.png`);
+    await buildPageImage(spritesheetPath, metadata, allocations, page, imagePath);
+    images.push(imagePath);
+  }
+
+  const { data, floorTiles, upperTiles } = buildMapData(map, metadata, allocations);
+
+  // Order: A1, A2, A3, A4, A5, B, C, D, E
+  const pageName = (page: SpriteTiles['page']) =>
+    usedPages.has(page) ? `${tilesetName}_${page}` : '';
+  const tileset = {
+    id: tilesetId,
+    flags: buildFlags(allocations),
+    mode: 1,
+    name: tilesetName,
+    note: `Generated from "${metadata.theme}"`,
+    tilesetNames: ['', '', '', '', pageName('A5'), pageName('B'), pageName('C'), '', ''],
+  };
+
+  // Tilesets.json is indexed by ID with a leading null, like the editor writes it
+  const tilesets: Array<object | null> = Array.from({ length: tilesetId }, () => null);
+  tilesets.push(tileset);
+
+  const files = {
+    map: join(dataDir, `Map${String(mapId).padStart(3, '0')}.json`),
+    tilesets: join(dataDir, 'Tilesets.json'),
+    images,
+  };
+
+  await writeFile(files.map, JSON.stringify(buildMapJson(map, tilesetId, data)), 'utf-8');
+  await writeFile(files.tilesets, JSON.stringify(tilesets), 'utf-8');
+
+  return { files, stats: { floorTiles, upperTiles } };
+}
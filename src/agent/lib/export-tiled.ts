@@ -0,0 +1,421 @@
+import { mkdir, writeFile } from 'fs/promises';
+import { basename, join, relative } from 'path';
+import type { GameMap, SpritesheetMetadata, Sprite, MapCell } from '../types';
+import { getFootprint } from './footprint';
+import { getRotationFlips, isRotatable } from './rotation';
+
+/**
+ * Tiled Exporter - Converts map.json to a Tiled map (TMX + TMJ)
+ *
+ * Architecture Decision:
+ * - One "collection of images" tileset where every sprite is a single tile
+ *   that points at its sub-rectangle of the spritesheet PNG (Tiled 1.9+).
+ *   This keeps 2x2 buildings as one tile instead of four unrelated cells.
+ * - Tile IDs follow metadata.sprites order, so tile properties map 1:1 to
+ *   sprite metadata (placement + connectivity).
+ * - Multi-tile sprites become tile objects in an object layer, because a
+ *   tile layer can only hold one cell-sized tile per position.
+ * - XML and JSON are written from the same intermediate model so both
+ *   formats always agree.
+ * - Rotated cells keep their tile and set Tiled's flip bits on the GID
+ *   (rotation = diagonal flip plus H/V flips, see lib/rotation).
+ */
+
+export interface TiledExportOptions {
+  /** Base filename for map files. Default 'map' */
+  mapName?: string;
+  /** Base filename for tileset files. Default 'tileset' */
+  tilesetName?: string;
+}
+
+export interface TiledExportResult {
+  files: {
+    tmx: string;
+    tmj: string;
+    tsx: string;
+    tsj: string;
+  };
+  stats: {
+    tilesExported: number;
+    tileObjectsExported: number;
+  };
+}
+
+// High bits of a GID that flip the tile (Tiled's FLIPPED_*_FLAG)
+const FLIPPED_HORIZONTALLY_FLAG = 0x80000000;
+const FLIPPED_VERTICALLY_FLAG = 0x40000000;
+const FLIPPED_DIAGONALLY_FLAG = 0x20000000;
+
+const TILED_VERSION = '1.10';
+const TILED_EDITOR_VERSION = '1.10.2';
+
+interface TiledProperty {
+  name: string;
+  type: 'string' | 'bool' | 'int';
+  value: string | boolean | number;
+}
+
+interface TiledTile {
+  id: number;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  properties: TiledProperty[];
+}
+
+interface TiledObject {
+  id: number;
+  gid: number;
+  name: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+interface TiledModel {
+  width: number;
+  height: number;
+  tileSize: number;
+  image: { source: string; width: number; height: number };
+  tiles: TiledTile[];
+  maxTileWidth: number;
+  maxTileHeight: number;
+  tileLayers: Array<{ id: number; name: string; data: number[] }>;
+  objectLayer: { id: number; name: string; objects: TiledObject[] };
+}
+
+/**
+ * Build Tiled custom properties for a sprite.
+ * Mirrors Sprite.placement and Sprite.connectivity so level designers
+ * (and game code reading the map) see the same rules the planner used.
+ */
+function getSpriteProperties(sprite: Sprite): TiledProperty[] {
+  const properties: TiledProperty[] = [
+    { name: 'spriteId', type: 'string', value: sprite.id },
+    { name: 'category', type: 'string', value: sprite.category },
+    { name: 'layer', type: 'string', value: sprite.placement.layer },
+    { name: 'walkable', type: 'bool', value: sprite.placement.walkable },
+    { name: 'anchor', type: 'string', value: sprite.placement.anchor },
+    { name: 'connectivity', type: 'string', value: sprite.connectivity.type },
+    { name: 'connects', type: 'string', value: sprite.connectivity.connects.join(',') },
+    { name: 'rotatable', type: 'bool', value: isRotatable(sprite) },
+  ];
+
+  if (sprite.connectivity.contentSide) {
+    properties.push({ name: 'contentSide', type: 'string', value: sprite.connectivity.contentSide });
+  }
+
+  return properties;
+}
+
+function isMultiTile(sprite: Sprite): boolean {
+  return sprite.w > 1 || sprite.h > 1;
+}
+
+/**
+ * GID with the flip bits that reproduce a clockwise rotation.
+ * Unsigned, since the horizontal flag is the sign bit.
+ */
+function rotateGid(gid: number, rotation = 0): number {
+  const { flipH, flipV, flipD } = getRotationFlips(rotation);
+  return (
+    (gid |
+      (flipH ? FLIPPED_HORIZONTALLY_FLAG : 0) |
+      (flipV ? FLIPPED_VERTICALLY_FLAG : 0) |
+      (flipD ? FLIPPED_DIAGONALLY_FLAG : 0)) >>>
+    0
+  );
+}
+
+/**
+ * Build the intermediate Tiled model shared by the XML and JSON writers.
+ */
+function buildTiledModel(
+  map: GameMap,
+  metadata: SpritesheetMetadata,
+  imageSource: string
+): TiledModel {
+  const tileSize = metadata.tileSize;
+
+  // Tile ID = index in metadata.sprites, GID = tile ID + firstgid (1)
+  const gidBySprite = new Map<string, number>();
+  const spriteById = new Map<string, Sprite>();
+  metadata.sprites.forEach((sprite, index) => {
+    gidBySprite.set(sprite.id, index + 1);
+    spriteById.set(sprite.id, sprite);
+  });
+
+  const tiles: TiledTile[] = metadata.sprites.map((sprite, index) => ({
+    id: index,
+    x: sprite.col * tileSize,
+    y: sprite.row * tileSize,
+    width: sprite.w * tileSize,
+    height: sprite.h * tileSize,
+    properties: getSpriteProperties(sprite),
+  }));
+
+  const objects: TiledObject[] = [];
+  let nextObjectId = 1;
+
+  const toLayerData = (layer: (MapCell | null)[][]): number[] => {
+    const data: number[] = [];
+    for (let y = 0; y < map.height; y++) {
+      for (let x = 0; x < map.width; x++) {
+        const cell = layer[y]?.[x];
+        const sprite = cell ? spriteById.get(cell.assetId) : undefined;
+        const gid = cell ? gidBySprite.get(cell.assetId) : undefined;
+
+        if (!sprite || !gid) {
+          if (cell) console.warn(`   Warning: Unknown asset ID "${cell.assetId}" - skipping`);
+          data.push(0);
+          continue;
+        }
+
+        if (isMultiTile(sprite)) {
+          // Tile objects are positioned by their bottom-left corner in Tiled
+          const footprint = getFootprint(sprite, x, y);
+          objects.push({
+            id: nextObjectId++,
+            gid,
+            name: sprite.id,
+            x: footprint.left * tileSize,
+            y: (footprint.bottom + 1) * tileSize,
+            width: sprite.w * tileSize,
+            height: sprite.h * tileSize,
+          });
+          data.push(0);
+          continue;
+        }
+
+        data.push(rotateGid(gid, cell!.rotation));
+      }
+    }
+    return data;
+  };
+
+  const tileLayers = [
+    { id: 1, name: 'ground', data: toLayerData(map.layers.ground) },
+    { id: 2, name: 'objects', data: toLayerData(map.layers.objects) },
+  ];
+
+  return {
+    width: map.width,
+    height: map.height,
+    tileSize,
+    image: {
+      source: imageSource,
+      width: metadata.columns * tileSize,
+      height: metadata.rows * tileSize,
+    },
+    tiles,
+    maxTileWidth: Math.max(tileSize, ...tiles.map(t => t.width)),
+    maxTileHeight: Math.max(tileSize, ...tiles.map(t => t.height)),
+    tileLayers,
+    objectLayer: { id: 3, name: 'buildings', objects },
+  };
+}
+
+// ─────────────────────────────────────────────────────────────────
+// XML Writers (TMX / TSX)
+// ─────────────────────────────────────────────────────────────────
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function buildTsx(model: TiledModel, name: string): string {
+  const lines: string[] = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<tileset version="${TILED_VERSION}" tiledversion="${TILED_EDITOR_VERSION}" name="${escapeXml(name)}" tilewidth="${model.maxTileWidth}" tileheight="${model.maxTileHeight}" tilecount="${model.tiles.length}" columns="0">`,
+    ` <grid orientation="orthogonal" width="${model.tileSize}" height="${model.tileSize}"/>`,
+  ];
+
+  for (const tile of model.tiles) {
+    lines.push(` <tile id="${tile.id}" x="${tile.x}" y="${tile.y}" width="${tile.width}" height="${tile.height}">`);
+    lines.push('  <properties>');
+    for (const prop of tile.properties) {
+      const type = prop.type === 'string' ? '' : ` type="${prop.type}"`;
+      lines.push(`   <property name="${prop.name}"${type} value="${escapeXml(String(prop.value))}"/>`);
+    }
+    lines.push('  </properties>');
+    lines.push(`  <image source="${escapeXml(model.image.source)}" width="${model.image.width}" height="${model.image.height}"/>`);
+    lines.push(' </tile>');
+  }
+
+  lines.push('</tileset>', '');
+  return lines.join('\n');
+}
+
+function buildTmx(model: TiledModel, tilesetSource: string): string {
+  const nextObjectId = model.objectLayer.objects.length + 1;
+  const lines: string[] = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<map version="${TILED_VERSION}" tiledversion="${TILED_EDITOR_VERSION}" orientation="orthogonal" renderorder="right-down" width="${model.width}" height="${model.height}" tilewidth="${model.tileSize}" tileheight="${model.tileSize}" infinite="0" nextlayerid="4" nextobjectid="${nextObjectId}">`,
+    ` <tileset firstgid="1" source="${escapeXml(tilesetSource)}"/>`,
+  ];
+
+  for (const layer of model.tileLayers) {
+    lines.push(` <layer id="${layer.id}" name="${layer.name}" width="${model.width}" height="${model.height}">`);
+    lines.push('  <data encoding="csv">');
+    const rows: string[] = [];
+    for (let y = 0; y < model.height; y++) {
+      rows.push(layer.data.slice(y * model.width, (y + 1) * model.width).join(','));
+    }
+    lines.push(rows.join(',\n'));
+    lines.push('</data>');
+    lines.push(' </layer>');
+  }
+
+  const { objectLayer } = model;
+  lines.push(` <objectgroup id="${objectLayer.id}" name="${objectLayer.name}">`);
+  for (const obj of objectLayer.objects) {
+    lines.push(
+      `  <object id="${obj.id}" name="${escapeXml(obj.name)}" gid="${obj.gid}" x="${obj.x}" y="${obj.y}" width="${obj.width}" height="${obj.height}"/>`
+    );
+  }
+  lines.push(' </objectgroup>');
+
+  lines.push('</map>', '');
+  return lines.join('\n');
+}
+
+// ─────────────────────────────────────────────────────────────────
+// JSON Writers (TMJ / TSJ)
+// ─────────────────────────────────────────────────────────────────
+
+function buildTsj(model: TiledModel, name: string): object {
+  return {
+    columns: 0,
+    grid: { height: model.tileSize, orientation: 'orthogonal', width: model.tileSize },
+    margin: 0,
+    name,
+    spacing: 0,
+    tilecount: model.tiles.length,
+    tiledversion: TILED_EDITOR_VERSION,
+    tileheight: model.maxTileHeight,
+    tiles: model.tiles.map(tile => ({
+      id: tile.id,
+      image: model.image.source,
+      imageheight: model.image.height,
+      imagewidth: model.image.width,
+      x: tile.x,
+      y: tile.y,
+      width: tile.width,
+      height: tile.height,
+      properties: tile.properties,
+    })),
+    tilewidth: model.maxTileWidth,
+    type: 'tileset',
+    version: TILED_VERSION,
+  };
+}
+
+function buildTmj(model: TiledModel, tilesetSource: string): object {
+  return {
+    compressionlevel: -1,
+    height: model.height,
+    infinite: false,
+    layers: [
+      ...model.tileLayers.map(layer => ({
+        data: layer.data,
+        height: model.height,
+        id: layer.id,
+        name: layer.name,
+        opacity: 1,
+        type: 'tilelayer',
+        visible: true,
+        width: model.width,
+        x: 0,
+        y: 0,
+      })),
+      {
+        draworder: 'topdown',
+        id: model.objectLayer.id,
+        name: model.objectLayer.name,
+        objects: model.objectLayer.objects.map(obj => ({
+          gid: obj.gid,
+          height: obj.height,
+          id: obj.id,
+          name: obj.name,
+          rotation: 0,
+          type: '',
+          visible: true,
+          width: obj.width,
+          x: obj.x,
+          y: obj.y,
+        })),
+        opacity: 1,
+        type: 'objectgroup',
+        visible: true,
+        x: 0,
+        y: 0,
+      },
+    ],
+    nextlayerid: 4,
+    nextobjectid: model.objectLayer.objects.length + 1,
+    orientation: 'orthogonal',
+    renderorder: 'right-down',
+    tiledversion: TILED_EDITOR_VERSION,
+    tileheight: model.tileSize,
+    tilesets: [{ firstgid: 1, source: tilesetSource }],
+    tilewidth: model.tileSize,
+    type: 'map',
+    version: TILED_VERSION,
+  };
+}
+
+/**
+ * Export a map to Tiled TMX/TMJ files with an embedded-rules tileset.
+ *
+ * @param map - The parsed GameMap object
+ * @param metadata - The spritesheet metadata
+ * @param spritesheetPath - Path to the spritesheet PNG (referenced, not copied)
+ * @param outputDir - Directory to write .tmx/.tmj/.tsx/.tsj files to
+ * @param options - Export options (file names)
+ */
+export async function exportToTiled(
+  map: GameMap,
+  metadata: SpritesheetMetadata,
+  spritesheetPath: string,
+  outputDir: string,
+  options: TiledExportOptions = {}
+): Promise<TiledExportResult> {
+  const { mapName = 'map', tilesetName = 'tileset' } = options;
+
+  await mkdir(outputDir, { recursive: true });
+
+  // Tiled resolves image paths relative to the tileset file
+  const imageSource = relative(outputDir, spritesheetPath) || basename(spritesheetPath);
+  const model = buildTiledModel(map, metadata, imageSource);
+
+  const files = {
+    tmx: join(outputDir, `${mapName}.tmx`),
+    tmj: join(outputDir, `${mapName}.tmj`),
+    tsx: join(outputDir, `${tilesetName}.tsx`),
+    tsj: join(outputDir, `${tilesetName}.tsj`),
+  };
+
+  await writeFile(files.tsx, buildTsx(model, tilesetName), 'utf-8');
+  await writeFile(files.tsj, JSON.stringify(buildTsj(model, tilesetName), null, 2), 'utf-8');
+  await writeFile(files.tmx, buildTmx(model, `${tilesetName}.tsx`), 'utf-8');
+  await writeFile(files.tmj, JSON.stringify(buildTmj(model, `${tilesetName}.tsj`), null, 2), 'utf-8');
+
+  const tilesExported = model.tileLayers.reduce(
+    (sum, layer) => sum + layer.data.filter(gid => gid !== 0).length,
+    0
+  );
+
+  return {
+    files,
+    stats: {
+      tilesExported,
+      tileObjectsExported: model.objectLayer.objects.length,
+    },
+  };
+}
@@ -0,0 +1,68 @@
+import type { Sprite } from '../types';
+
+/**
+ * Sprite Footprint - Which map cells a placed sprite covers
+ *
+ * Architecture Decision:
+ * - A MapCell stores a sprite at its ANCHOR cell only; the footprint is
+ *   derived from Sprite.w/h and placement.anchor.
+ * - Single source of truth for the anchor convention so GridState, the
+ *   renderer and the exporters all agree:
+ *   - top_left: anchor is the top-left cell
+ *   - bottom_center: anchor is the bottom row, centre column
+ *     (left of centre for even widths)
+ *   - center: anchor is the centre cell (top-left of centre for even sizes)
+ */
+
+/** Inclusive cell bounds covered by a sprite */
+export interface Footprint {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+}
+
+/**
+ * Compute the footprint of a sprite anchored at (x, y).
+ */
+export function getFootprint(
+  sprite: Pick<Sprite, 'w' | 'h' | 'placement'>,
+  x: number,
+  y: number
+): Footprint {
+  let left = x;
+  let top = y;
+
+  switch (sprite.placement.anchor) {
+    case 'bottom_center':
+      left = x - Math.floor((sprite.w - 1) / 2);
+      top = y - (sprite.h - 1);
+      break;
+    case 'center':
+      left = x - Math.floor((sprite.w - 1) / 2);
+      top = y - Math.floor((sprite.h - 1) / 2);
+      break;
+    case 'top_left':
+      break;
+  }
+
+  return {
+    left,
+    top,
+    right: left + sprite.w - 1,
+    bottom: top + sprite.h - 1,
+  };
+}
+
+/**
+ * List every cell inside a footprint, row by row.
+ */
+export function getFootprintCells(footprint: Footprint): Array<{ x: number; y: number }> {
+  const cells: Array<{ x: number; y: number }> = [];
+  for (let y = footprint.top; y <= footprint.bottom; y++) {
+    for (let x = footprint.left; x <= footprint.right; x++) {
+      cells.push({ x, y });
+    }
+  }
+  return cells;
+}
@@ -6,6 +6,9 @@ import { join } from 'path';
 import sharp from 'sharp';
 import type { ImageGenerationConfig } from '../config';
 import { defaultImageConfig } from '../config';
+import { getSeedSettings } from './random';
+import { formatModelSpec, getModel, getModelSpec, type ModelProvider } from './models';
+import { withCassette } from './cassette';
 
 /**
  * Replace white (#FFFFFF) pixels with transparency.
@@ -48,13 +51,44 @@ async function chromaKeyWhite(imageBuffer: Buffer, tolerance = 15): Promise<Buff
     .toBuffer();
 }
 
+type ProviderOptions = NonNullable<Parameters<typeof generateText>[0]['providerOptions']>;
+
 /**
- * Generate a cache key from prompt + config.
+ * Provider options asking for image output. Only the serving provider's
+ * options are sent; local servers get none (OpenAI-compatible image
+ * support varies, and unknown fields can be rejected).
+ */
+function getImageProviderOptions(provider: ModelProvider, config: ImageGenerationConfig): ProviderOptions {
+  switch (provider) {
+    case 'google':
+      return {
+        google: {
+          responseModalities: ['IMAGE'],
+          imageConfig: {
+            aspectRatio: config.aspectRatio,
+            ...(config.imageSize && { imageSize: config.imageSize }),
+          },
+        },
+      };
+    case 'openrouter':
+      return { openrouter: { modalities: ['image', 'text'] } };
+    case 'local':
+      return {};
+  }
+}
+
+/** Image config whose model may be a registry spec (MODEL_IMAGE override) */
+type CacheConfig = Omit<ImageGenerationConfig, 'model'> & { model: string };
+
+/**
+ * Generate a cache key from prompt + config (+ seed, if any).
  * Uses SHA256 hash (first 16 chars) to create filesystem-safe filename.
+ * The seed is only hashed when given, so unseeded cache entries keep
+ * their existing keys.
  */
-function getCacheKey(prompt: string, config: ImageGenerationConfig): string {
+function getCacheKey(prompt: string, config: CacheConfig, seed?: number): string {
   const hash = createHash('sha256')
-    .update(JSON.stringify({ prompt, config }))
+    .update(JSON.stringify(seed === undefined ? { prompt, config } : { prompt, config, seed }))
     .digest('hex')
     .slice(0, 16);
   return `spritesheet-${hash}`;
@@ -67,13 +101,17 @@ export interface GenerateImageResult {
 
 export interface GenerateImageOptions {
   force?: boolean;
+  /** Seed passed to the image model and included in the cache key */
+  seed?: number;
 }
 
 /**
- * Generate a spritesheet image using Google's Gemini model.
+ * Generate a spritesheet image with the 'image' model role (Gemini by
+ * default; MODEL_IMAGE can point it at an OpenRouter image model).
  *
  * Caching strategy:
- * - Cache key is SHA256(prompt + config)
+ * - Cache key is SHA256(prompt + config [+ seed]); config.model is replaced
+ *   by the MODEL_IMAGE spec when one is set
  * - If cached image exists, returns cached path (unless force=true)
  * - Saves both image and metadata JSON for debugging
  *
@@ -93,7 +131,13 @@ export async function generateSpritesheetImage(
     mkdirSync(outputDir, { recursive: true });
   }
 
-  const cacheKey = getCacheKey(prompt, config);
+  // The registry decides the model; config.model only applies without an override
+  const modelSpec = process.env.MODEL_IMAGE
+    ? formatModelSpec(getModelSpec('image'))
+    : null;
+  const cacheConfig = modelSpec ? { ...config, model: modelSpec } : config;
+
+  const cacheKey = getCacheKey(prompt, cacheConfig, options.seed);
   const imagePath = join(outputDir, `${cacheKey}.png`);
   const metaPath = join(outputDir, `${cacheKey}.meta.json`);
 
@@ -108,25 +152,20 @@ export async function generateSpritesheetImage(
 
   console.log('🎨 Generating spritesheet image...');
 
-  // Gemini image generation uses generateText with responseModalities: ['IMAGE']
+  // Image generation uses generateText with image output modalities,
+  // requested in the options of the provider that serves the call
+  const provider = modelSpec ? getModelSpec('image').provider : 'google';
   const result = await generateText({
-    model: google(config.model),
+    model: modelSpec ? getModel('image') : withCassette(google(config.model), 'image'),
+    ...getSeedSettings(options.seed),
     prompt,
-    providerOptions: {
-      google: {
-        responseModalities: ['IMAGE'],
-        imageConfig: {
-          aspectRatio: config.aspectRatio,
-          ...(config.imageSize && { imageSize: config.imageSize }),
-        },
-      },
-    },
+    providerOptions: getImageProviderOptions(provider, config),
   });
 
   // Extract image from response files
   const imageFile = result.files?.find(f => f.mediaType.startsWith('image/'));
   if (!imageFile) {
-    throw new Error('No image returned from Gemini');
+    throw new Error(`No image returned from ${modelSpec ?? config.model}`);
   }
 
   // Apply chroma key to replace white background with transparency
@@ -140,9 +179,11 @@ export async function generateSpritesheetImage(
   // Save metadata for cache validation and debugging
   const metadata = {
     prompt,
-    model: config.model,
+    model: modelSpec ?? config.model,
     aspectRatio: config.aspectRatio,
-    generatedAt: new Date().toISOString(),
+    ...(options.seed !== undefined && { seed: options.seed }),
+    // Response time rather than now, so --replay writes the recorded value
+    generatedAt: result.response.timestamp.toISOString(),
   };
   writeFileSync(metaPath, JSON.stringify(metadata, null, 2));
 
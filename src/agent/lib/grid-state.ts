@@ -7,6 +7,17 @@ import type {
   ConnectivityType,
   Direction,
 } from '../types';
+import { getFootprint, getFootprintCells, type Footprint } from './footprint';
+import { isRoadSprite } from './road-tiles';
+import { checkRotation } from './rotation';
+
+export type Layer = 'ground' | 'object';
+
+/** Anchor position of the sprite covering a cell */
+interface CellOwner {
+  x: number;
+  y: number;
+}
 
 /**
  * GridState - Mutable map state for the Planner Agent
@@ -16,10 +27,14 @@ import type {
  * - Tools receive GridState via closure, allowing shared mutable state
  * - Two layers (ground, objects) support proper sprite stacking
  * - Query helpers use semantic metadata instead of tags
+ * - Cells are stored at the sprite's anchor only; a parallel owner grid
+ *   records which anchor covers every cell of a multi-tile footprint
  */
 export class GridState {
   private ground: (MapCell | null)[][];
   private objects: (MapCell | null)[][];
+  private groundOwners: (CellOwner | null)[][];
+  private objectOwners: (CellOwner | null)[][];
 
   constructor(
     public readonly width: number,
@@ -33,6 +48,12 @@ export class GridState {
     this.objects = Array.from({ length: height }, () =>
       Array.from({ length: width }, () => null)
     );
+    this.groundOwners = Array.from({ length: height }, () =>
+      Array.from({ length: width }, () => null)
+    );
+    this.objectOwners = Array.from({ length: height }, () =>
+      Array.from({ length: width }, () => null)
+    );
   }
 
   // ─────────────────────────────────────────────────────────────────
@@ -55,55 +76,173 @@ export class GridState {
   // Tile Operations
   // ─────────────────────────────────────────────────────────────────
 
+  /**
+   * Check whether a sprite can be placed with its anchor at (x, y).
+   * Returns an error message, or null if the placement is valid.
+   *
+   * Ground is a paint layer (new tiles replace old ones), so only the
+   * object layer rejects overlapping footprints.
+   */
+  checkPlacement(
+    x: number,
+    y: number,
+    assetId: string,
+    layer: Layer = 'ground',
+    rotation = 0
+  ): string | null {
+    const sprite = this.getSprite(assetId);
+    if (!sprite) {
+      return `Unknown sprite: ${assetId}`;
+    }
+
+    const rotationError = checkRotation(sprite, rotation);
+    if (rotationError) {
+      return rotationError;
+    }
+
+    if (!this.inBounds(x, y)) {
+      return `Position out of bounds: (${x}, ${y})`;
+    }
+
+    const footprint = getFootprint(sprite, x, y);
+    if (
+      !this.inBounds(footprint.left, footprint.top) ||
+      !this.inBounds(footprint.right, footprint.bottom)
+    ) {
+      return `${assetId} (${sprite.w}x${sprite.h}) at (${x}, ${y}) extends out of bounds: covers (${footprint.left}, ${footprint.top}) to (${footprint.right}, ${footprint.bottom})`;
+    }
+
+    if (layer === 'object') {
+      for (const cell of getFootprintCells(footprint)) {
+        const owner = this.getOwner(cell.x, cell.y, layer);
+        if (owner) {
+          const existing = this.getTile(cell.x, cell.y, layer);
+          return `Position (${cell.x}, ${cell.y}) is already occupied by ${existing?.assetId} anchored at (${owner.x}, ${owner.y})`;
+        }
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Place a sprite with its anchor at (x, y). `rotation` (clockwise
+   * degrees) is stored on the cell; 0 is not stored. Throws if the sprite
+   * may not be rotated (see lib/rotation).
+   */
   setTile(
     x: number,
     y: number,
     assetId: string,
-    layer: 'ground' | 'object' = 'ground'
+    layer: Layer = 'ground',
+    rotation = 0
   ): void {
-    // Validate sprite exists
-    this.getSpriteOrThrow(assetId);
+    const error = this.checkPlacement(x, y, assetId, layer, rotation);
+    if (error) {
+      throw new Error(error);
+    }
+
+    const sprite = this.getSpriteOrThrow(assetId);
+    const footprint = getFootprint(sprite, x, y);
+    const cells = getFootprintCells(footprint);
 
-    // Validate bounds
-    if (x < 0 || x >= this.width || y < 0 || y >= this.height) {
-      throw new Error(`Position out of bounds: (${x}, ${y})`);
+    // Ground replaces whatever it covers (including whole multi-tile sprites)
+    for (const cell of cells) {
+      if (this.getOwner(cell.x, cell.y, layer)) {
+        this.clearTile(cell.x, cell.y, layer);
+      }
     }
 
     const target = layer === 'ground' ? this.ground : this.objects;
+    const owners = layer === 'ground' ? this.groundOwners : this.objectOwners;
     const row = target[y];
     if (row) {
-      row[x] = { assetId, layer };
+      row[x] = rotation ? { assetId, rotation, layer } : { assetId, layer };
     }
 
-    // Handle multi-tile sprites (w > 1 or h > 1)
-    // For now, only the anchor position is set. The renderer handles the full sprite.
-    // Future: could mark adjacent cells as "occupied by [assetId]"
+    // Every covered cell points back at the anchor
+    for (const cell of cells) {
+      const ownerRow = owners[cell.y];
+      if (ownerRow) {
+        ownerRow[cell.x] = { x, y };
+      }
+    }
   }
 
+  /**
+   * Get the cell at (x, y), including cells covered by a multi-tile
+   * sprite anchored elsewhere (returns the anchor's cell).
+   */
   getTile(
     x: number,
     y: number,
-    layer: 'ground' | 'object' = 'ground'
+    layer: Layer = 'ground'
   ): MapCell | null {
-    if (x < 0 || x >= this.width || y < 0 || y >= this.height) {
+    const owner = this.getOwner(x, y, layer);
+    if (!owner) {
       return null;
     }
     const target = layer === 'ground' ? this.ground : this.objects;
-    const row = target[y];
-    return row?.[x] ?? null;
+    return target[owner.y]?.[owner.x] ?? null;
   }
 
-  clearTile(x: number, y: number, layer: 'ground' | 'object' = 'ground'): void {
-    if (x < 0 || x >= this.width || y < 0 || y >= this.height) {
+  /**
+   * Get the anchor position of the sprite covering (x, y), if any.
+   */
+  getOwner(x: number, y: number, layer: Layer = 'ground'): CellOwner | null {
+    if (!this.inBounds(x, y)) {
+      return null;
+    }
+    const owners = layer === 'ground' ? this.groundOwners : this.objectOwners;
+    return owners[y]?.[x] ?? null;
+  }
+
+  /**
+   * Get the cells covered by the sprite at (x, y), or null if the cell is empty.
+   */
+  getFootprintAt(x: number, y: number, layer: Layer = 'ground'): Footprint | null {
+    const owner = this.getOwner(x, y, layer);
+    const tile = this.getTile(x, y, layer);
+    const sprite = tile ? this.getSprite(tile.assetId) : undefined;
+    if (!owner || !sprite) {
+      return null;
+    }
+    return getFootprint(sprite, owner.x, owner.y);
+  }
+
+  /**
+   * Remove the sprite covering (x, y). Clearing any cell of a multi-tile
+   * sprite removes the whole sprite.
+   */
+  clearTile(x: number, y: number, layer: Layer = 'ground'): void {
+    const owner = this.getOwner(x, y, layer);
+    if (!owner) {
       return;
     }
+
     const target = layer === 'ground' ? this.ground : this.objects;
-    const row = target[y];
+    const owners = layer === 'ground' ? this.groundOwners : this.objectOwners;
+    const footprint = this.getFootprintAt(x, y, layer);
+
+    const row = target[owner.y];
     if (row) {
-      row[x] = null;
+      row[owner.x] = null;
+    }
+
+    const cells = footprint ? getFootprintCells(footprint) : [{ x, y }];
+    for (const cell of cells) {
+      const ownerRow = owners[cell.y];
+      const current = ownerRow?.[cell.x];
+      if (ownerRow && current && current.x === owner.x && current.y === owner.y) {
+        ownerRow[cell.x] = null;
+      }
     }
   }
 
+  private inBounds(x: number, y: number): boolean {
+    return x >= 0 && x < this.width && y >= 0 && y < this.height;
+  }
+
   // ─────────────────────────────────────────────────────────────────
   // Sprite Queries - Semantic, not tag-based
   // ─────────────────────────────────────────────────────────────────
@@ -155,22 +294,14 @@ export class GridState {
     const tile = this.getTile(x, y, 'ground');
     if (!tile) return false;
 
-    const sprite = this.getSprite(tile.assetId);
-    if (!sprite) return false;
-
-    const type = sprite.connectivity?.type;
-    return type === 'path' || type === 'corner' || type === 'intersection' || type === 'cap';
+    return isRoadSprite(this.getSprite(tile.assetId));
   }
 
   /**
    * Get all road sprites (ground tiles with path-like connectivity).
    */
   getRoadSprites(): Sprite[] {
-    return this.metadata.sprites.filter(s => {
-      if (s.category !== 'ground') return false;
-      const type = s.connectivity?.type;
-      return type === 'path' || type === 'corner' || type === 'intersection' || type === 'cap';
-    });
+    return this.metadata.sprites.filter(isRoadSprite);
   }
 
   // ─────────────────────────────────────────────────────────────────
@@ -295,6 +426,39 @@ export class GridState {
   // Serialization
   // ─────────────────────────────────────────────────────────────────
 
+  /**
+   * Rebuild a grid from map.json. Ground is loaded before objects, each in
+   * row order. Cells that cannot be placed (unknown sprite, out of bounds,
+   * overlapping an earlier object) are skipped and reported to `onReject`.
+   */
+  static fromJSON(
+    map: GameMap,
+    metadata: SpritesheetMetadata,
+    onReject?: (cell: { x: number; y: number; assetId: string; layer: Layer }, reason: string) => void
+  ): GridState {
+    const grid = new GridState(map.width, map.height, metadata);
+    const layers: Array<[Layer, (MapCell | null)[][]]> = [
+      ['ground', map.layers.ground],
+      ['object', map.layers.objects],
+    ];
+
+    for (const [layer, rows] of layers) {
+      rows.forEach((row, y) => {
+        row.forEach((cell, x) => {
+          if (!cell) return;
+          const error = grid.checkPlacement(x, y, cell.assetId, layer, cell.rotation);
+          if (error) {
+            onReject?.({ x, y, assetId: cell.assetId, layer }, error);
+          } else {
+            grid.setTile(x, y, cell.assetId, layer, cell.rotation);
+          }
+        });
+      });
+    }
+
+    return grid;
+  }
+
   toJSON(): GameMap {
     return {
       width: this.width,
@@ -311,65 +475,62 @@ export class GridState {
   // ─────────────────────────────────────────────────────────────────
 
   /**
-   * Generate ASCII representation of the map for AI visualization.
-   * Ground: R=road, G=ground, .=empty
-   * Objects: B=building, P=prop, M=marker, .=empty
+   * One character per cell from `glyphAt`, with column numbers on top and
+   * row numbers down the left. Shared by every ASCII view of the map.
    */
-  toASCII(): { ground: string; objects: string } {
-    const groundLines: string[] = [];
-    const objectLines: string[] = [];
-
-    // Header row with column numbers
-    const header = '  ' + Array.from({ length: this.width }, (_, i) => i % 10).join('');
-    groundLines.push(header);
-    objectLines.push(header);
+  toGlyphGrid(glyphAt: (x: number, y: number) => string): string[] {
+    const lines: string[] = [];
+
+    // Header rows with column numbers: units, plus a tens row past 10 columns
+    // (x=12 reads as "1" over "2" instead of wrapping back to "2")
+    const labelWidth = String(this.height - 1).length;
+    const indent = ' '.repeat(labelWidth + 1);
+    if (this.width > 10) {
+      lines.push(indent + Array.from({ length: this.width }, (_, i) => (i < 10 ? ' ' : Math.floor(i / 10) % 10)).join(''));
+    }
+    lines.push(indent + Array.from({ length: this.width }, (_, i) => i % 10).join(''));
 
     for (let y = 0; y < this.height; y++) {
-      let groundRow = `${y % 10} `;
-      let objectRow = `${y % 10} `;
-
+      let row = `${String(y).padStart(labelWidth)} `;
       for (let x = 0; x < this.width; x++) {
-        // Ground layer
-        const groundTile = this.getTile(x, y, 'ground');
-        if (groundTile) {
-          const sprite = this.getSprite(groundTile.assetId);
-          if (sprite && this.isRoadAt(x, y)) {
-            groundRow += 'R';
-          } else {
-            groundRow += 'G';
-          }
-        } else {
-          groundRow += '.';
-        }
-
-        // Object layer
-        const objectTile = this.getTile(x, y, 'object');
-        if (objectTile) {
-          const sprite = this.getSprite(objectTile.assetId);
-          if (sprite?.category === 'building') {
-            objectRow += 'B';
-          } else if (sprite?.category === 'prop') {
-            objectRow += 'P';
-          } else if (sprite?.category === 'marker') {
-            objectRow += 'M';
-          } else {
-            objectRow += '?';
-          }
-        } else {
-          objectRow += '.';
-        }
+        row += glyphAt(x, y);
       }
-
-      groundLines.push(groundRow);
-      objectLines.push(objectRow);
+      lines.push(row);
     }
 
+    return lines;
+  }
+
+  /**
+   * Generate ASCII representation of the map for AI visualization.
+   * Ground: R=road, G=ground, .=empty
+   * Objects: B=building, P=prop, M=marker, W=wall, .=empty
+   * Every cell covered by a multi-tile sprite shows that sprite's letter.
+   */
+  toASCII(): { ground: string; objects: string } {
+    const groundLines = this.toGlyphGrid((x, y) => {
+      if (!this.getTile(x, y, 'ground')) return '.';
+      return this.isRoadAt(x, y) ? 'R' : 'G';
+    });
+
+    const objectLines = this.toGlyphGrid((x, y) => {
+      const objectTile = this.getTile(x, y, 'object');
+      if (!objectTile) return '.';
+
+      const category = this.getSprite(objectTile.assetId)?.category;
+      if (category === 'building') return 'B';
+      if (category === 'prop') return 'P';
+      if (category === 'marker') return 'M';
+      if (category === 'wall') return 'W';
+      return '?';
+    });
+
     // Add legend
     groundLines.push('');
     groundLines.push('Legend: R=road, G=ground, .=empty');
 
     objectLines.push('');
-    objectLines.push('Legend: B=building, P=prop, M=marker, .=empty');
+    objectLines.push('Legend: B=building, P=prop, M=marker, W=wall, .=empty');
 
     return {
       ground: groundLines.join('\n'),
@@ -0,0 +1,88 @@
+import { readFileSync } from 'fs';
+import { describe, expect, it } from 'vitest';
+import { GridState } from './grid-state';
+import { DEFAULT_QUALITY_THRESHOLDS, evaluateMapQuality } from './map-quality';
+import { SpritesheetMetadataSchema } from '../types';
+
+const metadata = SpritesheetMetadataSchema.parse(
+  JSON.parse(readFileSync('examples/medieval-village/spritesheet-metadata.json', 'utf-8'))
+);
+
+/** 10x10 grass map with a straight east-west road on row 5 */
+function createTown(): GridState {
+  const grid = new GridState(10, 10, metadata);
+  for (let y = 0; y < 10; y++) {
+    for (let x = 0; x < 10; x++) {
+      grid.setTile(x, y, y === 5 ? 'cobblestone_road_horizontal' : 'wildflower_grass_patch');
+    }
+  }
+  return grid;
+}
+
+function getCheck(report: ReturnType<typeof evaluateMapQuality>, name: string) {
+  return report.checks.find((c) => c.name === name);
+}
+
+describe('evaluateMapQuality', () => {
+  it('passes a fully covered map with one road and a building beside it', () => {
+    const grid = createTown();
+    grid.setTile(3, 3, 'stout_boar_tavern', 'object');
+
+    const report = evaluateMapQuality(grid.toJSON(), metadata, { ...DEFAULT_QUALITY_THRESHOLDS, minSpriteVariety: 0 });
+
+    expect(report.passed).toBe(true);
+    expect(report.score).toBe(100);
+  });
+
+  it('scores sprite variety against the share of the spritesheet in use', () => {
+    const report = evaluateMapQuality(createTown().toJSON(), metadata);
+    const variety = getCheck(report, 'spriteVariety');
+
+    expect(variety?.value).toBeCloseTo(2 / metadata.sprites.length);
+    expect(variety?.passed).toBe(false);
+    expect(variety?.score).toBeCloseTo(variety!.value / DEFAULT_QUALITY_THRESHOLDS.minSpriteVariety);
+  });
+
+  it('flags road ends, objects on roads and buildings without road access', () => {
+    const grid = createTown();
+    grid.setTile(4, 5, 'cobblestone_corner_ne');
+    grid.setTile(7, 5, 'heavy_oak_bench', 'object');
+    grid.setTile(3, 1, 'stout_boar_tavern', 'object');
+
+    const report = evaluateMapQuality(grid.toJSON(), metadata);
+
+    expect(report.passed).toBe(false);
+    expect(report.details.roadEndMismatches).toContainEqual({
+      x: 4,
+      y: 5,
+      assetId: 'cobblestone_corner_ne',
+      direction: 'north',
+    });
+    expect(report.details.objectsOnRoads).toEqual([{ x: 7, y: 5, assetId: 'heavy_oak_bench' }]);
+    expect(report.details.buildingsWithoutRoad).toEqual([{ x: 3, y: 1, assetId: 'stout_boar_tavern' }]);
+  });
+
+  it('counts walkable pockets cut off by hazards as unreachable', () => {
+    const grid = createTown();
+    // Wall off the top-left corner cell with water
+    grid.setTile(1, 0, 'clear_stream_bed');
+    grid.setTile(0, 1, 'clear_stream_bed');
+    grid.setTile(1, 1, 'clear_stream_bed');
+
+    const report = evaluateMapQuality(grid.toJSON(), metadata, { ...DEFAULT_QUALITY_THRESHOLDS, maxUnreachableRatio: 0 });
+
+    expect(report.details.unreachableTiles).toBe(1);
+    expect(getCheck(report, 'unreachableWalkable')?.passed).toBe(false);
+    expect(getCheck(report, 'hazardRatio')?.value).toBeCloseTo(0.03);
+  });
+
+  it('reports cells that cannot be loaded instead of throwing', () => {
+    const map = createTown().toJSON();
+    map.layers.objects[2]![2] = { assetId: 'missing_sprite', layer: 'object' };
+
+    const report = evaluateMapQuality(map, metadata);
+
+    expect(report.details.rejectedCells).toHaveLength(1);
+    expect(report.details.rejectedCells[0]).toMatchObject({ x: 2, y: 2, assetId: 'missing_sprite' });
+  });
+});
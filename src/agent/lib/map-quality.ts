@@ -0,0 +1,437 @@
+/**
+ * Map Quality - Objective checks and a score for a generated map
+ *
+ * Loads map.json into a GridState and measures what makes a town playable:
+ * full ground coverage, one connected road network whose sprites join up,
+ * objects off the roads, buildings reachable from a road, no walled-off
+ * walkable pockets, a sane share of hazard tiles, and enough of the
+ * spritesheet in use that the town does not look like one tile repeated.
+ *
+ * Architecture Decision:
+ * - Pure function of map + metadata (no I/O), so the CLI, the planner and
+ *   tests can all run it
+ * - Every check yields a raw measurement, a 0..1 sub-score and a
+ *   pass/fail against a threshold; the overall score is the mean of the
+ *   sub-scores (0-100), failures decide the CLI exit code
+ * - Thresholds are plain data with defaults, overridable from a JSON file
+ * - Map edges are not road-end mismatches: roads may run off the map
+ */
+
+import { z } from 'zod';
+import type { Direction, GameMap, SpritesheetMetadata } from '../types';
+import { GridState } from './grid-state';
+import { getFootprintCells, type Footprint } from './footprint';
+import { DIRECTION_OFFSETS, getRoadConnectionsAt, OPPOSITE_DIRECTION } from './road-tiles';
+
+// ─────────────────────────────────────────────────────────────────
+// Thresholds
+// ─────────────────────────────────────────────────────────────────
+
+export const QualityThresholdsSchema = z.object({
+  /** Minimum fraction of cells with ground (0..1) */
+  minGroundCoverage: z.number().min(0).max(1),
+  /** Maximum number of separate road networks */
+  maxRoadIslands: z.number().int().min(1),
+  /** Maximum road sprites that connect toward a cell that does not connect back */
+  maxRoadEndMismatches: z.number().int().min(0),
+  /** Maximum objects with a footprint cell on a road */
+  maxObjectsOnRoads: z.number().int().min(0),
+  /** Maximum buildings with no road within buildingRoadDistance */
+  maxBuildingsWithoutRoad: z.number().int().min(0),
+  /** Tiles between a building's footprint and the nearest road that still count as access */
+  buildingRoadDistance: z.number().int().min(1),
+  /** Maximum fraction of walkable cells not reachable from the road network (0..1) */
+  maxUnreachableRatio: z.number().min(0).max(1),
+  /** Maximum fraction of cells with non-walkable ground (0..1) */
+  maxHazardRatio: z.number().min(0).max(1),
+  /** Minimum fraction of the spritesheet's sprites used somewhere on the map (0..1) */
+  minSpriteVariety: z.number().min(0).max(1),
+  /** Minimum overall score (0-100) */
+  minScore: z.number().min(0).max(100),
+});
+
+export type QualityThresholds = z.infer<typeof QualityThresholdsSchema>;
+
+export const DEFAULT_QUALITY_THRESHOLDS: QualityThresholds = {
+  minGroundCoverage: 1,
+  maxRoadIslands: 1,
+  maxRoadEndMismatches: 0,
+  maxObjectsOnRoads: 0,
+  maxBuildingsWithoutRoad: 0,
+  // The planner prompts ask for buildings one tile away from roads
+  buildingRoadDistance: 2,
+  maxUnreachableRatio: 0.05,
+  maxHazardRatio: 0.2,
+  minSpriteVariety: 0.25,
+  minScore: 80,
+};
+
+// ─────────────────────────────────────────────────────────────────
+// Report Types
+// ─────────────────────────────────────────────────────────────────
+
+export interface QualityCheck {
+  name: string;
+  /** Measured value (ratio or count) */
+  value: number;
+  /** Threshold the value is compared against */
+  threshold: number;
+  passed: boolean;
+  /** 0..1, higher is better */
+  score: number;
+  detail: string;
+}
+
+export interface RoadEndMismatch {
+  x: number;
+  y: number;
+  assetId: string;
+  direction: Direction;
+}
+
+export interface MisplacedObject {
+  x: number;
+  y: number;
+  assetId: string;
+}
+
+export interface QualityReport {
+  width: number;
+  height: number;
+  /** 0-100, mean of the check scores */
+  score: number;
+  passed: boolean;
+  checks: QualityCheck[];
+  details: {
+    /** Cells in map.json that could not be loaded (unknown sprite, overlap) */
+    rejectedCells: Array<MisplacedObject & { reason: string }>;
+    roadEndMismatches: RoadEndMismatch[];
+    objectsOnRoads: MisplacedObject[];
+    buildingsWithoutRoad: MisplacedObject[];
+    walkableRegions: number;
+    unreachableTiles: number;
+  };
+}
+
+// ─────────────────────────────────────────────────────────────────
+// Evaluation
+// ─────────────────────────────────────────────────────────────────
+
+/**
+ * Measure a map against the quality thresholds.
+ *
+ * @param map - Map from map.json
+ * @param metadata - Spritesheet metadata the map was planned with
+ * @param thresholds - Limits for each check (default: DEFAULT_QUALITY_THRESHOLDS)
+ */
+export function evaluateMapQuality(
+  map: GameMap,
+  metadata: SpritesheetMetadata,
+  thresholds: QualityThresholds = DEFAULT_QUALITY_THRESHOLDS
+): QualityReport {
+  const rejectedCells: QualityReport['details']['rejectedCells'] = [];
+  const grid = GridState.fromJSON(map, metadata, (cell, reason) => {
+    rejectedCells.push({ x: cell.x, y: cell.y, assetId: cell.assetId, reason });
+  });
+
+  const totalTiles = grid.width * grid.height;
+  const checks: QualityCheck[] = [];
+
+  // Ground coverage
+  const coverage = totalTiles === 0 ? 0 : grid.getStats().groundFilled / totalTiles;
+  checks.push({
+    name: 'groundCoverage',
+    value: coverage,
+    threshold: thresholds.minGroundCoverage,
+    passed: coverage >= thresholds.minGroundCoverage,
+    score: coverage,
+    detail: `${formatPercent(coverage)} of cells have ground`,
+  });
+
+  // Road connectivity
+  const connectivity = grid.validateRoadConnectivity();
+  checks.push({
+    name: 'roadConnectivity',
+    value: connectivity.islandCount,
+    threshold: thresholds.maxRoadIslands,
+    passed: connectivity.totalRoadTiles > 0 && connectivity.islandCount <= thresholds.maxRoadIslands,
+    score: connectivity.islandCount === 0 ? 0 : 1 / connectivity.islandCount,
+    detail:
+      connectivity.totalRoadTiles === 0
+        ? 'no roads'
+        : `${connectivity.totalRoadTiles} road tiles in ${connectivity.islandCount} network(s)`,
+  });
+
+  // Road ends
+  const roadEndMismatches = findRoadEndMismatches(grid);
+  const mismatchedTiles = new Set(roadEndMismatches.map((m) => `${m.x},${m.y}`)).size;
+  checks.push({
+    name: 'roadEndMismatches',
+    value: roadEndMismatches.length,
+    threshold: thresholds.maxRoadEndMismatches,
+    passed: roadEndMismatches.length <= thresholds.maxRoadEndMismatches,
+    score: connectivity.totalRoadTiles === 0 ? 1 : 1 - mismatchedTiles / connectivity.totalRoadTiles,
+    detail: `${roadEndMismatches.length} road connection(s) point at a cell that does not connect back`,
+  });
+
+  // Objects on roads
+  const objects = getObjectFootprints(grid);
+  const objectsOnRoads = objects.filter((o) => getFootprintCells(o.footprint).some((c) => grid.isRoadAt(c.x, c.y)));
+  checks.push({
+    name: 'objectsOnRoads',
+    value: objectsOnRoads.length,
+    threshold: thresholds.maxObjectsOnRoads,
+    passed: objectsOnRoads.length <= thresholds.maxObjectsOnRoads,
+    score: objects.length === 0 ? 1 : 1 - objectsOnRoads.length / objects.length,
+    detail: `${objectsOnRoads.length} of ${objects.length} object(s) sit on a road`,
+  });
+
+  // Building road access
+  const buildings = objects.filter((o) => grid.getSprite(o.assetId)?.category === 'building');
+  const buildingsWithoutRoad = buildings.filter(
+    (b) => !hasRoadWithin(grid, b.footprint, thresholds.buildingRoadDistance)
+  );
+  checks.push({
+    name: 'buildingsWithoutRoad',
+    value: buildingsWithoutRoad.length,
+    threshold: thresholds.maxBuildingsWithoutRoad,
+    passed: buildingsWithoutRoad.length <= thresholds.maxBuildingsWithoutRoad,
+    score: buildings.length === 0 ? 1 : 1 - buildingsWithoutRoad.length / buildings.length,
+    detail: `${buildingsWithoutRoad.length} of ${buildings.length} building(s) have no road within ${thresholds.buildingRoadDistance} tile(s)`,
+  });
+
+  // Reachability
+  const reachability = measureReachability(grid);
+  const unreachableRatio =
+    reachability.walkableTiles === 0 ? 0 : reachability.unreachableTiles / reachability.walkableTiles;
+  checks.push({
+    name: 'unreachableWalkable',
+    value: unreachableRatio,
+    threshold: thresholds.maxUnreachableRatio,
+    passed: unreachableRatio <= thresholds.maxUnreachableRatio,
+    score: 1 - unreachableRatio,
+    detail: `${reachability.unreachableTiles} of ${reachability.walkableTiles} walkable tile(s) unreachable (${reachability.regions} region(s))`,
+  });
+
+  // Hazards
+  const hazardTiles = countHazardTiles(grid);
+  const hazardRatio = totalTiles === 0 ? 0 : hazardTiles / totalTiles;
+  checks.push({
+    name: 'hazardRatio',
+    value: hazardRatio,
+    threshold: thresholds.maxHazardRatio,
+    passed: hazardRatio <= thresholds.maxHazardRatio,
+    score: hazardRatio <= thresholds.maxHazardRatio ? 1 : thresholds.maxHazardRatio / hazardRatio,
+    detail: `${formatPercent(hazardRatio)} of cells are non-walkable ground`,
+  });
+
+  // Sprite variety
+  const spritesUsed = countSpritesUsed(grid);
+  const variety = metadata.sprites.length === 0 ? 0 : spritesUsed / metadata.sprites.length;
+  checks.push({
+    name: 'spriteVariety',
+    value: variety,
+    threshold: thresholds.minSpriteVariety,
+    passed: variety >= thresholds.minSpriteVariety,
+    score: thresholds.minSpriteVariety === 0 ? 1 : Math.min(1, variety / thresholds.minSpriteVariety),
+    detail: `${spritesUsed} of ${metadata.sprites.length} sprite(s) used (${formatPercent(variety)})`,
+  });
+
+  const score = Math.round((checks.reduce((sum, c) => sum + c.score, 0) / checks.length) * 100);
+  checks.push({
+    name: 'score',
+    value: score,
+    threshold: thresholds.minScore,
+    passed: score >= thresholds.minScore,
+    score: score / 100,
+    detail: `overall score ${score}/100`,
+  });
+
+  const toMisplaced = (o: ObjectFootprint): MisplacedObject => ({ x: o.x, y: o.y, assetId: o.assetId });
+
+  return {
+    width: grid.width,
+    height: grid.height,
+    score,
+    passed: checks.every((c) => c.passed),
+    checks,
+    details: {
+      rejectedCells,
+      roadEndMismatches,
+      objectsOnRoads: objectsOnRoads.map(toMisplaced),
+      buildingsWithoutRoad: buildingsWithoutRoad.map(toMisplaced),
+      walkableRegions: reachability.regions,
+      unreachableTiles: reachability.unreachableTiles,
+    },
+  };
+}
+
+/**
+ * Human-readable report, one line per check.
+ */
+export function formatQualityReport(report: QualityReport): string {
+  const lines = [`Map ${report.width}x${report.height}: score ${report.score}/100`];
+
+  for (const check of report.checks) {
+    if (check.name === 'score') continue;
+    lines.push(`  ${check.passed ? '✓' : '✗'} ${check.name}: ${check.detail}`);
+  }
+
+  if (report.details.rejectedCells.length > 0) {
+    lines.push(`  ! ${report.details.rejectedCells.length} cell(s) in map.json could not be loaded`);
+  }
+
+  return lines.join('\n');
+}
+
+// ─────────────────────────────────────────────────────────────────
+// Checks
+// ─────────────────────────────────────────────────────────────────
+
+/**
+ * Road tiles whose connects (as rotated) point at an in-map cell that is not a road,
+ * or at a road that does not connect back.
+ */
+function findRoadEndMismatches(grid: GridState): RoadEndMismatch[] {
+  const mismatches: RoadEndMismatch[] = [];
+
+  for (let y = 0; y < grid.height; y++) {
+    for (let x = 0; x < grid.width; x++) {
+      if (!grid.isRoadAt(x, y)) continue;
+      const tile = grid.getTile(x, y, 'ground');
+
+      for (const direction of getRoadConnectionsAt(grid, x, y)) {
+        const { dx, dy } = DIRECTION_OFFSETS[direction];
+        const nx = x + dx;
+        const ny = y + dy;
+        if (nx < 0 || nx >= grid.width || ny < 0 || ny >= grid.height) continue;
+
+        if (!getRoadConnectionsAt(grid, nx, ny).includes(OPPOSITE_DIRECTION[direction])) {
+          mismatches.push({ x, y, assetId: tile!.assetId, direction });
+        }
+      }
+    }
+  }
+
+  return mismatches;
+}
+
+interface ObjectFootprint {
+  x: number;
+  y: number;
+  assetId: string;
+  footprint: Footprint;
+}
+
+function getObjectFootprints(grid: GridState): ObjectFootprint[] {
+  const objects: ObjectFootprint[] = [];
+  for (let y = 0; y < grid.height; y++) {
+    for (let x = 0; x < grid.width; x++) {
+      const owner = grid.getOwner(x, y, 'object');
+      const tile = grid.getTile(x, y, 'object');
+      const footprint = grid.getFootprintAt(x, y, 'object');
+      // Visit each object once, at its anchor
+      if (tile && footprint && owner?.x === x && owner.y === y) {
+        objects.push({ x, y, assetId: tile.assetId, footprint });
+      }
+    }
+  }
+  return objects;
+}
+
+/**
+ * Whether any road lies within `distance` tiles (Chebyshev) of a footprint.
+ */
+function hasRoadWithin(grid: GridState, footprint: Footprint, distance: number): boolean {
+  for (let y = footprint.top - distance; y <= footprint.bottom + distance; y++) {
+    for (let x = footprint.left - distance; x <= footprint.right + distance; x++) {
+      if (grid.isRoadAt(x, y)) return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * A cell is walkable when its ground is walkable and no non-walkable
+ * object covers it.
+ */
+function isWalkable(grid: GridState, x: number, y: number): boolean {
+  const ground = grid.getTile(x, y, 'ground');
+  if (!ground || !grid.getSprite(ground.assetId)?.placement.walkable) return false;
+  const object = grid.getTile(x, y, 'object');
+  return !object || grid.getSprite(object.assetId)?.placement.walkable === true;
+}
+
+/**
+ * Flood-fill walkable regions. Tiles are reachable when their region
+ * touches a road; without roads, the largest region counts as reachable.
+ */
+function measureReachability(grid: GridState): { walkableTiles: number; regions: number; unreachableTiles: number } {
+  const visited = new Set<string>();
+  const regions: Array<{ size: number; touchesRoad: boolean }> = [];
+
+  for (let y = 0; y < grid.height; y++) {
+    for (let x = 0; x < grid.width; x++) {
+      if (visited.has(`${x},${y}`) || !isWalkable(grid, x, y)) continue;
+
+      const region = { size: 0, touchesRoad: false };
+      const queue = [{ x, y }];
+      visited.add(`${x},${y}`);
+
+      while (queue.length > 0) {
+        const cell = queue.pop()!;
+        region.size++;
+        if (grid.isRoadAt(cell.x, cell.y)) region.touchesRoad = true;
+
+        for (const { dx, dy } of Object.values(DIRECTION_OFFSETS)) {
+          const nx = cell.x + dx;
+          const ny = cell.y + dy;
+          const key = `${nx},${ny}`;
+          if (nx < 0 || nx >= grid.width || ny < 0 || ny >= grid.height) continue;
+          if (visited.has(key) || !isWalkable(grid, nx, ny)) continue;
+          visited.add(key);
+          queue.push({ x: nx, y: ny });
+        }
+      }
+
+      regions.push(region);
+    }
+  }
+
+  const walkableTiles = regions.reduce((sum, r) => sum + r.size, 0);
+  const hasRoadRegion = regions.some((r) => r.touchesRoad);
+  const largest = Math.max(0, ...regions.map((r) => r.size));
+  const reachableTiles = hasRoadRegion
+    ? regions.filter((r) => r.touchesRoad).reduce((sum, r) => sum + r.size, 0)
+    : largest;
+
+  return { walkableTiles, regions: regions.length, unreachableTiles: walkableTiles - reachableTiles };
+}
+
+function countHazardTiles(grid: GridState): number {
+  let count = 0;
+  for (let y = 0; y < grid.height; y++) {
+    for (let x = 0; x < grid.width; x++) {
+      const ground = grid.getTile(x, y, 'ground');
+      if (ground && grid.getSprite(ground.assetId)?.placement.walkable === false) count++;
+    }
+  }
+  return count;
+}
+
+function countSpritesUsed(grid: GridState): number {
+  const used = new Set<string>();
+  for (let y = 0; y < grid.height; y++) {
+    for (let x = 0; x < grid.width; x++) {
+      const ground = grid.getTile(x, y, 'ground');
+      const object = grid.getTile(x, y, 'object');
+      if (ground) used.add(ground.assetId);
+      if (object) used.add(object.assetId);
+    }
+  }
+  return used.size;
+}
+
+function formatPercent(ratio: number): string {
+  return `${Math.round(ratio * 1000) / 10}%`;
+}
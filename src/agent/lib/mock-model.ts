@@ -0,0 +1,125 @@
+/**
+ * Scripted Mock Model - Deterministic stand-in for an LLM in tests
+ *
+ * Plays back a fixed script of tool calls, one turn per model call, so the
+ * real phases (prompts, tools, step limits) run end to end against a
+ * GridState without a provider.
+ *
+ * Architecture Decision:
+ * - Built on the AI SDK's MockLanguageModelV2: it plugs into streamText /
+ *   generateText like any provider model, and records every call it gets
+ * - Installed per role with setModelOverride (lib/models), so phases keep
+ *   calling getModel() unchanged
+ * - Once the script runs out the model answers with plain text, which ends
+ *   the tool loop the same way a real model finishing would
+ */
+
+import { MockLanguageModelV2, simulateReadableStream } from 'ai/test';
+
+export interface MockToolCall {
+  toolName: string;
+  input: Record<string, unknown>;
+}
+
+/** One model response: tool calls to make, or final text */
+export type MockTurn = MockToolCall[] | { text: string };
+
+export interface MockToolResult {
+  toolName: string;
+  output: unknown;
+}
+
+type StreamPart = Awaited<ReturnType<MockLanguageModelV2['doStream']>>['stream'] extends ReadableStream<infer T>
+  ? T
+  : never;
+type GenerateResult = Awaited<ReturnType<MockLanguageModelV2['doGenerate']>>;
+
+const USAGE = { inputTokens: 0, outputTokens: 0, totalTokens: 0 };
+const FINAL_TEXT = 'Done.';
+
+/**
+ * Create a model that plays `turns` in order, one per call (streamed or
+ * not), then answers with plain text.
+ *
+ * @example
+ * createScriptedModel([
+ *   [{ toolName: 'fillGround', input: { x1: 0, y1: 0, x2: 9, y2: 9, groundTileId: 'grass' } }],
+ *   [{ toolName: 'viewMap', input: { layer: 'ground' } }],
+ * ])
+ */
+export function createScriptedModel(turns: MockTurn[]): MockLanguageModelV2 {
+  let callIndex = 0;
+  const nextTurn = (): MockTurn => turns[callIndex++] ?? { text: FINAL_TEXT };
+
+  return new MockLanguageModelV2({
+    provider: 'mock',
+    modelId: 'scripted',
+
+    doGenerate: async () => {
+      const turn = nextTurn();
+      const result: GenerateResult = {
+        content:
+          'text' in turn
+            ? [{ type: 'text', text: turn.text }]
+            : turn.map((call, i) => ({
+                type: 'tool-call',
+                toolCallId: `call-${callIndex}-${i}`,
+                toolName: call.toolName,
+                input: JSON.stringify(call.input),
+              })),
+        finishReason: 'text' in turn ? 'stop' : 'tool-calls',
+        usage: USAGE,
+        warnings: [],
+      };
+      return result;
+    },
+
+    doStream: async () => {
+      const turn = nextTurn();
+      const parts: StreamPart[] = [{ type: 'stream-start', warnings: [] }];
+
+      if ('text' in turn) {
+        parts.push(
+          { type: 'text-start', id: 'text' },
+          { type: 'text-delta', id: 'text', delta: turn.text },
+          { type: 'text-end', id: 'text' }
+        );
+      } else {
+        turn.forEach((call, i) => {
+          parts.push({
+            type: 'tool-call',
+            toolCallId: `call-${callIndex}-${i}`,
+            toolName: call.toolName,
+            input: JSON.stringify(call.input),
+          });
+        });
+      }
+
+      parts.push({ type: 'finish', finishReason: 'text' in turn ? 'stop' : 'tool-calls', usage: USAGE });
+      return { stream: simulateReadableStream({ chunks: parts, initialDelayInMs: null, chunkDelayInMs: null }) };
+    },
+  });
+}
+
+/**
+ * Every tool result the model was shown, in call order (read from the
+ * prompt of its last call, which carries the whole conversation).
+ */
+export function getToolResults(model: MockLanguageModelV2): MockToolResult[] {
+  const lastCall = model.doStreamCalls.at(-1) ?? model.doGenerateCalls.at(-1);
+  if (!lastCall) {
+    return [];
+  }
+
+  const results: MockToolResult[] = [];
+  for (const message of lastCall.prompt) {
+    if (message.role !== 'tool') continue;
+    for (const part of message.content) {
+      results.push({
+        toolName: part.toolName,
+        output: part.output.type === 'json' ? part.output.value : part.output,
+      });
+    }
+  }
+  return results;
+}
@@ -0,0 +1,151 @@
+/**
+ * Model Registry - Which provider and model each pipeline role uses
+ *
+ * Architecture Decision:
+ * - Roles, not call sites: every LLM call asks for its role's model
+ *   (getModel('planner-roads')), so swapping models never touches phases
+ * - Specs are "provider:modelId" strings. Defaults live in config.ts and
+ *   each role can be overridden with an env var (MODEL_SCENE,
+ *   MODEL_PLANNER_ROADS, ...); MODEL_PLANNER covers all three planner roles
+ * - Providers: google (Gemini), openrouter, and local (any OpenAI-compatible
+ *   server, through the generic OpenAI-compatible client). local only ever
+ *   sends LOCAL_MODEL_API_KEY, and only when it is set, so keys for other
+ *   providers never reach a local server
+ * - Every model is wrapped by the cassette middleware (a no-op unless
+ *   --record/--replay is given)
+ * - setModelOverride swaps a role's model in place (used by tests to
+ *   install a scripted mock, see lib/mock-model)
+ * - Credentials are checked up front per role (getMissingCredentials), so
+ *   the CLI fails before any work instead of mid-pipeline
+ */
+
+import { google } from '@ai-sdk/google';
+import { createOpenAICompatible } from '@ai-sdk/openai-compatible';
+import { createOpenRouter } from '@openrouter/ai-sdk-provider';
+import type { LanguageModel } from 'ai';
+import { withCassette } from './cassette';
+import { DEFAULT_MODELS, DEFAULT_LOCAL_BASE_URL, type ModelRole } from '../config';
+
+export const MODEL_PROVIDERS = ['google', 'openrouter', 'local'] as const;
+export type ModelProvider = (typeof MODEL_PROVIDERS)[number];
+
+export interface ModelSpec {
+  provider: ModelProvider;
+  modelId: string;
+}
+
+/** Models installed by setModelOverride (tests), checked before the spec */
+const modelOverrides = new Map<ModelRole, LanguageModel>();
+
+/** API key env var each provider needs (local servers usually need none) */
+const PROVIDER_API_KEYS: Record<ModelProvider, string | null> = {
+  google: 'GOOGLE_GENERATIVE_AI_API_KEY',
+  openrouter: 'OPENROUTER_API_KEY',
+  local: null,
+};
+
+// ─────────────────────────────────────────────────────────────────
+// Spec Resolution
+// ─────────────────────────────────────────────────────────────────
+
+/**
+ * Env var that overrides a role, e.g. 'planner-roads' → MODEL_PLANNER_ROADS.
+ */
+export function getModelEnvVar(role: ModelRole): string {
+  return `MODEL_${role.toUpperCase().replace(/-/g, '_')}`;
+}
+
+/**
+ * Parse a "provider:modelId" spec. Only the first colon separates the
+ * provider, so local model tags like "local:qwen2.5:14b" work.
+ */
+export function parseModelSpec(spec: string): ModelSpec {
+  const separator = spec.indexOf(':');
+  const provider = spec.slice(0, separator);
+  const modelId = spec.slice(separator + 1);
+
+  if (separator === -1 || !modelId || !(MODEL_PROVIDERS as readonly string[]).includes(provider)) {
+    throw new Error(
+      `Invalid model spec "${spec}": expected <provider>:<modelId> with provider one of ${MODEL_PROVIDERS.join(', ')}`
+    );
+  }
+
+  return { provider: provider as ModelProvider, modelId };
+}
+
+/**
+ * Resolve the model spec for a role: MODEL_<ROLE>, then MODEL_PLANNER for
+ * planner roles, then the default from config.ts.
+ */
+export function getModelSpec(role: ModelRole): ModelSpec {
+  const shared = role.startsWith('planner-') ? process.env.MODEL_PLANNER : undefined;
+  return parseModelSpec(process.env[getModelEnvVar(role)] || shared || DEFAULT_MODELS[role]);
+}
+
+/**
+ * Format a spec back to "provider:modelId" (for logs and cache keys).
+ */
+export function formatModelSpec(spec: ModelSpec): string {
+  return `${spec.provider}:${spec.modelId}`;
+}
+
+// ─────────────────────────────────────────────────────────────────
+// Model Construction
+// ─────────────────────────────────────────────────────────────────
+
+/**
+ * Get the AI SDK model for a role (wrapped for --record/--replay when a
+ * cassette is active).
+ */
+export function getModel(role: ModelRole): LanguageModel {
+  const override = modelOverrides.get(role);
+  if (override) {
+    return override;
+  }
+  return withCassette(createProviderModel(getModelSpec(role)), role);
+}
+
+function createProviderModel({ provider, modelId }: ModelSpec): Exclude<LanguageModel, string> {
+  switch (provider) {
+    case 'google':
+      return google(modelId);
+    case 'openrouter':
+      return createOpenRouter({
+        apiKey: process.env.OPENROUTER_API_KEY,
+        compatibility: 'strict',
+      }).chat(modelId);
+    case 'local':
+      return createOpenAICompatible({
+        name: 'local',
+        baseURL: process.env.LOCAL_MODEL_BASE_URL || DEFAULT_LOCAL_BASE_URL,
+        apiKey: process.env.LOCAL_MODEL_API_KEY || undefined,
+      }).chatModel(modelId);
+  }
+}
+
+/**
+ * Use `model` for a role instead of its spec (e.g. a scripted mock in
+ * tests). Pass undefined to go back to the spec.
+ */
+export function setModelOverride(role: ModelRole, model: LanguageModel | undefined): void {
+  if (model) {
+    modelOverrides.set(role, model);
+  } else {
+    modelOverrides.delete(role);
+  }
+}
+
+/**
+ * API key env vars that the given roles need but are not set. Throws if a
+ * role's spec is invalid.
+ */
+export function getMissingCredentials(roles: readonly ModelRole[]): string[] {
+  const missing = new Set<string>();
+  for (const role of roles) {
+    const envVar = PROVIDER_API_KEYS[getModelSpec(role).provider];
+    if (envVar && !process.env[envVar]) {
+      missing.add(envVar);
+    }
+  }
+  return [...missing];
+}
@@ -0,0 +1,126 @@
+import { readFileSync } from 'fs';
+import { describe, expect, it } from 'vitest';
+import { GridState } from './grid-state';
+import { cellsInRegions, findPath, getTerrainCosts } from './pathfinding';
+import { SpritesheetMetadataSchema } from '../types';
+
+const metadata = SpritesheetMetadataSchema.parse(
+  JSON.parse(readFileSync('examples/medieval-village/spritesheet-metadata.json', 'utf-8'))
+);
+
+const GRASS = 'wildflower_grass_patch';
+const WATER = 'clear_stream_bed';
+
+function createGrid(): GridState {
+  const grid = new GridState(10, 10, metadata);
+  for (let y = 0; y < 10; y++) {
+    for (let x = 0; x < 10; x++) {
+      grid.setTile(x, y, GRASS);
+    }
+  }
+  return grid;
+}
+
+function fillWater(grid: GridState, x: number, y1: number, y2: number): void {
+  for (let y = y1; y <= y2; y++) grid.setTile(x, y, WATER);
+}
+
+function visits(path: Array<{ x: number; y: number }>, x: number, y: number): boolean {
+  return path.some((p) => p.x === x && p.y === y);
+}
+
+describe('findPath', () => {
+  it('goes straight with a single bend on open ground', () => {
+    const result = findPath(createGrid(), { x: 0, y: 0 }, { x: 5, y: 3 });
+
+    expect(result?.path).toHaveLength(9);
+    expect(result?.cost).toBe(8 + 2); // 8 steps + one turn
+    expect(result?.bridges).toEqual([]);
+  });
+
+  it('routes around a building instead of through it', () => {
+    const grid = createGrid();
+    // 2x2 bottom_center building anchored at (4,4) covers x=4..5, y=3..4
+    grid.setTile(4, 4, 'stout_boar_tavern', 'object');
+
+    const result = findPath(grid, { x: 0, y: 4 }, { x: 9, y: 4 });
+
+    expect(result).not.toBeNull();
+    expect(visits(result!.path, 4, 4)).toBe(false);
+    expect(visits(result!.path, 5, 3)).toBe(false);
+  });
+
+  it('goes around a stream when it can and refuses when it cannot', () => {
+    const grid = createGrid();
+    fillWater(grid, 5, 0, 8);
+
+    const around = findPath(grid, { x: 0, y: 4 }, { x: 9, y: 4 });
+    expect(around).not.toBeNull();
+    expect(visits(around!.path, 5, 9)).toBe(true);
+
+    fillWater(grid, 5, 9, 9);
+    expect(findPath(grid, { x: 0, y: 4 }, { x: 9, y: 4 })).toBeNull();
+  });
+
+  it('bridges a stream only when allowed', () => {
+    const grid = createGrid();
+    fillWater(grid, 5, 0, 9);
+
+    const result = findPath(grid, { x: 0, y: 4 }, { x: 9, y: 4 }, { allowBridges: true });
+
+    expect(result?.bridges).toEqual([{ x: 5, y: 4 }]);
+    expect(result?.path).toHaveLength(10);
+  });
+
+  it('steers by terrain costs and keeps out of forbidden cells', () => {
+    const grid = createGrid();
+    for (let x = 1; x <= 8; x++) grid.setTile(x, 4, 'packed_dirt_path');
+
+    const cheap = findPath(grid, { x: 0, y: 4 }, { x: 9, y: 4 }, { terrainCosts: { packed_dirt_path: 5 } });
+    expect(visits(cheap!.path, 4, 4)).toBe(false);
+
+    const avoided = findPath(grid, { x: 0, y: 4 }, { x: 9, y: 4 }, { forbidden: cellsInRegions(grid, [{ x1: 3, y1: 2, x2: 6, y2: 6 }]) });
+    expect(avoided!.path.every((p) => p.x < 3 || p.x > 6 || p.y < 2 || p.y > 6)).toBe(true);
+  });
+
+  it('refuses to start or end on a cell it may not enter', () => {
+    const grid = createGrid();
+    grid.setTile(4, 4, 'stout_boar_tavern', 'object');
+    fillWater(grid, 0, 0, 0);
+    const plaza = { forbidden: cellsInRegions(grid, [{ x1: 8, y1: 8, x2: 9, y2: 9 }]) };
+
+    expect(findPath(grid, { x: 4, y: 4 }, { x: 9, y: 4 })).toBeNull();
+    expect(findPath(grid, { x: 0, y: 0 }, { x: 0, y: 5 })).toBeNull();
+    expect(findPath(grid, { x: 0, y: 0 }, { x: 0, y: 5 }, { allowBridges: true })).not.toBeNull();
+    expect(findPath(grid, { x: 9, y: 9 }, { x: 9, y: 9 }, plaza)).toBeNull();
+  });
+});
+
+describe('cellsInRegions', () => {
+  it('clamps regions to the map', () => {
+    const grid = createGrid();
+    const cells = cellsInRegions(grid, [{ x1: -5, y1: 8, x2: 100000, y2: 100000 }]);
+
+    expect(cells.size).toBe(grid.width * 2);
+    expect(cells.has('0,9')).toBe(true);
+    expect(cells.has('10,9')).toBe(false);
+  });
+});
+
+describe('getTerrainCosts', () => {
+  it('reads pathCost from the sprite metadata', () => {
+    const muddy = {
+      ...metadata,
+      sprites: metadata.sprites.map((s) => (s.id === 'packed_dirt_path' ? { ...s, pathCost: 5 } : s)),
+    };
+    const grid = new GridState(10, 10, muddy);
+    for (let y = 0; y < 10; y++) {
+      for (let x = 0; x < 10; x++) grid.setTile(x, y, x >= 1 && x <= 8 && y === 4 ? 'packed_dirt_path' : GRASS);
+    }
+
+    expect(getTerrainCosts(muddy)).toEqual({ packed_dirt_path: 5 });
+    const route = findPath(grid, { x: 0, y: 4 }, { x: 9, y: 4 }, { terrainCosts: getTerrainCosts(muddy) });
+    expect(visits(route!.path, 4, 4)).toBe(false);
+  });
+});
+
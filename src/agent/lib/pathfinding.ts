@@ -0,0 +1,288 @@
+/**
+ * Pathfinding - Cost-based road routing (A*)
+ *
+ * Finds the cheapest 4-connected path between two cells, so roads go
+ * around buildings and lakes instead of paving straight through them.
+ *
+ * Architecture Decision:
+ * - Costs come from what is on the map: every cell costs 1 unless its
+ *   ground sprite has an entry in `terrainCosts`; cells with an object
+ *   (buildings, props, walls) or in `forbidden` cannot be entered
+ * - Road tools take `terrainCosts` from the sprites' `pathCost` metadata
+ *   (getTerrainCosts), so a spritesheet decides that roads avoid mud
+ * - Hazard ground (`walkable: false`) is forbidden too, unless bridges are
+ *   allowed: then it costs `bridgeCost` per cell, high enough that a bridge
+ *   is only used when going around is impossible or much longer
+ * - Search state is (cell, arrival direction) so a turn penalty can keep
+ *   roads straight; with equal costs the path with fewest bends wins
+ * - Deterministic: ties break by insertion order, never by randomness
+ */
+
+import type { GridState } from './grid-state';
+import type { SpritesheetMetadata } from '../types';
+import { DIRECTION_OFFSETS, DIRECTIONS } from './road-tiles';
+
+/** Cost added each time the path changes direction */
+export const DEFAULT_TURN_PENALTY = 2;
+
+/** Cost of one hazard cell crossed by a bridge */
+export const DEFAULT_BRIDGE_COST = 25;
+
+type Point = { x: number; y: number };
+
+export interface PathOptions {
+  /** Cost of entering a cell, by ground sprite ID (default 1 for all) */
+  terrainCosts?: Record<string, number>;
+  /** Cells the path must not enter, as "x,y" keys (pinned areas, plazas) */
+  forbidden?: Set<string>;
+  /** Cost added per change of direction. Default DEFAULT_TURN_PENALTY */
+  turnPenalty?: number;
+  /** Let the path cross hazard ground. Default false */
+  allowBridges?: boolean;
+  /** Cost per hazard cell when bridges are allowed. Default DEFAULT_BRIDGE_COST */
+  bridgeCost?: number;
+}
+
+export interface PathResult {
+  /** Cells from start to goal inclusive, each adjacent to the next */
+  path: Point[];
+  /** Total cost, including turn penalties */
+  cost: number;
+  /** Hazard cells on the path (only with allowBridges) */
+  bridges: Point[];
+}
+
+/**
+ * Terrain costs from the sprites' `pathCost` metadata, keyed by sprite ID.
+ */
+export function getTerrainCosts(metadata: SpritesheetMetadata): Record<string, number> {
+  const costs: Record<string, number> = {};
+  for (const sprite of metadata.sprites) {
+    if (sprite.pathCost !== undefined) costs[sprite.id] = sprite.pathCost;
+  }
+  return costs;
+}
+
+/**
+ * Cost of entering (x, y), or Infinity if the path may not go there.
+ */
+export function getCellCost(grid: GridState, x: number, y: number, options: PathOptions = {}): number {
+  if (x < 0 || x >= grid.width || y < 0 || y >= grid.height) return Infinity;
+  if (options.forbidden?.has(`${x},${y}`)) return Infinity;
+  if (grid.getTile(x, y, 'object')) return Infinity;
+
+  const ground = grid.getTile(x, y, 'ground');
+  if (!ground) return 1;
+
+  if (grid.getSprite(ground.assetId)?.placement.walkable === false) {
+    return options.allowBridges ? (options.bridgeCost ?? DEFAULT_BRIDGE_COST) : Infinity;
+  }
+  return options.terrainCosts?.[ground.assetId] ?? 1;
+}
+
+/**
+ * Min-heap of search states ordered by f-score, then insertion order.
+ */
+class OpenSet {
+  private heap: Array<{ f: number; order: number; state: number }> = [];
+  private counter = 0;
+
+  get size(): number {
+    return this.heap.length;
+  }
+
+  push(state: number, f: number): void {
+    this.heap.push({ f, order: this.counter++, state });
+    let i = this.heap.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (!this.less(i, parent)) break;
+      this.swap(i, parent);
+      i = parent;
+    }
+  }
+
+  pop(): number {
+    const top = this.heap[0]!;
+    const last = this.heap.pop()!;
+    if (this.heap.length > 0) {
+      this.heap[0] = last;
+      let i = 0;
+      for (;;) {
+        const left = 2 * i + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < this.heap.length && this.less(left, smallest)) smallest = left;
+        if (right < this.heap.length && this.less(right, smallest)) smallest = right;
+        if (smallest === i) break;
+        this.swap(i, smallest);
+        i = smallest;
+      }
+    }
+    return top.state;
+  }
+
+  private less(a: number, b: number): boolean {
+    const x = this.heap[a]!;
+    const y = this.heap[b]!;
+    return x.f < y.f || (x.f === y.f && x.order < y.order);
+  }
+
+  private swap(a: number, b: number): void {
+    [this.heap[a], this.heap[b]] = [this.heap[b]!, this.heap[a]!];
+  }
+}
+
+/**
+ * Find the cheapest path from `from` to `to`.
+ *
+ * Both ends must be enterable (a road cannot start under a building or in
+ * water without a bridge), but only the cells after the start are costed.
+ *
+ * @returns The path, or null if either end is blocked or the goal cannot
+ *   be reached
+ */
+export function findPath(grid: GridState, from: Point, to: Point, options: PathOptions = {}): PathResult | null {
+  const turnPenalty = options.turnPenalty ?? DEFAULT_TURN_PENALTY;
+  const directionCount = DIRECTIONS.length + 1; // +1: "no direction yet" at the start
+  const cellIndex = (x: number, y: number) => y * grid.width + x;
+  const stateOf = (x: number, y: number, dir: number) => cellIndex(x, y) * directionCount + dir;
+
+  // Cheapest possible step keeps the heuristic admissible
+  const minStep = Math.min(1, ...Object.values(options.terrainCosts ?? {}));
+  const heuristic = (x: number, y: number) => (Math.abs(x - to.x) + Math.abs(y - to.y)) * Math.max(0, minStep);
+
+  const costCache = new Map<number, number>();
+  const cellCost = (x: number, y: number) => {
+    if (x < 0 || x >= grid.width || y < 0 || y >= grid.height) return Infinity;
+    const key = cellIndex(x, y);
+    let cost = costCache.get(key);
+    if (cost === undefined) {
+      cost = getCellCost(grid, x, y, options);
+      costCache.set(key, cost);
+    }
+    return cost;
+  };
+
+  if (cellCost(from.x, from.y) === Infinity || cellCost(to.x, to.y) === Infinity) {
+    return null;
+  }
+
+  const best = new Map<number, number>();
+  const cameFrom = new Map<number, number>();
+  const open = new OpenSet();
+
+  const start = stateOf(from.x, from.y, DIRECTIONS.length);
+  best.set(start, 0);
+  open.push(start, heuristic(from.x, from.y));
+
+  const closed = new Set<number>();
+  while (open.size > 0) {
+    const state = open.pop();
+    if (closed.has(state)) continue;
+    closed.add(state);
+
+    const cell = Math.floor(state / directionCount);
+    const arrived = state % directionCount;
+    const x = cell % grid.width;
+    const y = Math.floor(cell / grid.width);
+    const g = best.get(state)!;
+
+    if (x === to.x && y === to.y) {
+      return buildResult(grid, state, g, cameFrom, directionCount, options);
+    }
+
+    DIRECTIONS.forEach((direction, dir) => {
+      const { dx, dy } = DIRECTION_OFFSETS[direction];
+      const nx = x + dx;
+      const ny = y + dy;
+      const step = cellCost(nx, ny);
+      if (step === Infinity) return;
+
+      const turn = arrived !== DIRECTIONS.length && arrived !== dir ? turnPenalty : 0;
+      const next = stateOf(nx, ny, dir);
+      const cost = g + step + turn;
+      if (cost < (best.get(next) ?? Infinity)) {
+        best.set(next, cost);
+        cameFrom.set(next, state);
+        open.push(next, cost + heuristic(nx, ny));
+      }
+    });
+  }
+
+  return null;
+}
+
+function buildResult(
+  grid: GridState,
+  goal: number,
+  cost: number,
+  cameFrom: Map<number, number>,
+  directionCount: number,
+  options: PathOptions
+): PathResult {
+  const path: Point[] = [];
+  let state: number | undefined = goal;
+  while (state !== undefined) {
+    const cell = Math.floor(state / directionCount);
+    path.push({ x: cell % grid.width, y: Math.floor(cell / grid.width) });
+    state = cameFrom.get(state);
+  }
+  path.reverse();
+
+  const bridges = options.allowBridges
+    ? path.filter(({ x, y }) => {
+        const ground = grid.getTile(x, y, 'ground');
+        return ground !== null && grid.getSprite(ground.assetId)?.placement.walkable === false;
+      })
+    : [];
+
+  return { path, cost, bridges };
+}
+
+/**
+ * "x,y" keys for every map cell in the given inclusive rectangles, for use
+ * as `forbidden` (e.g. a plaza the roads must go around). Rectangles are
+ * clamped to the map, so a huge model-supplied region costs no more than
+ * the map itself.
+ */
+export function cellsInRegions(
+  grid: GridState,
+  regions: Array<{ x1: number; y1: number; x2: number; y2: number }>
+): Set<string> {
+  const cells = new Set<string>();
+  for (const { x1, y1, x2, y2 } of regions) {
+    const minX = Math.max(0, Math.min(x1, x2));
+    const maxX = Math.min(grid.width - 1, Math.max(x1, x2));
+    const minY = Math.max(0, Math.min(y1, y2));
+    const maxY = Math.min(grid.height - 1, Math.max(y1, y2));
+    for (let y = minY; y <= maxY; y++) {
+      for (let x = minX; x <= maxX; x++) {
+        cells.add(`${x},${y}`);
+      }
+    }
+  }
+  return cells;
+}
+
+/**
+ * Fixed L-shaped path from start to end, horizontal first, ignoring what
+ * is on the map. For lines that must not bend around obstacles (walls
+ * leave a gap where they cross a road instead of detouring).
+ */
+export function getManhattanPath(from: Point, to: Point): Point[] {
+  const path: Point[] = [];
+  let { x, y } = from;
+
+  while (x !== to.x) {
+    path.push({ x, y });
+    x += x < to.x ? 1 : -1;
+  }
+  while (y !== to.y) {
+    path.push({ x, y });
+    y += y < to.y ? 1 : -1;
+  }
+  path.push({ x: to.x, y: to.y });
+
+  return path;
+}
@@ -0,0 +1,81 @@
+/**
+ * Seeded Random - Reproducible randomness for procedural generation
+ *
+ * Architecture Decision:
+ * - mulberry32: tiny, fast, 32-bit state, good enough distribution for
+ *   level generation (not for cryptography)
+ * - Never touches Math.random, so the same seed always produces the same
+ *   map on every machine and Node version
+ * - LLM calls get the same seed via getSeedSettings; providers that
+ *   support it make a best effort to repeat their output
+ */
+
+import { SEEDED_TEMPERATURE } from '../config';
+
+export interface Rng {
+  /** Float in [0, 1) */
+  next(): number;
+  /** Integer in [min, max] (inclusive) */
+  int(min: number, max: number): number;
+  /** Random element of a non-empty array */
+  pick<T>(items: readonly T[]): T;
+  /** New array with the items in random order (Fisher-Yates) */
+  shuffle<T>(items: readonly T[]): T[];
+  /** True with the given probability */
+  chance(probability: number): boolean;
+}
+
+/**
+ * Create a seeded random number generator.
+ */
+export function createRng(seed: number): Rng {
+  let state = seed >>> 0;
+
+  const next = (): number => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  const int = (min: number, max: number): number =>
+    min + Math.floor(next() * (max - min + 1));
+
+  return {
+    next,
+    int,
+    pick<T>(items: readonly T[]): T {
+      if (items.length === 0) {
+        throw new Error('Cannot pick from an empty array');
+      }
+      return items[int(0, items.length - 1)]!;
+    },
+    shuffle<T>(items: readonly T[]): T[] {
+      const result = [...items];
+      for (let i = result.length - 1; i > 0; i--) {
+        const j = int(0, i);
+        [result[i], result[j]] = [result[j]!, result[i]!];
+      }
+      return result;
+    },
+    chance(probability: number): boolean {
+      return next() < probability;
+    },
+  };
+}
+
+/**
+ * AI SDK call settings for a seeded run. Empty when no seed was given, so
+ * unseeded runs keep the provider's default temperature.
+ */
+export function getSeedSettings(seed?: number): { seed?: number; temperature?: number } {
+  return seed === undefined ? {} : { seed, temperature: SEEDED_TEMPERATURE };
+}
+
+/**
+ * Pick a fresh seed when the user did not supply one.
+ */
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 2 ** 31);
+}
@@ -1,6 +1,7 @@
 import sharp, { type OverlayOptions } from 'sharp';
 import { readFile } from 'fs/promises';
 import type { GameMap, SpritesheetMetadata, Sprite, MapCell } from '../types';
+import { getFootprint, type Footprint } from './footprint';
 
 /**
  * Map Renderer - Composites map.json to PNG using spritesheet
@@ -12,6 +13,13 @@ import type { GameMap, SpritesheetMetadata, Sprite, MapCell } from '../types';
  *   3. Memory-efficient streaming composites via libvips
  * - Pre-extract sprites to cache to avoid repeated spritesheet reads
  * - Single composite call for efficiency (Sharp batches operations)
+ * - Sprites are drawn at their footprint (from placement.anchor), not at
+ *   the anchor cell's top-left, so 2x2 bottom_center buildings sit where
+ *   the planner put them
+ * - Objects are depth-sorted by footprint bottom edge (then x), so
+ *   sprites further down the map occlude the ones behind them
+ * - Rotated cells (MapCell.rotation) are cached per sprite AND rotation,
+ *   so a T-junction used in four orientations is extracted four times
  *
  * Trade-off: Sharp's composite API is less intuitive than Canvas drawImage
  * but avoids native dependency issues.
@@ -43,7 +51,15 @@ export interface RenderResult {
 }
 
 /**
- * Extract a sprite region from the spritesheet, scaled for compositing.
+ * Cache key for a sprite drawn with a rotation.
+ */
+function spriteKey(assetId: string, rotation = 0): string {
+  return rotation ? `${assetId}@${rotation}` : assetId;
+}
+
+/**
+ * Extract a sprite region from the spritesheet, scaled for compositing
+ * and turned clockwise by `rotation` degrees.
  *
  * Using kernel: 'nearest' for resize because pixel art should not be
  * interpolated (would blur edges). Nearest-neighbor preserves crisp
@@ -53,7 +69,8 @@ async function extractSprite(
   spritesheetPath: string,
   sprite: Sprite,
   tileSize: number,
-  scale: number
+  scale: number,
+  rotation = 0
 ): Promise<Buffer> {
   const sourceX = sprite.col * tileSize;
   const sourceY = sprite.row * tileSize;
@@ -63,10 +80,13 @@ async function extractSprite(
   const scaledW = Math.round(sourceW * scale);
   const scaledH = Math.round(sourceH * scale);
 
-  return sharp(spritesheetPath)
+  // Rotate in a second pipeline: sharp applies rotate() before extract()
+  const extracted = await sharp(spritesheetPath)
     .extract({ left: sourceX, top: sourceY, width: sourceW, height: sourceH })
     .resize(scaledW, scaledH, { kernel: 'nearest' })
     .toBuffer();
+
+  return rotation ? sharp(extracted).rotate(rotation).toBuffer() : extracted;
 }
 
 /**
@@ -83,46 +103,48 @@ async function buildSpriteCache(
 ): Promise<Map<string, Buffer>> {
   const cache = new Map<string, Buffer>();
 
-  // Find all unique asset IDs used in the map
-  const usedAssets = new Set<string>();
+  // Find all unique (asset ID, rotation) pairs used in the map
+  const usedAssets = new Map<string, { assetId: string; rotation: number }>();
 
-  for (const row of map.layers.ground) {
-    if (!row) continue;
-    for (const cell of row) {
-      if (cell?.assetId) usedAssets.add(cell.assetId);
-    }
-  }
-  for (const row of map.layers.objects) {
-    if (!row) continue;
-    for (const cell of row) {
-      if (cell?.assetId) usedAssets.add(cell.assetId);
+  for (const layer of [map.layers.ground, map.layers.objects]) {
+    for (const row of layer) {
+      if (!row) continue;
+      for (const cell of row) {
+        if (!cell?.assetId) continue;
+        const rotation = cell.rotation ?? 0;
+        usedAssets.set(spriteKey(cell.assetId, rotation), { assetId: cell.assetId, rotation });
+      }
     }
   }
 
   // Extract each used sprite
-  for (const assetId of usedAssets) {
+  for (const [key, { assetId, rotation }] of usedAssets) {
     const sprite = metadata.sprites.find(s => s.id === assetId);
     if (!sprite) {
       console.warn(`   Warning: Unknown asset ID "${assetId}" - skipping`);
       continue;
     }
-    const buffer = await extractSprite(spritesheetPath, sprite, metadata.tileSize, scale);
-    cache.set(assetId, buffer);
+    const buffer = await extractSprite(spritesheetPath, sprite, metadata.tileSize, scale, rotation);
+    cache.set(key, buffer);
   }
 
   return cache;
 }
 
+interface SpriteDraw {
+  assetId: string;
+  rotation: number;
+  footprint: Footprint;
+}
+
 /**
- * Process a map layer and build composite operations.
+ * Collect the sprites in a map layer with the cells they cover.
  */
-function processLayer(
+function collectDraws(
   layer: (MapCell | null)[][],
-  spriteCache: Map<string, Buffer>,
-  scaledTileSize: number
-): { composites: OverlayOptions[]; tilesRendered: number } {
-  const composites: OverlayOptions[] = [];
-  let tilesRendered = 0;
+  spriteById: Map<string, Sprite>
+): SpriteDraw[] {
+  const draws: SpriteDraw[] = [];
 
   for (let y = 0; y < layer.length; y++) {
     const row = layer[y];
@@ -132,16 +154,62 @@ function processLayer(
       const cell = row[x];
       if (!cell?.assetId) continue;
 
-      const spriteBuffer = spriteCache.get(cell.assetId);
-      if (!spriteBuffer) continue;
+      const sprite = spriteById.get(cell.assetId);
+      if (!sprite) continue;
+
+      draws.push({ assetId: cell.assetId, rotation: cell.rotation ?? 0, footprint: getFootprint(sprite, x, y) });
+    }
+  }
+
+  return draws;
+}
+
+/**
+ * Sort draws back-to-front: lower bottom edge first, then left to right.
+ */
+function sortByDepth(draws: SpriteDraw[]): SpriteDraw[] {
+  return [...draws].sort(
+    (a, b) => a.footprint.bottom - b.footprint.bottom || a.footprint.left - b.footprint.left
+  );
+}
+
+/**
+ * Build composite operations for a list of draws.
+ *
+ * Sprites whose footprint falls outside the canvas are skipped (Sharp
+ * rejects overlays that extend past the image edges).
+ */
+function buildComposites(
+  draws: SpriteDraw[],
+  spriteCache: Map<string, Buffer>,
+  scaledTileSize: number,
+  map: GameMap
+): { composites: OverlayOptions[]; tilesRendered: number } {
+  const composites: OverlayOptions[] = [];
+  let tilesRendered = 0;
+
+  for (const { assetId, rotation, footprint } of draws) {
+    const spriteBuffer = spriteCache.get(spriteKey(assetId, rotation));
+    if (!spriteBuffer) continue;
 
-      composites.push({
-        input: spriteBuffer,
-        left: x * scaledTileSize,
-        top: y * scaledTileSize,
-      });
-      tilesRendered++;
+    if (
+      footprint.left < 0 ||
+      footprint.top < 0 ||
+      footprint.right >= map.width ||
+      footprint.bottom >= map.height
+    ) {
+      console.warn(
+        `   Warning: "${assetId}" covers (${footprint.left}, ${footprint.top}) to (${footprint.right}, ${footprint.bottom}), outside the map - skipping`
+      );
+      continue;
     }
+
+    composites.push({
+      input: spriteBuffer,
+      left: footprint.left * scaledTileSize,
+      top: footprint.top * scaledTileSize,
+    });
+    tilesRendered++;
   }
 
   return { composites, tilesRendered };
@@ -185,12 +253,18 @@ export async function renderMap(
   const spriteCache = await buildSpriteCache(spritesheetPath, metadata, map, scale);
   console.log(`   Cached ${spriteCache.size} unique sprites`);
 
-  // Process requested layers
+  // Ground pass in map order, then objects depth-sorted by bottom edge
+  const spriteById = new Map(metadata.sprites.map(s => [s.id, s]));
   const ground = layers.includes('ground')
-    ? processLayer(map.layers.ground, spriteCache, scaledTileSize)
+    ? buildComposites(collectDraws(map.layers.ground, spriteById), spriteCache, scaledTileSize, map)
     : { composites: [], tilesRendered: 0 };
   const objects = layers.includes('objects')
-    ? processLayer(map.layers.objects, spriteCache, scaledTileSize)
+    ? buildComposites(
+        sortByDepth(collectDraws(map.layers.objects, spriteById)),
+        spriteCache,
+        scaledTileSize,
+        map
+      )
     : { composites: [], tilesRendered: 0 };
 
   // Combine: ground first (bottom), then objects (top)
@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest';
+import { GridState } from './grid-state';
+import {
+  findRoadTile,
+  getRoadConnectionsAt,
+  placeRoadTile,
+  roadsToASCII,
+  rotateDirections,
+  updateAdjacentRoad,
+} from './road-tiles';
+import { buildLayoutSlots } from '../designer/layout';
+import type { Direction, Sprite, SpritesheetMetadata } from '../types';
+
+// Every layout slot as a sprite named <row>_<col>
+const sprites: Sprite[] = buildLayoutSlots().map((slot) => ({
+  id: `${slot.row}_${slot.col}`,
+  category: slot.category,
+  col: slot.col,
+  row: slot.row,
+  w: slot.w,
+  h: slot.h,
+  description: slot.hint,
+  placement: slot.placement,
+  connectivity: slot.connectivity,
+}));
+const metadata: SpritesheetMetadata = { theme: 'test', tileSize: 256, columns: 16, rows: 16, sprites };
+
+const T_SOUTH = '0_7';
+// Sheet whose only T-junction is the south one
+const ONE_T = { ...metadata, sprites: sprites.filter((s) => !['0_8', '0_9', '0_10'].includes(s.id)) };
+
+function createGrid(meta = metadata): GridState {
+  const grid = new GridState(5, 5, meta);
+  for (let y = 0; y < 5; y++) {
+    for (let x = 0; x < 5; x++) {
+      grid.setTile(x, y, '1_0');
+    }
+  }
+  return grid;
+}
+
+function sorted(directions: Direction[]): Direction[] {
+  return [...directions].sort();
+}
+
+describe('findRoadTile', () => {
+  it('resolves every T-junction and dead end to its own sprite', () => {
+    const sets: Direction[][] = [
+      ['south', 'east', 'west'],
+      ['north', 'east', 'west'],
+      ['north', 'south', 'east'],
+      ['north', 'south', 'west'],
+      ['north'],
+      ['south'],
+      ['east'],
+      ['west'],
+    ];
+
+    for (const connections of sets) {
+      const tile = findRoadTile(createGrid(), connections);
+      expect(tile?.rotation).toBe(0);
+      expect(sorted(tile!.sprite.connectivity.connects)).toEqual(sorted(connections));
+    }
+  });
+
+  it('falls back to a rotated sprite when the sheet lacks a variant', () => {
+    const grid = createGrid(ONE_T);
+
+    expect(findRoadTile(grid, ['north', 'east', 'west'])).toMatchObject({ sprite: { id: T_SOUTH }, rotation: 180 });
+  });
+
+  it('never turns a sprite marked not rotatable', () => {
+    const fixed = { ...ONE_T, sprites: ONE_T.sprites.map((s) => (s.id === T_SOUTH ? { ...s, rotatable: false } : s)) };
+
+    expect(findRoadTile(createGrid(fixed), ['north', 'east', 'west'])).toBeUndefined();
+  });
+});
+
+describe('rotated road cells', () => {
+  it('connect where the rotation points', () => {
+    const grid = createGrid(ONE_T);
+    placeRoadTile(grid, 2, 2, findRoadTile(grid, ['north', 'east', 'west'])!);
+
+    expect(grid.getTile(2, 2)).toMatchObject({ assetId: T_SOUTH, rotation: 180 });
+    expect(sorted(getRoadConnectionsAt(grid, 2, 2))).toEqual(['east', 'north', 'west']);
+  });
+
+  it('upgrade from their rotated connections', () => {
+    const grid = createGrid(ONE_T);
+    placeRoadTile(grid, 2, 2, findRoadTile(grid, ['north', 'east', 'west'])!);
+
+    expect(updateAdjacentRoad(grid, 2, 2, 'south')).toBe(true);
+    expect(sorted(getRoadConnectionsAt(grid, 2, 2))).toEqual(['east', 'north', 'south', 'west']);
+    expect(grid.getTile(2, 2)?.rotation).toBeUndefined();
+  });
+
+  it('show their rotated shape in the roads view', () => {
+    const grid = createGrid(ONE_T);
+    placeRoadTile(grid, 2, 2, findRoadTile(grid, ['north', 'east', 'west'])!);
+
+    expect(roadsToASCII(grid).split('\n')[3]).toBe('2 ..┴..');
+  });
+
+  it('are rejected for sprites that may not rotate', () => {
+    const grid = createGrid();
+
+    expect(() => grid.setTile(2, 2, '1_0', 'ground', 90)).toThrow(/not rotatable/);
+    expect(() => grid.setTile(2, 2, '0_0', 'ground', 45)).toThrow(/Invalid rotation/);
+  });
+});
+
+describe('rotateDirections', () => {
+  it('turns clockwise in 90 degree steps', () => {
+    expect(rotateDirections(['north', 'east'], 90)).toEqual(['east', 'south']);
+    expect(rotateDirections(['north'], 270)).toEqual(['west']);
+    expect(rotateDirections(['west'], 0)).toEqual(['west']);
+  });
+});
@@ -0,0 +1,261 @@
+/**
+ * Road Tiles - Shared road sprite resolution
+ *
+ * One place that answers "which road sprite goes here": used by placeRoad,
+ * drawRoad, planRoads, connectRoads and the procedural planner so every
+ * tool picks, validates and upgrades road tiles the same way.
+ *
+ * Architecture Decision:
+ * - A road cell's connections are its sprite's `connects` turned by the
+ *   cell's `rotation` (clockwise degrees), so a rotated tile connects where
+ *   it visually points
+ * - Resolution prefers an exact sprite; only when the sheet has no variant
+ *   for a set of connections is a rotated sprite of the same shape used
+ *   (e.g. a single T-junction covering all four orientations). Sprites
+ *   marked `rotatable: false` are never turned (lib/rotation)
+ * - Dead ends resolve to cap sprites like any other connection set; the
+ *   layout has one cap per direction
+ * - The roads ASCII view draws connections, not sprite IDs, so rotated
+ *   tiles show the way they actually join
+ */
+
+import type { GridState } from './grid-state';
+import type { Direction, Sprite } from '../types';
+import { isRotatable, ROTATIONS } from './rotation';
+
+export const DIRECTION_OFFSETS: Record<Direction, { dx: number; dy: number }> = {
+  north: { dx: 0, dy: -1 },
+  south: { dx: 0, dy: 1 },
+  east: { dx: 1, dy: 0 },
+  west: { dx: -1, dy: 0 },
+};
+
+export const OPPOSITE_DIRECTION: Record<Direction, Direction> = {
+  north: 'south',
+  south: 'north',
+  east: 'west',
+  west: 'east',
+};
+
+/** All four directions, in DIRECTION_OFFSETS order */
+export const DIRECTIONS = Object.keys(DIRECTION_OFFSETS) as Direction[];
+
+/** Clockwise order, so rotating by 90° moves one step along it */
+const CLOCKWISE: Direction[] = ['north', 'east', 'south', 'west'];
+
+type Point = { x: number; y: number };
+
+/** A road sprite and the rotation it is placed with */
+export interface RoadTile {
+  sprite: Sprite;
+  rotation: number;
+}
+
+// ─────────────────────────────────────────────────────────────────
+// Connections
+// ─────────────────────────────────────────────────────────────────
+
+/**
+ * Check if a sprite is a road sprite: ground with path-like connectivity
+ * (walls share the connectivity types but are not roads).
+ */
+export function isRoadSprite(sprite: Sprite | undefined): boolean {
+  if (!sprite || sprite.category !== 'ground') return false;
+  const type = sprite.connectivity?.type;
+  return type === 'path' || type === 'corner' || type === 'intersection' || type === 'cap';
+}
+
+/**
+ * Turn directions clockwise by `rotation` degrees (multiples of 90).
+ */
+export function rotateDirections(directions: Direction[], rotation = 0): Direction[] {
+  const steps = (((Math.round(rotation / 90) % 4) + 4) % 4);
+  return directions.map((d) => CLOCKWISE[(CLOCKWISE.indexOf(d) + steps) % 4]!);
+}
+
+function sameDirections(a: Direction[], b: Direction[]): boolean {
+  return a.length === b.length && b.every((d) => a.includes(d));
+}
+
+/**
+ * Connections of the road at (x, y) as placed (rotation applied), or an
+ * empty list if the cell is not a road.
+ */
+export function getRoadConnectionsAt(grid: GridState, x: number, y: number): Direction[] {
+  const tile = grid.getTile(x, y, 'ground');
+  const sprite = tile ? grid.getSprite(tile.assetId) : undefined;
+  if (!tile || !sprite || !isRoadSprite(sprite)) return [];
+  return rotateDirections(sprite.connectivity.connects, tile.rotation);
+}
+
+/**
+ * Get the direction from one point to an adjacent point.
+ */
+export function getDirectionBetween(from: Point, to: Point): Direction | null {
+  const dx = to.x - from.x;
+  const dy = to.y - from.y;
+
+  if (dx === 1 && dy === 0) return 'east';
+  if (dx === -1 && dy === 0) return 'west';
+  if (dx === 0 && dy === 1) return 'south';
+  if (dx === 0 && dy === -1) return 'north';
+
+  return null;
+}
+
+/**
+ * Determine needed connections for a path point based on path neighbors.
+ */
+export function getPathConnections(path: Point[], index: number): Direction[] {
+  const connections: Direction[] = [];
+  const current = path[index];
+  if (!current) return connections;
+
+  for (const neighbor of [path[index - 1], path[index + 1]]) {
+    if (!neighbor) continue;
+    const dir = getDirectionBetween(current, neighbor);
+    if (dir) connections.push(dir);
+  }
+
+  return connections;
+}
+
+/**
+ * Adjacent roads that connect toward (x, y), with the direction they lie in.
+ */
+export function getNeighborRoads(grid: GridState, x: number, y: number): Array<{ direction: Direction; assetId: string }> {
+  const neighbors: Array<{ direction: Direction; assetId: string }> = [];
+
+  for (const [dir, offset] of Object.entries(DIRECTION_OFFSETS) as [Direction, { dx: number; dy: number }][]) {
+    const nx = x + offset.dx;
+    const ny = y + offset.dy;
+    if (nx < 0 || nx >= grid.width || ny < 0 || ny >= grid.height) continue;
+
+    if (getRoadConnectionsAt(grid, nx, ny).includes(OPPOSITE_DIRECTION[dir])) {
+      neighbors.push({ direction: dir, assetId: grid.getTile(nx, ny, 'ground')!.assetId });
+    }
+  }
+
+  return neighbors;
+}
+
+/**
+ * Get connections needed from adjacent existing roads.
+ */
+export function getAdjacentRoadConnections(grid: GridState, x: number, y: number): Direction[] {
+  return getNeighborRoads(grid, x, y).map((n) => n.direction);
+}
+
+// ─────────────────────────────────────────────────────────────────
+// Resolution
+// ─────────────────────────────────────────────────────────────────
+
+/**
+ * Every road tile that fits a set of connections: the exact sprites, or
+ * if the sheet has none, each rotatable sprite of the same shape, turned.
+ */
+export function findRoadTiles(grid: GridState, connections: Direction[]): RoadTile[] {
+  const roadSprites = grid.getRoadSprites();
+
+  const exact = roadSprites.filter((s) => sameDirections(s.connectivity.connects, connections));
+  if (exact.length > 0) {
+    return exact.map((sprite) => ({ sprite, rotation: 0 }));
+  }
+
+  const rotatable = roadSprites.filter(isRotatable);
+  return ROTATIONS.flatMap((rotation) =>
+    rotation === 0
+      ? []
+      : rotatable
+          .filter((s) => sameDirections(rotateDirections(s.connectivity.connects, rotation), connections))
+          .map((sprite) => ({ sprite, rotation }))
+  );
+}
+
+/**
+ * Find the road tile for a set of connections: an exact sprite, else a
+ * rotatable sprite of the same shape, turned.
+ */
+export function findRoadTile(grid: GridState, connections: Direction[]): RoadTile | undefined {
+  return findRoadTiles(grid, connections)[0];
+}
+
+/**
+ * Put a resolved road tile on the ground layer.
+ */
+export function placeRoadTile(grid: GridState, x: number, y: number, tile: RoadTile): void {
+  grid.setTile(x, y, tile.sprite.id, 'ground', tile.rotation);
+}
+
+/**
+ * Update an adjacent road tile to include a new connection.
+ * Called when a new road creates a T-junction or intersection.
+ */
+export function updateAdjacentRoad(grid: GridState, x: number, y: number, newConnection: Direction): boolean {
+  const current = getRoadConnectionsAt(grid, x, y);
+  if (current.length === 0 || current.includes(newConnection)) return false;
+
+  const tile = findRoadTile(grid, [...current, newConnection]);
+  if (!tile) return false;
+
+  placeRoadTile(grid, x, y, tile);
+  return true;
+}
+
+/**
+ * Update all adjacent roads when a new road tile is placed.
+ */
+export function updateAdjacentRoads(grid: GridState, x: number, y: number, placedConnections: Direction[]): number {
+  let updated = 0;
+
+  for (const dir of placedConnections) {
+    const offset = DIRECTION_OFFSETS[dir];
+    const nx = x + offset.dx;
+    const ny = y + offset.dy;
+    if (nx < 0 || nx >= grid.width || ny < 0 || ny >= grid.height) continue;
+
+    if (updateAdjacentRoad(grid, nx, ny, OPPOSITE_DIRECTION[dir])) {
+      updated++;
+    }
+  }
+
+  return updated;
+}
+
+// ─────────────────────────────────────────────────────────────────
+// ASCII View
+// ─────────────────────────────────────────────────────────────────
+
+/** Box-drawing glyph per connection set, keyed by sorted directions */
+const ROAD_GLYPHS: Record<string, string> = {
+  north: '╵',
+  south: '╷',
+  east: '╶',
+  west: '╴',
+  'north,south': '│',
+  'east,west': '─',
+  'east,south': '┌',
+  'south,west': '┐',
+  'east,north': '└',
+  'north,west': '┘',
+  'east,north,south': '├',
+  'north,south,west': '┤',
+  'east,south,west': '┬',
+  'east,north,west': '┴',
+  'east,north,south,west': '┼',
+};
+
+/**
+ * Road network drawn from each cell's connections as placed (rotation
+ * applied), so the model can see how roads actually join.
+ */
+export function roadsToASCII(grid: GridState): string {
+  const lines = grid.toGlyphGrid((x, y) => {
+    if (!grid.isRoadAt(x, y)) return grid.getTile(x, y, 'ground') ? '.' : ' ';
+    return ROAD_GLYPHS[[...getRoadConnectionsAt(grid, x, y)].sort().join(',')] ?? 'R';
+  });
+
+  lines.push('');
+  lines.push('Legend: lines show how each road tile connects, .=ground, blank=empty');
+  return lines.join('\n');
+}
@@ -0,0 +1,69 @@
+import type { Sprite } from '../types';
+import { isRoadSprite } from './road-tiles';
+
+/**
+ * Sprite Rotation - Which sprites may be turned, and how a turn is encoded
+ *
+ * Architecture Decision:
+ * - MapCell.rotation is clockwise degrees in 90° steps; 0 is the sprite as
+ *   drawn on the sheet
+ * - Rotation is opt-in per sprite via Sprite.rotatable. Roads default to
+ *   rotatable (top-down paving has no light direction); everything else
+ *   defaults to fixed, since baked-in shadows would point the wrong way
+ * - Only single-tile sprites rotate, so a rotated cell never changes its
+ *   footprint and renderer/exporters can treat it as a per-cell transform
+ * - Tile editors express rotation as flips plus a diagonal flip (x/y
+ *   swap, applied first); one table here keeps Tiled and Godot in step
+ */
+
+export const ROTATIONS = [0, 90, 180, 270] as const;
+
+export type Rotation = (typeof ROTATIONS)[number];
+
+/** Flip flags equivalent to a clockwise rotation (diagonal applied first) */
+export interface RotationFlips {
+  flipH: boolean;
+  flipV: boolean;
+  flipD: boolean;
+}
+
+const FLIPS_BY_ROTATION: Record<Rotation, RotationFlips> = {
+  0: { flipH: false, flipV: false, flipD: false },
+  90: { flipH: true, flipV: false, flipD: true },
+  180: { flipH: true, flipV: true, flipD: false },
+  270: { flipH: false, flipV: true, flipD: true },
+};
+
+/**
+ * Whether a sprite may be placed rotated. Uses Sprite.rotatable when set,
+ * otherwise only road sprites rotate.
+ */
+export function isRotatable(sprite: Sprite): boolean {
+  if (sprite.rotatable !== undefined) return sprite.rotatable;
+  return isRoadSprite(sprite);
+}
+
+/**
+ * Check that `sprite` can be placed with `rotation`.
+ * Returns an error message, or null if the rotation is valid.
+ */
+export function checkRotation(sprite: Sprite, rotation: number): string | null {
+  if (!ROTATIONS.includes(rotation as Rotation)) {
+    return `Invalid rotation ${rotation} for ${sprite.id}. Use 0, 90, 180 or 270.`;
+  }
+  if (rotation === 0) return null;
+  if (!isRotatable(sprite)) {
+    return `${sprite.id} is not rotatable (set "rotatable": true in its metadata to allow it).`;
+  }
+  if (sprite.w > 1 || sprite.h > 1) {
+    return `${sprite.id} (${sprite.w}x${sprite.h}) cannot be rotated: only single-tile sprites rotate.`;
+  }
+  return null;
+}
+
+/**
+ * Flip flags that reproduce a clockwise rotation.
+ */
+export function getRotationFlips(rotation = 0): RotationFlips {
+  return FLIPS_BY_ROTATION[rotation as Rotation] ?? FLIPS_BY_ROTATION[0];
+}
@@ -0,0 +1,131 @@
+import { readFileSync } from 'fs';
+import { describe, expect, it } from 'vitest';
+import { GridState } from './grid-state';
+import { wrapShoreline } from './shoreline';
+import { wfcFill } from './wfc';
+import { buildLayoutSlots } from '../designer/layout';
+import { SpritesheetMetadataSchema, type Sprite } from '../types';
+
+const example = SpritesheetMetadataSchema.parse(
+  JSON.parse(readFileSync('examples/medieval-village/spritesheet-metadata.json', 'utf-8'))
+);
+
+// Example sheet plus the layout's shoreline row, named shore_<col>
+const shorelineSprites: Sprite[] = buildLayoutSlots()
+  .filter((slot) => slot.connectivity.type === 'edge')
+  .map((slot) => ({
+    id: `shore_${slot.col}`,
+    category: slot.category,
+    col: slot.col,
+    row: slot.row,
+    w: slot.w,
+    h: slot.h,
+    description: slot.hint,
+    placement: slot.placement,
+    connectivity: slot.connectivity,
+  }));
+const metadata = { ...example, sprites: [...example.sprites, ...shorelineSprites] };
+
+const GRASS = 'wildflower_grass_patch';
+const WATER = 'clear_stream_bed';
+
+function createGrid(water: Array<[number, number, number, number]>): GridState {
+  const grid = new GridState(10, 10, metadata);
+  for (let y = 0; y < 10; y++) {
+    for (let x = 0; x < 10; x++) {
+      const wet = water.some(([x1, y1, x2, y2]) => x >= x1 && x <= x2 && y >= y1 && y <= y2);
+      grid.setTile(x, y, wet ? WATER : GRASS);
+    }
+  }
+  return grid;
+}
+
+function groundAt(grid: GridState, x: number, y: number): string | undefined {
+  return grid.getTile(x, y, 'ground')?.assetId;
+}
+
+describe('wrapShoreline', () => {
+  it('wraps a rectangular lake with straights and outer corners', () => {
+    const grid = createGrid([[3, 3, 6, 6]]);
+
+    const result = wrapShoreline(grid, { x1: 3, y1: 3, x2: 6, y2: 6 }, WATER);
+
+    expect(result.unresolved).toEqual([]);
+    expect(result.placed).toHaveLength(12);
+    expect(groundAt(grid, 3, 3)).toBe('shore_4'); // bank north + west
+    expect(groundAt(grid, 6, 3)).toBe('shore_5'); // bank north + east
+    expect(groundAt(grid, 3, 6)).toBe('shore_6'); // bank south + west
+    expect(groundAt(grid, 6, 6)).toBe('shore_7'); // bank south + east
+    expect(groundAt(grid, 4, 3)).toBe('shore_0'); // bank north
+    expect(groundAt(grid, 4, 6)).toBe('shore_1'); // bank south
+    expect(groundAt(grid, 6, 4)).toBe('shore_2'); // bank east
+    expect(groundAt(grid, 3, 4)).toBe('shore_3'); // bank west
+    expect(groundAt(grid, 4, 4)).toBe(WATER);
+  });
+
+  it('uses inner corners where land cuts into the lake diagonally', () => {
+    // L-shaped lake: 6x6 square with its north-west 3x3 quarter dry
+    const grid = createGrid([
+      [5, 2, 7, 7],
+      [2, 5, 4, 7],
+    ]);
+
+    const result = wrapShoreline(grid, { x1: 2, y1: 2, x2: 7, y2: 7 }, WATER);
+
+    expect(result.unresolved).toEqual([]);
+    expect(groundAt(grid, 5, 5)).toBe('shore_8'); // bank in north-west corner only
+  });
+
+  it('treats the map edge as water and reports strips one tile wide', () => {
+    const grid = createGrid([
+      [0, 0, 2, 2],
+      [5, 0, 5, 9],
+    ]);
+
+    const result = wrapShoreline(grid, { x1: 0, y1: 0, x2: 9, y2: 9 }, WATER);
+
+    expect(groundAt(grid, 0, 0)).toBe(WATER);
+    expect(groundAt(grid, 2, 2)).toBe('shore_7');
+    expect(result.unresolved.map((c) => `${c.x},${c.y}`)).toContain('5,4');
+    expect(groundAt(grid, 5, 4)).toBe(WATER);
+  });
+
+  it('re-derives existing shoreline tiles when wrapped again', () => {
+    const grid = createGrid([[3, 3, 6, 6]]);
+    wrapShoreline(grid, { x1: 3, y1: 3, x2: 6, y2: 6 }, WATER);
+    const before = grid.toJSON();
+
+    const result = wrapShoreline(grid, { x1: 3, y1: 3, x2: 6, y2: 6 }, WATER);
+
+    expect(result.placed).toEqual([]);
+    expect(grid.toJSON()).toEqual(before);
+  });
+});
+
+describe('wfcFill shorelines', () => {
+  it('only puts banks on the border of hazard regions', () => {
+    const offsets = { north: [0, -1], south: [0, 1], east: [1, 0], west: [-1, 0] } as const;
+    const spriteById = new Map(metadata.sprites.map((s) => [s.id, s]));
+    const isHazard = (grid: GridState, x: number, y: number) => {
+      const id = groundAt(grid, x, y);
+      return id === undefined || spriteById.get(id)?.placement.walkable === false;
+    };
+
+    for (const seed of [1, 2, 3]) {
+      const grid = new GridState(12, 12, metadata);
+      const result = wfcFill(grid, { seed });
+
+      let banks = 0;
+      for (let y = 0; y < 12; y++) {
+        for (let x = 0; x < 12; x++) {
+          const side = spriteById.get(groundAt(grid, x, y)!)?.connectivity.contentSide;
+          if (!side) continue;
+          banks++;
+          const [dx, dy] = offsets[side];
+          expect(isHazard(grid, x + dx, y + dy)).toBe(true);
+        }
+      }
+      expect(banks).toBe(result.shorelineTiles);
+    }
+  });
+});
@@ -0,0 +1,193 @@
+/**
+ * Shoreline Autotiling - Wraps hazard ground (water, lava) in edge tiles
+ *
+ * A hazard region is painted as plain hazard ground first; this pass then
+ * swaps every border cell of the region for the shoreline sprite whose
+ * bank faces the neighbouring land.
+ *
+ * Architecture Decision:
+ * - Shoreline tiles are hazard cells (non-walkable), so wrapping never
+ *   changes where the land is, only how the border looks
+ * - Orientation lives in the sprite's connectivity (type 'edge'):
+ *   - contentSide: side of the tile the hazard lies on (corners: the
+ *     north/south one)
+ *   - connects: directions the shoreline continues into the next edge tile
+ *   This keeps the twelve tiles distinct. WFC does not place them: it
+ *   solves plain hazard and runs this pass on the result
+ * - Orthogonal land decides straights and outer corners; diagonal land only
+ *   matters for inner corners. Cells with land on opposite sides (strips
+ *   one tile wide) have no matching tile and are left as they are
+ * - Off-map neighbours count as hazard, so lakes may run off the map
+ */
+
+import type { GridState } from './grid-state';
+import type { Direction, Sprite } from '../types';
+import { DIRECTION_OFFSETS, DIRECTIONS, OPPOSITE_DIRECTION } from './road-tiles';
+
+/** Diagonal neighbours as their vertical + horizontal parts */
+const DIAGONALS: Array<{ vertical: Direction; horizontal: Direction }> = [
+  { vertical: 'north', horizontal: 'west' },
+  { vertical: 'north', horizontal: 'east' },
+  { vertical: 'south', horizontal: 'west' },
+  { vertical: 'south', horizontal: 'east' },
+];
+
+export interface ShorelineOrientation {
+  connects: Direction[];
+  contentSide: Direction;
+}
+
+export interface ShorelineResult {
+  /** Cells swapped for a shoreline sprite */
+  placed: Array<{ x: number; y: number; assetId: string }>;
+  /** Border cells no shoreline tile fits (land on opposite sides, or a missing sprite) */
+  unresolved: Array<{ x: number; y: number; reason: string }>;
+}
+
+/**
+ * Shoreline sprites: non-walkable ground tiles with edge connectivity.
+ */
+export function getShorelineSprites(grid: GridState): Sprite[] {
+  return grid
+    .getSpritesByConnectivity('edge')
+    .filter((s) => s.category === 'ground' && !s.placement.walkable && s.connectivity.contentSide);
+}
+
+/**
+ * Orientation of the shoreline tile for a hazard cell, given which
+ * neighbours are land. Returns null for interior cells, and a reason when
+ * no tile can fit the cell.
+ */
+export function getShorelineOrientation(
+  landSides: Direction[],
+  landDiagonals: Array<{ vertical: Direction; horizontal: Direction }>
+): ShorelineOrientation | { reason: string } | null {
+  if (landSides.length === 1) {
+    // Straight: bank on one side, shoreline runs across it
+    const bank = landSides[0]!;
+    return {
+      connects: DIRECTIONS.filter((d) => d !== bank && d !== OPPOSITE_DIRECTION[bank]),
+      contentSide: OPPOSITE_DIRECTION[bank],
+    };
+  }
+
+  if (landSides.length === 2) {
+    const vertical = landSides.find((d) => d === 'north' || d === 'south');
+    const horizontal = landSides.find((d) => d === 'east' || d === 'west');
+    if (!vertical || !horizontal) {
+      return { reason: 'land on opposite sides (strip one tile wide)' };
+    }
+    // Outer corner: shoreline continues away from both banks
+    return {
+      connects: [OPPOSITE_DIRECTION[vertical], OPPOSITE_DIRECTION[horizontal]],
+      contentSide: OPPOSITE_DIRECTION[vertical],
+    };
+  }
+
+  if (landSides.length > 2) {
+    return { reason: `land on ${landSides.length} sides` };
+  }
+
+  if (landDiagonals.length === 1) {
+    // Inner corner: land only at one diagonal, shoreline continues toward it
+    const { vertical, horizontal } = landDiagonals[0]!;
+    return { connects: [vertical, horizontal], contentSide: OPPOSITE_DIRECTION[vertical] };
+  }
+
+  if (landDiagonals.length > 1) {
+    return { reason: `land at ${landDiagonals.length} diagonals` };
+  }
+
+  return null;
+}
+
+/**
+ * Find the shoreline sprite for an orientation.
+ */
+export function findShorelineSprite(sprites: Sprite[], orientation: ShorelineOrientation): Sprite | undefined {
+  return sprites.find((s) => {
+    const connects = s.connectivity.connects;
+    return (
+      s.connectivity.contentSide === orientation.contentSide &&
+      connects.length === orientation.connects.length &&
+      orientation.connects.every((d) => connects.includes(d))
+    );
+  });
+}
+
+/**
+ * Wrap the hazard cells inside a region with shoreline tiles.
+ *
+ * A cell counts as hazard when its ground is `hazardId` or already a
+ * shoreline tile, so wrapping the same region twice changes nothing.
+ *
+ * @param grid - Grid to update in place
+ * @param region - Inclusive bounds to wrap (clamped to the map)
+ * @param hazardId - Hazard ground sprite the region was filled with
+ */
+export function wrapShoreline(
+  grid: GridState,
+  region: { x1: number; y1: number; x2: number; y2: number },
+  hazardId: string
+): ShorelineResult {
+  const sprites = getShorelineSprites(grid);
+  const shorelineIds = new Set(sprites.map((s) => s.id));
+
+  const isHazard = (x: number, y: number): boolean => {
+    if (x < 0 || x >= grid.width || y < 0 || y >= grid.height) return true;
+    const tile = grid.getTile(x, y, 'ground');
+    return tile !== null && (tile.assetId === hazardId || shorelineIds.has(tile.assetId));
+  };
+
+  const minX = Math.max(0, Math.min(region.x1, region.x2));
+  const maxX = Math.min(grid.width - 1, Math.max(region.x1, region.x2));
+  const minY = Math.max(0, Math.min(region.y1, region.y2));
+  const maxY = Math.min(grid.height - 1, Math.max(region.y1, region.y2));
+
+  // Decide every cell from the layout before changing any
+  const changes: ShorelineResult['placed'] = [];
+  const unresolved: ShorelineResult['unresolved'] = [];
+  for (let y = minY; y <= maxY; y++) {
+    for (let x = minX; x <= maxX; x++) {
+      if (!isHazard(x, y)) continue;
+
+      const landSides = DIRECTIONS.filter((d) => !isHazard(x + DIRECTION_OFFSETS[d].dx, y + DIRECTION_OFFSETS[d].dy));
+      const landDiagonals = DIAGONALS.filter(
+        ({ vertical, horizontal }) =>
+          !isHazard(x + DIRECTION_OFFSETS[horizontal].dx, y + DIRECTION_OFFSETS[vertical].dy)
+      );
+
+      const orientation = getShorelineOrientation(landSides, landDiagonals);
+      if (!orientation) {
+        // Interior cells go back to plain hazard (e.g. after a region grew)
+        if (grid.getTile(x, y, 'ground')?.assetId !== hazardId) {
+          changes.push({ x, y, assetId: hazardId });
+        }
+        continue;
+      }
+      if ('reason' in orientation) {
+        unresolved.push({ x, y, reason: orientation.reason });
+        continue;
+      }
+
+      const sprite = findShorelineSprite(sprites, orientation);
+      if (!sprite) {
+        unresolved.push({
+          x,
+          y,
+          reason: `no shoreline sprite for ${orientation.contentSide} content connecting [${orientation.connects.join(', ')}]`,
+        });
+        continue;
+      }
+      if (grid.getTile(x, y, 'ground')?.assetId !== sprite.id) {
+        changes.push({ x, y, assetId: sprite.id });
+      }
+    }
+  }
+
+  for (const { x, y, assetId } of changes) {
+    grid.setTile(x, y, assetId, 'ground');
+  }
+
+  return { placed: changes.filter((c) => c.assetId !== hazardId), unresolved };
+}
@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import { GridState } from './grid-state';
+import { resolveTerrainTransitions } from './terrain-transitions';
+import { buildLayoutSlots } from '../designer/layout';
+import type { Sprite, SpritesheetMetadata } from '../types';
+
+// Every layout slot as a sprite named <row>_<col>
+const sprites: Sprite[] = buildLayoutSlots().map((slot) => ({
+  id: `${slot.row}_${slot.col}`,
+  category: slot.category,
+  col: slot.col,
+  row: slot.row,
+  w: slot.w,
+  h: slot.h,
+  description: slot.hint,
+  placement: slot.placement,
+  connectivity: slot.connectivity,
+  terrain: slot.terrain,
+}));
+const metadata: SpritesheetMetadata = { theme: 'test', tileSize: 256, columns: 16, rows: 16, sprites };
+
+const PRIMARY = '1_0';
+const SECONDARY = '1_1';
+const ROAD = '0_0';
+
+/** Id of the transition tile with secondary at exactly these corners */
+function transition(...corners: Array<'nw' | 'ne' | 'se' | 'sw'>): string {
+  return sprites.find(
+    (s) =>
+      s.terrain &&
+      (['nw', 'ne', 'se', 'sw'] as const).every(
+        (c) => (s.terrain![c] === 'secondary') === corners.includes(c)
+      )
+  )!.id;
+}
+
+function createGrid(meta = metadata): GridState {
+  const grid = new GridState(6, 6, meta);
+  for (let y = 0; y < 6; y++) {
+    for (let x = 0; x < 6; x++) {
+      grid.setTile(x, y, x >= 2 && x <= 3 && y >= 2 && y <= 3 ? SECONDARY : PRIMARY);
+    }
+  }
+  return grid;
+}
+
+function groundAt(grid: GridState, x: number, y: number): string | undefined {
+  return grid.getTile(x, y, 'ground')?.assetId;
+}
+
+describe('resolveTerrainTransitions', () => {
+  it('blends the ring of primary cells around a secondary patch', () => {
+    const grid = createGrid();
+
+    const result = resolveTerrainTransitions(grid);
+
+    expect(result.changed).toHaveLength(12);
+    expect(result.missing).toEqual([]);
+    expect(groundAt(grid, 1, 1)).toBe(transition('se'));
+    expect(groundAt(grid, 2, 1)).toBe(transition('sw', 'se'));
+    expect(groundAt(grid, 4, 2)).toBe(transition('nw', 'sw'));
+    expect(groundAt(grid, 4, 4)).toBe(transition('nw'));
+    expect(groundAt(grid, 2, 2)).toBe(SECONDARY);
+    expect(groundAt(grid, 0, 0)).toBe(PRIMARY);
+  });
+
+  it('changes nothing when run again', () => {
+    const grid = createGrid();
+    resolveTerrainTransitions(grid);
+    const before = grid.toJSON();
+
+    const result = resolveTerrainTransitions(grid);
+
+    expect(result.changed).toEqual([]);
+    expect(grid.toJSON()).toEqual(before);
+  });
+
+  it('leaves ground outside the terrain set alone', () => {
+    const grid = createGrid();
+    grid.setTile(1, 2, ROAD);
+
+    resolveTerrainTransitions(grid);
+
+    expect(groundAt(grid, 1, 2)).toBe(ROAD);
+    expect(groundAt(grid, 0, 2)).toBe(PRIMARY);
+  });
+
+  it('falls back to the plain tile when a corner mix has no sprite', () => {
+    const missing = transition('se');
+    const grid = createGrid({ ...metadata, sprites: sprites.filter((s) => s.id !== missing) });
+
+    const result = resolveTerrainTransitions(grid);
+
+    expect(groundAt(grid, 1, 1)).toBe(PRIMARY);
+    expect(result.missing).toEqual([
+      { x: 1, y: 1, corners: { nw: 'primary', ne: 'primary', se: 'secondary', sw: 'primary' } },
+    ]);
+  });
+});
@@ -0,0 +1,151 @@
+/**
+ * Terrain Transitions - Corner-Wang blending between two ground surfaces
+ *
+ * fillGround paints hard rectangles, so two surfaces meet in a razor-straight
+ * seam. This post-process swaps cells along the seam for transition tiles
+ * whose corners show the right surface, so zones blend into each other.
+ *
+ * Architecture Decision:
+ * - Membership lives in sprite metadata (`terrain: { nw, ne, se, sw }`):
+ *   plain surface tiles have one terrain at all four corners, transition
+ *   tiles mix two. Sprites without `terrain` (roads, hazards, other ground)
+ *   are never touched and never influence a corner
+ * - Corners are map VERTICES shared by up to four cells. A vertex shows the
+ *   overlay terrain if any cell around it is overlay, so the overlay spreads
+ *   half a tile into its neighbours and overlay cells keep their plain tile
+ * - The overlay is the second terrain with a plain tile in metadata order
+ *   (the layout's secondary surface); transition cells count as the base
+ *   terrain, so running the pass again changes nothing
+ * - A missing transition sprite falls back to the plain base tile and is
+ *   reported, never thrown
+ */
+
+import type { GridState } from './grid-state';
+import type { Sprite, TerrainCorners } from '../types';
+
+const CORNERS = ['nw', 'ne', 'se', 'sw'] as const;
+
+/** Vertex offsets from a cell's top-left vertex, per corner */
+const CORNER_OFFSETS: Record<(typeof CORNERS)[number], { dx: number; dy: number }> = {
+  nw: { dx: 0, dy: 0 },
+  ne: { dx: 1, dy: 0 },
+  se: { dx: 1, dy: 1 },
+  sw: { dx: 0, dy: 1 },
+};
+
+export interface TransitionResult {
+  /** Cells swapped for a different terrain tile */
+  changed: Array<{ x: number; y: number; from: string; to: string }>;
+  /** Corner mixes the spritesheet has no tile for (plain base tile used instead) */
+  missing: Array<{ x: number; y: number; corners: TerrainCorners }>;
+}
+
+/**
+ * Whether a sprite is a transition tile (its corners show two terrains).
+ * Planner fills and WFC skip these: only this pass places them.
+ */
+export function isTransitionSprite(sprite: Sprite): boolean {
+  const terrain = sprite.terrain;
+  return !!terrain && CORNERS.some((corner) => terrain[corner] !== terrain.nw);
+}
+
+/**
+ * Terrain of a plain terrain tile, or undefined for any other sprite.
+ */
+function getPlainTerrain(sprite: Sprite): string | undefined {
+  return sprite.terrain && !isTransitionSprite(sprite) ? sprite.terrain.nw : undefined;
+}
+
+function sameCorners(a: TerrainCorners, b: TerrainCorners): boolean {
+  return CORNERS.every((corner) => a[corner] === b[corner]);
+}
+
+/**
+ * Replace the ground along every seam between the two transition terrains
+ * with the matching corner-Wang tile.
+ *
+ * @param grid - Grid to update in place
+ * @param verbose - Log every swapped cell
+ * @returns Cells changed and corner mixes without a tile
+ */
+export function resolveTerrainTransitions(grid: GridState, verbose = false): TransitionResult {
+  const result: TransitionResult = { changed: [], missing: [] };
+  const terrainSprites = grid.metadata.sprites.filter(
+    (s) => s.terrain && s.category === 'ground' && s.w === 1 && s.h === 1
+  );
+  const transitions = terrainSprites.filter(isTransitionSprite);
+  if (transitions.length === 0) {
+    return result;
+  }
+
+  // Plain tile per terrain, in metadata order: [base, overlay]
+  const plainTiles = new Map<string, Sprite>();
+  for (const sprite of terrainSprites) {
+    const terrain = getPlainTerrain(sprite);
+    if (terrain && !plainTiles.has(terrain)) plainTiles.set(terrain, sprite);
+  }
+  const [base, overlay] = [...plainTiles.keys()];
+  if (!base || !overlay) {
+    return result;
+  }
+
+  // Terrain each cell belongs to (transition tiles sit on base cells)
+  const cellTerrain = (x: number, y: number): string | undefined => {
+    const tile = grid.getTile(x, y, 'ground');
+    const sprite = tile ? grid.getSprite(tile.assetId) : undefined;
+    if (!sprite?.terrain) return undefined;
+    if (isTransitionSprite(sprite)) return base;
+    const terrain = getPlainTerrain(sprite);
+    return terrain === base || terrain === overlay ? terrain : undefined;
+  };
+
+  const vertexTerrain = (vx: number, vy: number): string =>
+    [
+      [vx - 1, vy - 1],
+      [vx, vy - 1],
+      [vx - 1, vy],
+      [vx, vy],
+    ].some(([x, y]) => cellTerrain(x!, y!) === overlay)
+      ? overlay
+      : base;
+
+  // Decide every cell from the current layout before changing any
+  const changes: Array<{ x: number; y: number; from: string; to: Sprite }> = [];
+  for (let y = 0; y < grid.height; y++) {
+    for (let x = 0; x < grid.width; x++) {
+      if (cellTerrain(x, y) !== base) continue;
+
+      const corners = Object.fromEntries(
+        CORNERS.map((corner) => [corner, vertexTerrain(x + CORNER_OFFSETS[corner].dx, y + CORNER_OFFSETS[corner].dy)])
+      ) as TerrainCorners;
+
+      let target = terrainSprites.find((s) => sameCorners(s.terrain!, corners));
+      if (!target) {
+        result.missing.push({ x, y, corners });
+        target = plainTiles.get(base)!;
+      }
+
+      const current = grid.getTile(x, y, 'ground')!.assetId;
+      if (current !== target.id) {
+        changes.push({ x, y, from: current, to: target });
+      }
+    }
+  }
+
+  for (const { x, y, from, to } of changes) {
+    grid.setTile(x, y, to.id, 'ground');
+    result.changed.push({ x, y, from, to: to.id });
+    if (verbose) {
+      console.log(`[Transitions] (${x}, ${y}): ${from} → ${to.id}`);
+    }
+  }
+
+  if (result.changed.length > 0 || result.missing.length > 0) {
+    console.log(
+      `[Transitions] ${result.changed.length} cell(s) blended between ${plainTiles.get(base)!.id} and ${plainTiles.get(overlay)!.id}` +
+        (result.missing.length > 0 ? `, ${result.missing.length} without a matching tile` : '')
+    );
+  }
+
+  return result;
+}
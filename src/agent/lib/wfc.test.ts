@@ -0,0 +1,166 @@
+import { readFileSync } from 'fs';
+import { beforeAll, describe, expect, it } from 'vitest';
+import { GridState } from './grid-state';
+import { loadLayoutTemplate } from '../designer/layout-template';
+import { evaluateMapQuality } from './map-quality';
+import { getRoadConnectionsAt } from './road-tiles';
+import { getSpriteSignature, learnAdjacency, wfcFill } from './wfc';
+import { SpritesheetMetadataSchema, type GameMap, type Sprite, type SpritesheetMetadata } from '../types';
+
+const metadata = SpritesheetMetadataSchema.parse(
+  JSON.parse(readFileSync('examples/medieval-village/spritesheet-metadata.json', 'utf-8'))
+);
+
+const GRASS = 'wildflower_grass_patch';
+const ROAD_EW = 'cobblestone_road_horizontal';
+
+function spriteById(id: string) {
+  return metadata.sprites.find((s) => s.id === id)!;
+}
+
+// The harbour layout has one road sprite per shape and relies on rotation
+let harbour: SpritesheetMetadata;
+
+beforeAll(async () => {
+  const { slots } = await loadLayoutTemplate('examples/layouts/harbour.json');
+  const sprites: Sprite[] = slots.map((slot) => ({
+    id: `${slot.row}_${slot.col}`,
+    category: slot.category,
+    col: slot.col,
+    row: slot.row,
+    w: slot.w,
+    h: slot.h,
+    description: slot.hint,
+    placement: slot.placement,
+    connectivity: slot.connectivity,
+  }));
+  harbour = { theme: 'harbour', tileSize: 256, columns: 16, rows: 16, sprites };
+});
+
+function rotatedCells(grid: GridState): number {
+  return grid.toJSON().layers.ground.flat().filter((cell) => cell?.rotation).length;
+}
+
+describe('wfcFill', () => {
+  it('solves a whole map with every road joined to its neighbours', () => {
+    for (const seed of [1, 2, 3]) {
+      const grid = new GridState(12, 12, metadata);
+      const result = wfcFill(grid, { seed });
+
+      expect(result.cellsFilled).toBe(144);
+      expect(grid.getStats().groundFilled).toBe(144);
+      expect(evaluateMapQuality(grid.toJSON(), metadata).details.roadEndMismatches).toEqual([]);
+    }
+  });
+
+  it('gives the same map for the same seed', () => {
+    const a = new GridState(10, 10, metadata);
+    const b = new GridState(10, 10, metadata);
+    wfcFill(a, { seed: 42 });
+    wfcFill(b, { seed: 42 });
+
+    expect(a.toJSON()).toEqual(b.toJSON());
+  });
+
+  it('keeps pinned cells', () => {
+    const grid = new GridState(10, 10, metadata);
+    wfcFill(grid, {
+      seed: 7,
+      pins: [
+        { x: 4, y: 4, assetId: 'cobblestone_intersection_4_way' },
+        { x: 0, y: 9, assetId: GRASS },
+      ],
+    });
+
+    expect(grid.getTile(4, 4, 'ground')?.assetId).toBe('cobblestone_intersection_4_way');
+    expect(grid.getTile(0, 9, 'ground')?.assetId).toBe(GRASS);
+    expect(getRoadConnectionsAt(grid, 4, 3)).toContain('south');
+    expect(getRoadConnectionsAt(grid, 5, 4)).toContain('west');
+  });
+
+  it('continues roads that enter the region from outside', () => {
+    const grid = new GridState(10, 10, metadata);
+    for (let y = 0; y < 10; y++) {
+      for (let x = 0; x < 10; x++) grid.setTile(x, y, GRASS);
+    }
+    for (let x = 0; x < 5; x++) grid.setTile(x, 5, ROAD_EW);
+
+    wfcFill(grid, { seed: 3, region: { x: 5, y: 0, width: 5, height: 10 } });
+
+    expect(getRoadConnectionsAt(grid, 5, 5)).toContain('west');
+    // Grass around the region edge must not be met by a road
+    expect(getRoadConnectionsAt(grid, 5, 4)).not.toContain('west');
+  });
+
+  it('rotates road sprites on a sheet with one sprite per shape', () => {
+    const grid = new GridState(16, 16, harbour);
+    wfcFill(grid, { seed: 5 });
+
+    expect(rotatedCells(grid)).toBeGreaterThan(0);
+    expect(evaluateMapQuality(grid.toJSON(), harbour).details.roadEndMismatches).toEqual([]);
+  });
+
+  it('continues a rotated road that enters the region from outside', () => {
+    const grid = new GridState(10, 10, harbour);
+    for (let y = 0; y < 10; y++) {
+      for (let x = 0; x < 10; x++) grid.setTile(x, y, '1_4');
+    }
+    // The only straight runs east-west; turned 90° it runs north-south
+    for (let y = 0; y < 5; y++) grid.setTile(5, y, '0_0', 'ground', 90);
+
+    wfcFill(grid, { seed: 3, region: { x: 0, y: 5, width: 10, height: 5 } });
+
+    expect(getRoadConnectionsAt(grid, 5, 5)).toContain('north');
+    expect(getRoadConnectionsAt(grid, 4, 5)).not.toContain('north');
+    expect(evaluateMapQuality(grid.toJSON(), harbour).details.roadEndMismatches).toEqual([]);
+  });
+
+  it('throws on contradictory pins and leaves the grid alone', () => {
+    const grid = new GridState(6, 6, metadata);
+
+    // A road pointing east into grass can never be joined
+    expect(() =>
+      wfcFill(grid, {
+        seed: 1,
+        maxAttempts: 3,
+        pins: [
+          { x: 2, y: 2, assetId: ROAD_EW },
+          { x: 3, y: 2, assetId: GRASS },
+        ],
+      })
+    ).toThrow(/contradict/);
+    expect(grid.getStats().groundFilled).toBe(0);
+  });
+
+  it('rejects pins that are not WFC tiles or lie outside the region', () => {
+    const grid = new GridState(6, 6, metadata);
+    const building = metadata.sprites.find((s) => s.category === 'building')!;
+
+    expect(() => wfcFill(grid, { seed: 1, pins: [{ x: 1, y: 1, assetId: building.id }] })).toThrow(/not a 1x1 ground sprite/);
+    expect(() =>
+      wfcFill(grid, { seed: 1, region: { x: 0, y: 0, width: 3, height: 3 }, pins: [{ x: 5, y: 5, assetId: GRASS }] })
+    ).toThrow(/outside the WFC region/);
+  });
+});
+
+describe('learnAdjacency', () => {
+  it('counts tiles and neighbour pairs by sprite signature', () => {
+    const cell = (assetId: string) => ({ assetId, layer: 'ground' as const });
+    const map: GameMap = {
+      width: 3,
+      height: 1,
+      layers: { ground: [[cell(GRASS), cell(GRASS), cell(ROAD_EW)]], objects: [[null, null, null]] },
+    };
+
+    const model = learnAdjacency([{ map, metadata }]);
+    const grass = getSpriteSignature(spriteById(GRASS));
+    const road = getSpriteSignature(spriteById(ROAD_EW));
+
+    expect(model.samples).toBe(1);
+    expect(model.tileCounts).toEqual({ [grass]: 2, [road]: 1 });
+    expect(model.pairCounts[`${grass}|east|${road}`]).toBe(1);
+    expect(model.pairCounts[`${road}|west|${grass}`]).toBe(1);
+    // 4 neighbour pairs, 2 of them grass next to grass
+    expect(model.sameSpriteRate).toBe(0.5);
+  });
+});
@@ -0,0 +1,527 @@
+import { readdir, readFile } from 'fs/promises';
+import { existsSync } from 'fs';
+import { join } from 'path';
+import type { GridState } from './grid-state';
+import { createRng, type Rng } from './random';
+import { DIRECTION_OFFSETS, DIRECTIONS, isRoadSprite, OPPOSITE_DIRECTION, rotateDirections } from './road-tiles';
+import { isRotatable, ROTATIONS } from './rotation';
+import { wrapShoreline } from './shoreline';
+import { isTransitionSprite } from './terrain-transitions';
+import {
+  MapSchema,
+  SpritesheetMetadataSchema,
+  type Direction,
+  type GameMap,
+  type Sprite,
+  type SpritesheetMetadata,
+} from '../types';
+
+/**
+ * Wave Function Collapse - Fills the ground layer from connectivity sockets
+ *
+ * Architecture Decision:
+ * - Tiles are the 1x1 ground sprites. Each side has a socket: the sprite's
+ *   connectivity family ("road", "edge") if connects includes that
+ *   direction, otherwise "none". Neighbours must have matching sockets, so
+ *   every road that is generated is connected on both ends.
+ * - Map edges accept any socket, so roads may run off the map.
+ * - A tile is a sprite plus a rotation. Rotatable road sprites add turned
+ *   tiles for the shapes the sheet has no sprite for (as in
+ *   lib/road-tiles), and cells outside the region count with their
+ *   rotation, so roads continue into rotated neighbours.
+ * - Sockets are hard constraints; learned statistics are soft weights.
+ *   Statistics are keyed by sprite SIGNATURE (category, connectivity,
+ *   walkable) rather than sprite id, so examples from other themes still
+ *   teach "roads are ~20% of the map" or "water sits next to grass".
+ * - Pinned cells are collapsed before solving; contradictions restart the
+ *   solve with the next RNG state instead of backtracking.
+ * - Shoreline tiles are not WFC tiles: their sockets say nothing about
+ *   where water is, so the solver would scatter banks on dry land. Hazard
+ *   regions are solved as plain hazard and wrapped by the shoreline pass
+ *   afterwards.
+ *
+ * Trade-off: restart-on-contradiction is simple and fine for town-sized
+ * maps, but can exhaust attempts on heavily pinned or tiny regions.
+ */
+
+export interface WfcRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface WfcPin {
+  x: number;
+  y: number;
+  assetId: string;
+  /** Clockwise degrees. Default 0 */
+  rotation?: number;
+}
+
+/** Soft statistics learned from example maps */
+export interface AdjacencyModel {
+  /** Cell count per sprite signature */
+  tileCounts: Record<string, number>;
+  /** Neighbour count per "signature|direction|signature" */
+  pairCounts: Record<string, number>;
+  /** How often orthogonal neighbours are the exact same sprite (0-1) */
+  sameSpriteRate: number;
+  /** Number of example maps the model was learned from */
+  samples: number;
+}
+
+export interface WfcOptions {
+  /** Seed for all random decisions */
+  seed: number;
+  /** Area to solve. Default: whole map */
+  region?: WfcRegion;
+  /** Cells fixed to a specific ground sprite before solving */
+  pins?: WfcPin[];
+  /** Learned weights. Default: uniform */
+  model?: AdjacencyModel;
+  /** Restarts allowed after a contradiction. Default 20 */
+  maxAttempts?: number;
+}
+
+export interface WfcResult {
+  attempts: number;
+  cellsFilled: number;
+  /** Hazard border cells swapped for shoreline tiles after the solve */
+  shorelineTiles: number;
+  region: WfcRegion;
+}
+
+export const EMPTY_ADJACENCY_MODEL: AdjacencyModel = {
+  tileCounts: {},
+  pairCounts: {},
+  sameSpriteRate: 0,
+  samples: 0,
+};
+
+const DEFAULT_EXAMPLES_DIR = 'examples';
+
+// Additive smoothing for unseen signatures / pairs
+const SMOOTHING = 0.5;
+
+// ─────────────────────────────────────────────────────────────────
+// Sockets & Signatures
+// ─────────────────────────────────────────────────────────────────
+
+/** A ground sprite as placed: turned `rotation` degrees clockwise */
+interface WfcTile {
+  sprite: Sprite;
+  rotation: number;
+  /** The sprite's connections after rotation */
+  connects: Direction[];
+}
+
+/**
+ * Signature shared by interchangeable sprites across spritesheets.
+ * A rotated sprite has the signature of the shape it shows.
+ */
+export function getSpriteSignature(sprite: Sprite, rotation = 0): string {
+  const connects = rotateDirections(sprite.connectivity.connects, rotation).sort().join(',');
+  return `${sprite.category}:${sprite.connectivity.type}:${connects}:${sprite.placement.walkable}`;
+}
+
+function getSocketFamily(sprite: Sprite): string {
+  return isRoadSprite(sprite) ? 'road' : sprite.connectivity.type;
+}
+
+function getSocket(tile: Pick<WfcTile, 'sprite' | 'connects'>, dir: Direction): string {
+  return tile.connects.includes(dir) ? getSocketFamily(tile.sprite) : 'none';
+}
+
+/**
+ * Sprites WFC can place: single-cell ground sprites (terrain transitions
+ * and shorelines are left to their own passes, which see the finished
+ * layout).
+ */
+function getWfcSprites(metadata: SpritesheetMetadata): Sprite[] {
+  return metadata.sprites.filter(
+    s =>
+      s.category === 'ground' &&
+      s.placement.layer === 'ground' &&
+      s.w === 1 &&
+      s.h === 1 &&
+      s.connectivity.type !== 'edge' &&
+      !isTransitionSprite(s)
+  );
+}
+
+/**
+ * Every WFC sprite as drawn, plus rotatable road sprites turned into the
+ * road shapes no sprite on the sheet has.
+ */
+function getWfcTiles(metadata: SpritesheetMetadata): WfcTile[] {
+  const sprites = getWfcSprites(metadata);
+  const tiles: WfcTile[] = sprites.map(sprite => ({ sprite, rotation: 0, connects: sprite.connectivity.connects }));
+
+  const shapeKey = (connects: Direction[]) => [...connects].sort().join(',');
+  const roadShapes = new Set(tiles.filter(t => isRoadSprite(t.sprite)).map(t => shapeKey(t.connects)));
+
+  for (const sprite of sprites.filter(s => isRoadSprite(s) && isRotatable(s))) {
+    for (const rotation of ROTATIONS) {
+      const connects = rotateDirections(sprite.connectivity.connects, rotation);
+      const key = shapeKey(connects);
+      if (roadShapes.has(key)) continue;
+      roadShapes.add(key);
+      tiles.push({ sprite, rotation, connects });
+    }
+  }
+
+  return tiles;
+}
+
+// ─────────────────────────────────────────────────────────────────
+// Learning
+// ─────────────────────────────────────────────────────────────────
+
+/**
+ * Learn tile frequencies and neighbour statistics from example maps.
+ */
+export function learnAdjacency(
+  samples: Array<{ map: GameMap; metadata: SpritesheetMetadata }>
+): AdjacencyModel {
+  const tileCounts: Record<string, number> = {};
+  const pairCounts: Record<string, number> = {};
+  let sameSprite = 0;
+  let neighbourPairs = 0;
+
+  for (const { map, metadata } of samples) {
+    const spriteById = new Map(metadata.sprites.map(s => [s.id, s]));
+    const cellAt = (x: number, y: number) => map.layers.ground[y]?.[x] ?? null;
+
+    for (let y = 0; y < map.height; y++) {
+      for (let x = 0; x < map.width; x++) {
+        const cell = cellAt(x, y);
+        const sprite = cell ? spriteById.get(cell.assetId) : undefined;
+        if (!cell || !sprite) continue;
+
+        const signature = getSpriteSignature(sprite, cell.rotation);
+        tileCounts[signature] = (tileCounts[signature] ?? 0) + 1;
+
+        for (const dir of DIRECTIONS) {
+          const { dx, dy } = DIRECTION_OFFSETS[dir];
+          const neighbour = cellAt(x + dx, y + dy);
+          const neighbourSprite = neighbour ? spriteById.get(neighbour.assetId) : undefined;
+          if (!neighbour || !neighbourSprite) continue;
+
+          const pairKey = `${signature}|${dir}|${getSpriteSignature(neighbourSprite, neighbour.rotation)}`;
+          pairCounts[pairKey] = (pairCounts[pairKey] ?? 0) + 1;
+
+          neighbourPairs++;
+          if (neighbour.assetId === cell.assetId) sameSprite++;
+        }
+      }
+    }
+  }
+
+  return {
+    tileCounts,
+    pairCounts,
+    sameSpriteRate: neighbourPairs > 0 ? sameSprite / neighbourPairs : 0,
+    samples: samples.length,
+  };
+}
+
+/**
+ * Learn an adjacency model from every `<dir>/<name>/map.json` that has a
+ * spritesheet-metadata.json next to it. Returns an empty model if none.
+ */
+export async function loadAdjacencyModel(examplesDir = DEFAULT_EXAMPLES_DIR): Promise<AdjacencyModel> {
+  if (!existsSync(examplesDir)) {
+    return EMPTY_ADJACENCY_MODEL;
+  }
+
+  const samples: Array<{ map: GameMap; metadata: SpritesheetMetadata }> = [];
+  const entries = await readdir(examplesDir, { withFileTypes: true });
+
+  for (const entry of entries) {
+    if (!entry.isDirectory()) continue;
+
+    const mapPath = join(examplesDir, entry.name, 'map.json');
+    const metadataPath = join(examplesDir, entry.name, 'spritesheet-metadata.json');
+    if (!existsSync(mapPath) || !existsSync(metadataPath)) continue;
+
+    const map = MapSchema.parse(JSON.parse(await readFile(mapPath, 'utf-8')));
+    const metadata = SpritesheetMetadataSchema.parse(JSON.parse(await readFile(metadataPath, 'utf-8')));
+    samples.push({ map, metadata });
+  }
+
+  return samples.length > 0 ? learnAdjacency(samples) : EMPTY_ADJACENCY_MODEL;
+}
+
+// ─────────────────────────────────────────────────────────────────
+// Solver
+// ─────────────────────────────────────────────────────────────────
+
+interface TileSet {
+  tiles: WfcTile[];
+  signatures: string[];
+  /** compatible[t][dir] = tiles allowed on the dir side of t */
+  compatible: Array<Record<Direction, Set<number>>>;
+  /** Number of tiles sharing each tile's signature */
+  groupSize: number[];
+}
+
+function buildTileSet(metadata: SpritesheetMetadata): TileSet {
+  const tiles = getWfcTiles(metadata);
+  const signatures = tiles.map(t => getSpriteSignature(t.sprite, t.rotation));
+
+  const compatible = tiles.map(a => {
+    const sides = {} as Record<Direction, Set<number>>;
+    for (const dir of DIRECTIONS) {
+      const socket = getSocket(a, dir);
+      sides[dir] = new Set(
+        tiles.flatMap((b, j) => (getSocket(b, OPPOSITE_DIRECTION[dir]) === socket ? [j] : []))
+      );
+    }
+    return sides;
+  });
+
+  const groupSize = signatures.map(sig => signatures.filter(s => s === sig).length);
+
+  return { tiles, signatures, compatible, groupSize };
+}
+
+/**
+ * Weight of placing tile t, given its already-collapsed neighbours
+ * (naive Bayes over the learned pair statistics).
+ */
+function getTileWeight(
+  t: number,
+  collapsedNeighbours: Array<{ dir: Direction; tile: number }>,
+  tileSet: TileSet,
+  model: AdjacencyModel
+): number {
+  const signature = tileSet.signatures[t]!;
+  const signatureCount = model.tileCounts[signature] ?? 0;
+  let weight = (signatureCount + SMOOTHING) / tileSet.groupSize[t]!;
+
+  for (const { dir, tile } of collapsedNeighbours) {
+    const pairKey = `${signature}|${dir}|${tileSet.signatures[tile]!}`;
+    const sideTotal = signatureCount + SMOOTHING * DIRECTIONS.length;
+    weight *= ((model.pairCounts[pairKey] ?? 0) + SMOOTHING) / sideTotal;
+
+    // Cohesion: favour repeating the neighbour's exact sprite, so ground
+    // forms zones instead of noise among same-signature sprites
+    if (tile === t && model.sameSpriteRate > 0 && model.sameSpriteRate < 1) {
+      const groupSize = tileSet.groupSize[t]!;
+      weight *= 1 + (model.sameSpriteRate / (1 - model.sameSpriteRate)) * (groupSize - 1);
+    }
+  }
+
+  return weight;
+}
+
+/**
+ * Fill the ground layer (or a region of it) with Wave Function Collapse.
+ * Cells outside the region that already have ground constrain the border.
+ *
+ * The grid is only modified if a solution is found; throws otherwise.
+ */
+export function wfcFill(grid: GridState, options: WfcOptions): WfcResult {
+  const { seed, pins = [], model = EMPTY_ADJACENCY_MODEL, maxAttempts = 20 } = options;
+
+  const region = clampRegion(options.region ?? { x: 0, y: 0, width: grid.width, height: grid.height }, grid);
+  if (region.width <= 0 || region.height <= 0) {
+    throw new Error('WFC region is empty or outside the map');
+  }
+
+  const tileSet = buildTileSet(grid.metadata);
+  if (tileSet.tiles.length === 0) {
+    throw new Error('No 1x1 ground sprites found in metadata');
+  }
+
+  const wfcSpriteIds = new Set(tileSet.tiles.map(t => t.sprite.id));
+  const cellCount = region.width * region.height;
+  const indexOf = (x: number, y: number) => (y - region.y) * region.width + (x - region.x);
+  const inRegion = (x: number, y: number) =>
+    x >= region.x && x < region.x + region.width && y >= region.y && y < region.y + region.height;
+
+  // Initial domains: pins and fixed border neighbours
+  const initial: number[][] = Array.from({ length: cellCount }, () => tileSet.tiles.map((_, i) => i));
+
+  for (const pin of pins) {
+    if (!inRegion(pin.x, pin.y)) {
+      throw new Error(`Pinned cell (${pin.x}, ${pin.y}) is outside the WFC region`);
+    }
+    const rotation = pin.rotation ?? 0;
+    if (!tileSet.tiles.some(t => t.sprite.id === pin.assetId)) {
+      throw new Error(`Cannot pin "${pin.assetId}": not a 1x1 ground sprite`);
+    }
+    const tile = tileSet.tiles.findIndex(t => t.sprite.id === pin.assetId && t.rotation === rotation);
+    if (tile === -1) {
+      throw new Error(`Cannot pin "${pin.assetId}" rotated ${rotation}°: that shape is not a WFC tile`);
+    }
+    initial[indexOf(pin.x, pin.y)] = [tile];
+  }
+
+  for (let y = region.y; y < region.y + region.height; y++) {
+    for (let x = region.x; x < region.x + region.width; x++) {
+      for (const dir of DIRECTIONS) {
+        const { dx, dy } = DIRECTION_OFFSETS[dir];
+        const nx = x + dx;
+        const ny = y + dy;
+        if (inRegion(nx, ny)) continue;
+
+        const outside = grid.getTile(nx, ny, 'ground');
+        const outsideSprite = outside ? grid.getSprite(outside.assetId) : undefined;
+        if (!outside || !outsideSprite || !wfcSpriteIds.has(outsideSprite.id)) continue;
+
+        // The outside cell's socket facing this one, as it is turned
+        const connects = rotateDirections(outsideSprite.connectivity.connects, outside.rotation ?? 0);
+        const socket = getSocket({ sprite: outsideSprite, connects }, OPPOSITE_DIRECTION[dir]);
+        const i = indexOf(x, y);
+        initial[i] = initial[i]!.filter(t => getSocket(tileSet.tiles[t]!, dir) === socket);
+      }
+    }
+  }
+
+  if (initial.some(domain => domain.length === 0)) {
+    throw new Error('WFC pins or region border are contradictory: no ground sprite fits');
+  }
+
+  const rng = createRng(seed);
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    const solution = solveOnce(initial, region, tileSet, model, rng);
+    if (!solution) continue;
+
+    for (let i = 0; i < cellCount; i++) {
+      const x = region.x + (i % region.width);
+      const y = region.y + Math.floor(i / region.width);
+      const tile = tileSet.tiles[solution[i]!]!;
+      grid.setTile(x, y, tile.sprite.id, 'ground', tile.rotation);
+    }
+
+    const shorelineTiles = wrapHazards(grid, region, new Set(solution.map(t => tileSet.tiles[t]!.sprite)));
+
+    return { attempts: attempt, cellsFilled: cellCount, shorelineTiles, region };
+  }
+
+  throw new Error(`WFC hit a contradiction on all ${maxAttempts} attempts`);
+}
+
+/**
+ * Wrap every hazard sprite the solve used in shoreline tiles.
+ *
+ * @returns Number of cells swapped for a shoreline tile
+ */
+function wrapHazards(grid: GridState, region: WfcRegion, used: Set<Sprite>): number {
+  const bounds = { x1: region.x, y1: region.y, x2: region.x + region.width - 1, y2: region.y + region.height - 1 };
+  let placed = 0;
+  for (const sprite of used) {
+    if (sprite.placement.walkable) continue;
+    placed += wrapShoreline(grid, bounds, sprite.id).placed.length;
+  }
+  return placed;
+}
+
+function clampRegion(region: WfcRegion, grid: GridState): WfcRegion {
+  const x = Math.max(0, region.x);
+  const y = Math.max(0, region.y);
+  return {
+    x,
+    y,
+    width: Math.min(grid.width, region.x + region.width) - x,
+    height: Math.min(grid.height, region.y + region.height) - y,
+  };
+}
+
+/**
+ * One observe/propagate run. Returns the chosen tile per cell, or null on
+ * contradiction.
+ */
+function solveOnce(
+  initial: number[][],
+  region: WfcRegion,
+  tileSet: TileSet,
+  model: AdjacencyModel,
+  rng: Rng
+): number[] | null {
+  const domains = initial.map(d => [...d]);
+  const { width, height } = region;
+
+  const neighbourIndex = (i: number, dir: Direction): number | null => {
+    const { dx, dy } = DIRECTION_OFFSETS[dir];
+    const x = (i % width) + dx;
+    const y = Math.floor(i / width) + dy;
+    return x >= 0 && x < width && y >= 0 && y < height ? y * width + x : null;
+  };
+
+  // AC-3 style propagation; returns false on an empty domain
+  const propagate = (queue: number[]): boolean => {
+    while (queue.length > 0) {
+      const i = queue.pop()!;
+      const domain = domains[i]!;
+
+      for (const dir of DIRECTIONS) {
+        const n = neighbourIndex(i, dir);
+        if (n === null) continue;
+
+        const allowed = new Set<number>();
+        for (const t of domain) {
+          for (const a of tileSet.compatible[t]![dir]) allowed.add(a);
+        }
+
+        const before = domains[n]!;
+        const after = before.filter(t => allowed.has(t));
+        if (after.length === 0) return false;
+        if (after.length !== before.length) {
+          domains[n] = after;
+          queue.push(n);
+        }
+      }
+    }
+    return true;
+  };
+
+  if (!propagate(domains.map((_, i) => i))) return null;
+
+  for (;;) {
+    // Observe: lowest-entropy undecided cell (random tie-break)
+    let cell = -1;
+    let bestScore = Infinity;
+    for (let i = 0; i < domains.length; i++) {
+      const size = domains[i]!.length;
+      if (size <= 1) continue;
+      const score = size + rng.next() * 0.5;
+      if (score < bestScore) {
+        bestScore = score;
+        cell = i;
+      }
+    }
+
+    if (cell === -1) {
+      return domains.map(d => d[0]!);
+    }
+
+    const collapsedNeighbours: Array<{ dir: Direction; tile: number }> = [];
+    for (const dir of DIRECTIONS) {
+      const n = neighbourIndex(cell, dir);
+      const domain = n === null ? undefined : domains[n];
+      if (domain?.length === 1) {
+        collapsedNeighbours.push({ dir, tile: domain[0]! });
+      }
+    }
+
+    const domain = domains[cell]!;
+    const weights = domain.map(t => getTileWeight(t, collapsedNeighbours, tileSet, model));
+    domains[cell] = [weightedPick(domain, weights, rng)];
+
+    if (!propagate([cell])) return null;
+  }
+}
+
+function weightedPick(items: number[], weights: number[], rng: Rng): number {
+  const total = weights.reduce((sum, w) => sum + w, 0);
+  let roll = rng.next() * total;
+  for (let i = 0; i < items.length; i++) {
+    roll -= weights[i]!;
+    if (roll < 0) return items[i]!;
+  }
+  return items[items.length - 1]!;
+}
@@ -10,14 +10,63 @@
  * - Sequential chain pattern for predictable execution order
  * - Each phase has focused prompt and limited tool set
  * - Shared GridState flows through all phases
+ * - A deterministic repair pass runs after each AI phase (see ./repair):
+ *   holes in the ground, mismatched road sprites, objects on roads
+ * - Every backend ends with the terrain transition pass, which blends the
+ *   seams between the primary and secondary surfaces (lib/terrain-transitions)
+ * - `planner: 'procedural'` swaps the AI phases for a seeded, offline
+ *   algorithm that fills the same GridState (see ./procedural)
+ * - `planner: 'wfc'` solves the ground layer with Wave Function Collapse
+ *   (roads from connectivity sockets), then places objects procedurally
+ * - `planner: 'chunked'` runs the AI ground/objects phases chunk by chunk
+ *   on top of a global road skeleton, for maps too big for one
+ *   conversation (see ./chunked)
+ * - The seed is recorded in map.json whenever it determines the result:
+ *   always for the offline backends, and for the agent only when given
+ *   explicitly (it is then also sent to the model with temperature 0)
  */
 
 import { GridState } from '../lib/grid-state';
 import { executeGroundPhase } from './phases/ground-phase';
 import { executeRoadsPhase } from './phases/roads-phase';
 import { executeObjectsPhase } from './phases/objects-phase';
+import { runProceduralPlanner, placeObjects } from './procedural';
+import { runChunkedPlanner } from './chunked';
+import { repairAfterPhase } from './repair';
+import { createRng, randomSeed } from '../lib/random';
+import { loadAdjacencyModel, wfcFill, type WfcPin } from '../lib/wfc';
+import { resolveTerrainTransitions } from '../lib/terrain-transitions';
 import type { SpritesheetMetadata, GameMap } from '../types';
-import { DEFAULT_MAP_SIZE } from '../config';
+import { DEFAULT_MAP_SIZE, DEFAULT_CHUNK_SIZE } from '../config';
+
+export const PLANNER_BACKENDS = ['agent', 'procedural', 'wfc', 'chunked'] as const;
+export type PlannerBackend = (typeof PLANNER_BACKENDS)[number];
+
+export interface PlannerOptions {
+  /** Which backend fills the grid. Default 'agent' (LLM phases) */
+  planner?: PlannerBackend;
+  /** Seed for model calls and every non-LLM random choice. Default: random (agent: unseeded) */
+  seed?: number;
+  /** Ground cells fixed before WFC solves the rest (wfc backend only) */
+  pins?: WfcPin[];
+  /** Chunk side in tiles (chunked backend only). Default: DEFAULT_CHUNK_SIZE */
+  chunkSize?: number;
+}
+
+/**
+ * Record the seed in a map (kept next to the dimensions in map.json).
+ */
+function withSeed(map: GameMap, seed: number): GameMap {
+  return { width: map.width, height: map.height, seed, layers: map.layers };
+}
+
+/**
+ * Blend terrain seams on the finished grid and serialize it.
+ */
+function finishMap(grid: GridState, verbose: boolean): GameMap {
+  resolveTerrainTransitions(grid, verbose);
+  return grid.toJSON();
+}
 
 /**
  * Run the Planner Agent with sequential phase execution.
@@ -26,17 +75,73 @@ import { DEFAULT_MAP_SIZE } from '../config';
  * @param width - Map width in tiles (default: 10)
  * @param height - Map height in tiles (default: 10)
  * @param verbose - Enable detailed logging
+ * @param options - Planner backend and seed
  * @returns Complete GameMap JSON
  */
 export async function runPlannerAgent(
   metadata: SpritesheetMetadata,
   width = DEFAULT_MAP_SIZE,
   height = DEFAULT_MAP_SIZE,
-  verbose = false
+  verbose = false,
+  options: PlannerOptions = {}
 ): Promise<GameMap> {
+  const { planner = 'agent', pins = [] } = options;
+  const seed = options.seed ?? randomSeed();
+
   // Shared state across all phases
   const grid = new GridState(width, height, metadata);
 
+  if (planner === 'procedural') {
+    if (verbose) {
+      console.log(`[Planner] Starting ${width}x${height} procedural generation...`);
+    }
+    runProceduralPlanner(grid, seed, verbose);
+    return withSeed(finishMap(grid, verbose), seed);
+  }
+
+  if (planner === 'chunked') {
+    const { chunkSize = DEFAULT_CHUNK_SIZE } = options;
+    if (verbose) {
+      console.log(`[Planner] Starting ${width}x${height} chunked generation (${chunkSize}x${chunkSize} chunks)...`);
+    }
+    await runChunkedPlanner(grid, metadata, {
+      chunkSize,
+      seed,
+      seedModel: options.seed !== undefined,
+      sceneDescription: metadata.sceneDescription ?? `A ${metadata.theme} themed environment.`,
+      verbose,
+    });
+    // Chunks can leave holes and stitch objects onto skeleton roads
+    repairAfterPhase(grid, 'objects', verbose);
+    if (verbose) {
+      const connectivity = grid.validateRoadConnectivity();
+      const stats = grid.getStats();
+      console.log(
+        `[Planner] Chunked: ${stats.groundFilled}/${stats.totalTiles} ground, ${stats.objectsFilled} objects, roads connected=${connectivity.connected}`
+      );
+    }
+    // The skeleton depends on the seed, so it is always recorded
+    return withSeed(finishMap(grid, verbose), seed);
+  }
+
+  // Learned from examples/*/map.json; empty (uniform weights) if none
+  const wfcModel = await loadAdjacencyModel();
+
+  if (planner === 'wfc') {
+    if (verbose) {
+      console.log(`[Planner] Starting ${width}x${height} WFC generation (${wfcModel.samples} example maps)...`);
+    }
+    const result = wfcFill(grid, { seed, pins, model: wfcModel });
+    if (verbose) {
+      const connectivity = grid.validateRoadConnectivity();
+      console.log(
+        `[Planner] WFC: solved in ${result.attempts} attempt(s), ${connectivity.totalRoadTiles} road tiles, ${connectivity.islandCount} road islands, ${result.shorelineTiles} shoreline tiles`
+      );
+    }
+    placeObjects(grid, createRng(seed), verbose);
+    return withSeed(finishMap(grid, verbose), seed);
+  }
+
   // Extract scene description for visual context (with fallback)
   // This enables each phase to make thematically coherent decisions
   const sceneDescription =
@@ -50,7 +155,8 @@ export async function runPlannerAgent(
   }
 
   // Phase 1: Fill ground tiles
-  await executeGroundPhase(grid, metadata, width, height, verbose, sceneDescription);
+  await executeGroundPhase(grid, metadata, width, height, verbose, sceneDescription, options.seed);
+  repairAfterPhase(grid, 'ground', verbose);
 
   if (verbose) {
     const stats = grid.getStats();
@@ -58,7 +164,17 @@ export async function runPlannerAgent(
   }
 
   // Phase 2: Build road network
-  await executeRoadsPhase(grid, metadata, width, height, verbose, sceneDescription);
+  await executeRoadsPhase(
+    grid,
+    metadata,
+    width,
+    height,
+    verbose,
+    sceneDescription,
+    options.seed,
+    wfcModel
+  );
+  repairAfterPhase(grid, 'roads', verbose);
 
   if (verbose) {
     const connectivity = grid.validateRoadConnectivity();
@@ -68,7 +184,8 @@ export async function runPlannerAgent(
   }
 
   // Phase 3: Place buildings and props
-  await executeObjectsPhase(grid, metadata, width, height, verbose, sceneDescription);
+  await executeObjectsPhase(grid, metadata, width, height, verbose, sceneDescription, options.seed);
+  repairAfterPhase(grid, 'objects', verbose);
 
   if (verbose) {
     const stats = grid.getStats();
@@ -76,5 +193,6 @@ export async function runPlannerAgent(
     console.log(`[Planner] Complete!`);
   }
 
-  return grid.toJSON();
+  const map = finishMap(grid, verbose);
+  return options.seed === undefined ? map : withSeed(map, options.seed);
 }
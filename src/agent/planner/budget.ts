@@ -0,0 +1,48 @@
+/**
+ * Planner Budgets
+ *
+ * Step counts and tile budgets for the AI phases, scaled by map area.
+ *
+ * Architecture Decision:
+ * - Base values are tuned for the default 10x10 (DEFAULT_MAP_SIZE²) map and grow
+ *   linearly with area: tool calls are mostly per-tile (placeRoad,
+ *   placeAsset) or per-zone, both of which scale with area
+ * - Never below the base (small maps keep the tuned values) and capped so
+ *   a huge map cannot run up an unbounded bill
+ */
+
+import { DEFAULT_MAP_SIZE } from '../config';
+
+export type PlannerPhase = 'ground' | 'roads' | 'objects';
+
+/** Steps per phase for a DEFAULT_MAP_SIZE x DEFAULT_MAP_SIZE map */
+const BASE_STEP_COUNTS: Record<PlannerPhase, number> = {
+  ground: 10,
+  roads: 25,
+  objects: 15,
+};
+
+/** Upper bound on how far step counts scale up */
+const MAX_STEP_SCALE = 8;
+
+/** Fraction of the map roads may cover */
+const ROAD_COVERAGE = 0.25;
+
+function getAreaScale(width: number, height: number): number {
+  const scale = (width * height) / (DEFAULT_MAP_SIZE * DEFAULT_MAP_SIZE);
+  return Math.min(MAX_STEP_SCALE, Math.max(1, scale));
+}
+
+/**
+ * Maximum LLM steps (tool-call rounds) for a phase on a width x height map.
+ */
+export function getStepBudget(phase: PlannerPhase, width: number, height: number): number {
+  return Math.ceil(BASE_STEP_COUNTS[phase] * getAreaScale(width, height));
+}
+
+/**
+ * Maximum road tiles for a width x height map.
+ */
+export function getRoadBudget(width: number, height: number): number {
+  return Math.floor(width * height * ROAD_COVERAGE);
+}
@@ -0,0 +1,88 @@
+import { readFileSync } from 'fs';
+import { describe, expect, it, vi } from 'vitest';
+import { rankCandidates, runPlannerCandidates, type PlannerCandidate } from './candidates';
+import { SpritesheetMetadataSchema } from '../types';
+
+// Seed 21 stands in for a run whose provider errors mid tool loop
+vi.mock('./agent', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('./agent')>();
+  return {
+    ...actual,
+    runPlannerAgent: async (...args: Parameters<typeof actual.runPlannerAgent>) => {
+      if (args[4]?.seed === 21) throw new Error('provider unavailable');
+      return actual.runPlannerAgent(...args);
+    },
+  };
+});
+
+const metadata = SpritesheetMetadataSchema.parse(
+  JSON.parse(readFileSync('examples/medieval-village/spritesheet-metadata.json', 'utf-8'))
+);
+
+function candidate(index: number, score: number, passed: number): PlannerCandidate {
+  const checks = Array.from({ length: 3 }, (_, i) => ({
+    name: `check${i}`,
+    value: 0,
+    threshold: 0,
+    passed: i < passed,
+    score: 0,
+    detail: '',
+  }));
+  return {
+    index,
+    map: { width: 1, height: 1, layers: { ground: [[null]], objects: [[null]] } },
+    report: {
+      width: 1,
+      height: 1,
+      score,
+      passed: passed === checks.length,
+      checks,
+      details: {
+        rejectedCells: [],
+        roadEndMismatches: [],
+        objectsOnRoads: [],
+        buildingsWithoutRoad: [],
+        walkableRegions: 0,
+        unreachableTiles: 0,
+      },
+    },
+  };
+}
+
+describe('rankCandidates', () => {
+  it('orders by score, then passed checks, then run order', () => {
+    const ranked = rankCandidates([candidate(1, 70, 3), candidate(2, 90, 1), candidate(3, 90, 2), candidate(4, 90, 2)]);
+
+    expect(ranked.map((c) => c.index)).toEqual([3, 4, 2, 1]);
+  });
+});
+
+describe('runPlannerCandidates', () => {
+  it('runs each candidate with its own seed and scores it', async () => {
+    const { ranked, failed } = await runPlannerCandidates(metadata, 12, 12, false, {
+      planner: 'procedural',
+      seed: 10,
+      count: 3,
+    });
+
+    expect(failed).toEqual([]);
+
+    expect(ranked.map((c) => c.map.seed).sort()).toEqual([10, 11, 12]);
+    expect(ranked.map((c) => c.index).sort()).toEqual([1, 2, 3]);
+    for (const c of ranked) {
+      expect(c.map.seed).toBe(10 + c.index - 1);
+    }
+    expect(ranked[0]!.report.score).toBeGreaterThanOrEqual(ranked[2]!.report.score);
+  });
+
+  it('records a failed run and keeps the others', async () => {
+    const { ranked, failed } = await runPlannerCandidates(metadata, 12, 12, false, {
+      planner: 'procedural',
+      seed: 20,
+      count: 3,
+    });
+
+    expect(failed).toEqual([{ index: 2, seed: 21, error: 'provider unavailable' }]);
+    expect(ranked.map((c) => c.index).sort()).toEqual([1, 3]);
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * Candidate Maps (generate-and-select)
+ *
+ * Planner output varies a lot between runs, so `plan --candidates N` runs
+ * the planner N times, scores every map with the map-quality checks and
+ * ranks them; the CLI keeps the best as map.json.
+ *
+ * Architecture Decision:
+ * - Each candidate is a plain runPlannerAgent call; nothing here knows
+ *   about backends
+ * - With a seed, candidate k (1-based) uses seed + k - 1, so every
+ *   candidate can be reproduced alone with `plan --seed`. Without one the
+ *   offline backends pick random seeds and the agent runs unseeded
+ * - Runs go through a small worker pool (CANDIDATE_CONCURRENCY) rather
+ *   than all at once, to stay under provider rate limits
+ * - Ranking is by overall score, then passed checks, then run order, so
+ *   ties resolve the same way every time
+ * - A run that throws (e.g. a provider error mid tool loop) is recorded as
+ *   failed and the pool moves on, so one bad run doesn't discard the
+ *   finished maps or leave other runs calling models in the background
+ */
+
+import { runPlannerAgent, type PlannerOptions } from './agent';
+import { evaluateMapQuality, DEFAULT_QUALITY_THRESHOLDS, type QualityReport, type QualityThresholds } from '../lib/map-quality';
+import type { GameMap, SpritesheetMetadata } from '../types';
+import { CANDIDATE_CONCURRENCY } from '../config';
+
+export interface PlannerCandidate {
+  /** 1-based run number (map-candidate-<index>.json) */
+  index: number;
+  map: GameMap;
+  report: QualityReport;
+}
+
+export interface FailedCandidate {
+  /** 1-based run number */
+  index: number;
+  /** Seed the run was started with, if any */
+  seed?: number;
+  error: string;
+}
+
+export interface CandidateResults {
+  /** Successful runs, best first */
+  ranked: PlannerCandidate[];
+  /** Runs that threw, in run order */
+  failed: FailedCandidate[];
+}
+
+export interface CandidateOptions extends PlannerOptions {
+  /** Number of planner runs */
+  count: number;
+  /** Runs in flight at once. Default: CANDIDATE_CONCURRENCY */
+  concurrency?: number;
+  /** Thresholds used to score each map. Default: DEFAULT_QUALITY_THRESHOLDS */
+  thresholds?: QualityThresholds;
+}
+
+/**
+ * Run the planner `count` times and score every map.
+ *
+ * @param metadata - Spritesheet metadata from Designer
+ * @param width - Map width in tiles
+ * @param height - Map height in tiles
+ * @param verbose - Enable detailed logging
+ * @param options - Planner options plus candidate count
+ * @returns Successful candidates ranked best first, plus the runs that failed
+ */
+export async function runPlannerCandidates(
+  metadata: SpritesheetMetadata,
+  width: number | undefined,
+  height: number | undefined,
+  verbose: boolean,
+  options: CandidateOptions
+): Promise<CandidateResults> {
+  const { count, concurrency = CANDIDATE_CONCURRENCY, thresholds = DEFAULT_QUALITY_THRESHOLDS, ...plannerOptions } =
+    options;
+  const candidates: PlannerCandidate[] = [];
+  const failed: FailedCandidate[] = [];
+  let next = 1;
+
+  const worker = async () => {
+    while (next <= count) {
+      const index = next++;
+      console.log(`[Candidates] Starting run ${index}/${count}`);
+
+      const seed = plannerOptions.seed === undefined ? undefined : plannerOptions.seed + index - 1;
+      try {
+        const map = await runPlannerAgent(metadata, width, height, verbose, { ...plannerOptions, seed });
+        const report = evaluateMapQuality(map, metadata, thresholds);
+        candidates.push({ index, map, report });
+
+        console.log(`[Candidates] Run ${index}/${count} scored ${report.score}/100`);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        failed.push({ index, ...(seed !== undefined && { seed }), error: message });
+
+        console.log(`[Candidates] Run ${index}/${count} failed: ${message}`);
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, count)) }, worker));
+
+  return { ranked: rankCandidates(candidates), failed: failed.sort((a, b) => a.index - b.index) };
+}
+
+/**
+ * Sort candidates best first: higher score, then more passed checks, then
+ * earlier run.
+ */
+export function rankCandidates(candidates: PlannerCandidate[]): PlannerCandidate[] {
+  const passedChecks = (c: PlannerCandidate) => c.report.checks.filter((check) => check.passed).length;
+  return [...candidates].sort(
+    (a, b) => b.report.score - a.report.score || passedChecks(b) - passedChecks(a) || a.index - b.index
+  );
+}
@@ -0,0 +1,244 @@
+/**
+ * Chunked Planner (large maps)
+ *
+ * Plans maps too big for one LLM conversation (64x64 and beyond) by
+ * splitting them into chunks and running the AI ground and objects phases
+ * on each chunk in turn, stitching the results into one GridState.
+ *
+ * Architecture Decision:
+ * - A global road skeleton is painted first (see paintRoadSkeleton), so the
+ *   road network crosses chunk seams and validateRoadConnectivity passes
+ *   without any chunk having to coordinate roads with its neighbours
+ * - Each chunk gets its own small GridState: tool outputs (ASCII layers)
+ *   and step budgets stay sized to the chunk, not the whole map
+ * - Border constraints come from already-planned neighbours (row-major
+ *   order, so north and west are done): the ground just outside each edge
+ *   is summarised into the chunk's scene description
+ * - Stitching never lets a chunk break the skeleton: road cells stay
+ *   roads, and objects that collide across a seam are dropped
+ */
+
+import { GridState } from '../lib/grid-state';
+import type { SpritesheetMetadata } from '../types';
+import { executeGroundPhase } from './phases/ground-phase';
+import { executeObjectsPhase } from './phases/objects-phase';
+import { paintRoadSkeleton } from './procedural';
+
+export interface ChunkedPlannerOptions {
+  /** Chunk side in tiles */
+  chunkSize: number;
+  /** Seed for the road skeleton (and model calls, when explicit) */
+  seed: number;
+  /** Send the seed to the model too (only when the user gave one) */
+  seedModel: boolean;
+  sceneDescription: string;
+  verbose: boolean;
+}
+
+interface ChunkRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// ─────────────────────────────────────────────────────────────────
+// Entry Point
+// ─────────────────────────────────────────────────────────────────
+
+/**
+ * Fill `grid` chunk by chunk on top of a global road skeleton.
+ *
+ * @param grid - Full-size grid to fill
+ * @param metadata - Spritesheet metadata from Designer
+ * @param options - Chunk size, seed and scene context
+ */
+export async function runChunkedPlanner(
+  grid: GridState,
+  metadata: SpritesheetMetadata,
+  options: ChunkedPlannerOptions
+): Promise<void> {
+  const { chunkSize, seed, seedModel, sceneDescription, verbose } = options;
+  const modelSeed = seedModel ? seed : undefined;
+
+  paintRoadSkeleton(grid, chunkSize, seed, verbose);
+
+  if (verbose) {
+    const connectivity = grid.validateRoadConnectivity();
+    console.log(
+      `[Chunked] Road skeleton: ${connectivity.totalRoadTiles} tiles, connected=${connectivity.connected}`
+    );
+  }
+
+  const chunks = getChunks(grid.width, grid.height, chunkSize);
+
+  for (const [index, region] of chunks.entries()) {
+    if (verbose) {
+      console.log(
+        `[Chunked] Chunk ${index + 1}/${chunks.length}: (${region.x},${region.y}) ${region.width}x${region.height}`
+      );
+    }
+
+    const chunk = new GridState(region.width, region.height, metadata);
+    copyIntoChunk(grid, chunk, region);
+
+    const chunkScene = `${sceneDescription}\n\n${describeChunkContext(grid, region)}`;
+
+    await executeGroundPhase(chunk, metadata, region.width, region.height, verbose, chunkScene, modelSeed);
+    await executeObjectsPhase(chunk, metadata, region.width, region.height, verbose, chunkScene, modelSeed);
+
+    stitchChunk(grid, chunk, region, verbose);
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────
+// Chunk Layout
+// ─────────────────────────────────────────────────────────────────
+
+/**
+ * Split a map into chunks in row-major order. Edge chunks are smaller
+ * when the map size is not a multiple of the chunk size.
+ */
+function getChunks(width: number, height: number, chunkSize: number): ChunkRegion[] {
+  const chunks: ChunkRegion[] = [];
+  for (let y = 0; y < height; y += chunkSize) {
+    for (let x = 0; x < width; x += chunkSize) {
+      chunks.push({
+        x,
+        y,
+        width: Math.min(chunkSize, width - x),
+        height: Math.min(chunkSize, height - y),
+      });
+    }
+  }
+  return chunks;
+}
+
+// ─────────────────────────────────────────────────────────────────
+// Copy / Stitch
+// ─────────────────────────────────────────────────────────────────
+
+/**
+ * Copy what the global grid already has in `region` (the road skeleton)
+ * into the chunk, in chunk-local coordinates, keeping each tile's rotation.
+ */
+function copyIntoChunk(grid: GridState, chunk: GridState, region: ChunkRegion): void {
+  for (let y = 0; y < region.height; y++) {
+    for (let x = 0; x < region.width; x++) {
+      const owner = grid.getOwner(region.x + x, region.y + y, 'ground');
+      // Only copy anchors, so multi-tile sprites are placed once
+      if (owner?.x !== region.x + x || owner.y !== region.y + y) continue;
+
+      const tile = grid.getTile(owner.x, owner.y, 'ground');
+      if (tile && chunk.checkPlacement(x, y, tile.assetId, 'ground', tile.rotation) === null) {
+        chunk.setTile(x, y, tile.assetId, 'ground', tile.rotation);
+      }
+    }
+  }
+}
+
+/**
+ * Write a planned chunk back into the global grid, rotations included.
+ * Road cells keep the skeleton's sprite; objects that overlap one placed
+ * by an earlier chunk are skipped.
+ */
+function stitchChunk(grid: GridState, chunk: GridState, region: ChunkRegion, verbose: boolean): void {
+  let skipped = 0;
+
+  for (let y = 0; y < region.height; y++) {
+    for (let x = 0; x < region.width; x++) {
+      const gx = region.x + x;
+      const gy = region.y + y;
+
+      const ground = chunk.getTile(x, y, 'ground');
+      const groundOwner = chunk.getOwner(x, y, 'ground');
+      if (ground && groundOwner?.x === x && groundOwner.y === y && !grid.isRoadAt(gx, gy)) {
+        if (grid.checkPlacement(gx, gy, ground.assetId, 'ground', ground.rotation) === null) {
+          grid.setTile(gx, gy, ground.assetId, 'ground', ground.rotation);
+        }
+      }
+
+      const object = chunk.getTile(x, y, 'object');
+      const objectOwner = chunk.getOwner(x, y, 'object');
+      if (object && objectOwner?.x === x && objectOwner.y === y) {
+        if (grid.checkPlacement(gx, gy, object.assetId, 'object', object.rotation) === null) {
+          grid.setTile(gx, gy, object.assetId, 'object', object.rotation);
+        } else {
+          skipped++;
+        }
+      }
+    }
+  }
+
+  if (verbose && skipped > 0) {
+    console.log(`[Chunked] Skipped ${skipped} object(s) overlapping a neighbouring chunk`);
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────
+// Border Constraints
+// ─────────────────────────────────────────────────────────────────
+
+/**
+ * Describe where the chunk sits and what ground its planned neighbours put
+ * just outside each edge, so zones continue across seams.
+ */
+function describeChunkContext(grid: GridState, region: ChunkRegion): string {
+  const right = region.x + region.width;
+  const bottom = region.y + region.height;
+
+  const edges: Array<{ name: string; cells: Array<{ x: number; y: number }> }> = [
+    { name: 'North (y=-1)', cells: range(region.width).map((i) => ({ x: region.x + i, y: region.y - 1 })) },
+    { name: `South (y=${region.height})`, cells: range(region.width).map((i) => ({ x: region.x + i, y: bottom })) },
+    { name: 'West (x=-1)', cells: range(region.height).map((i) => ({ x: region.x - 1, y: region.y + i })) },
+    { name: `East (x=${region.width})`, cells: range(region.height).map((i) => ({ x: right, y: region.y + i })) },
+  ];
+
+  const lines: string[] = [];
+  for (const edge of edges) {
+    const summary = summarizeEdge(grid, edge.cells);
+    if (summary) lines.push(`- ${edge.name}: ${summary}`);
+  }
+
+  const header = `## CHUNK CONTEXT
+This ${region.width}x${region.height} area is one chunk of a larger ${grid.width}x${grid.height} map, at global (${region.x},${region.y}) to (${right - 1},${bottom - 1}). Use local coordinates (0,0 is this chunk's top-left).
+Roads are already placed and must stay as they are.`;
+
+  if (lines.length === 0) {
+    return header;
+  }
+
+  return `${header}
+
+Neighbouring chunks already placed this ground just outside your edges (in order along the edge). Continue their zones across the seam:
+${lines.join('\n')}`;
+}
+
+/**
+ * Run-length summary of the ground along one edge, e.g.
+ * "ground_grass x5, road_straight_ns x1, ground_dirt x10". Empty if the
+ * neighbour is off-map or not planned yet.
+ */
+function summarizeEdge(grid: GridState, cells: Array<{ x: number; y: number }>): string {
+  const runs: Array<{ id: string; count: number }> = [];
+  let planned = false;
+
+  for (const cell of cells) {
+    const tile = grid.getTile(cell.x, cell.y, 'ground');
+    const id = tile?.assetId ?? 'empty';
+    if (tile && !grid.isRoadAt(cell.x, cell.y)) planned = true;
+
+    const last = runs[runs.length - 1];
+    if (last?.id === id) {
+      last.count++;
+    } else {
+      runs.push({ id, count: 1 });
+    }
+  }
+
+  return planned ? runs.map((run) => `${run.id} x${run.count}`).join(', ') : '';
+}
+
+function range(length: number): number[] {
+  return Array.from({ length }, (_, i) => i);
+}
@@ -0,0 +1,64 @@
+import { readFileSync } from 'fs';
+import { afterEach, describe, expect, it } from 'vitest';
+import { GridState } from '../../lib/grid-state';
+import { setModelOverride } from '../../lib/models';
+import { createScriptedModel, getToolResults } from '../../lib/mock-model';
+import { SpritesheetMetadataSchema } from '../../types';
+import { executeGroundPhase } from './ground-phase';
+
+const metadata = SpritesheetMetadataSchema.parse(
+  JSON.parse(readFileSync('examples/medieval-village/spritesheet-metadata.json', 'utf-8'))
+);
+
+afterEach(() => setModelOverride('planner-ground', undefined));
+
+describe('executeGroundPhase', () => {
+  it('fills the whole map from scripted fillGround calls', async () => {
+    const model = createScriptedModel([
+      [
+        { toolName: 'fillGround', input: { x1: 0, y1: 0, x2: 9, y2: 4, groundTileId: 'wildflower_grass_patch' } },
+        { toolName: 'fillGround', input: { x1: 0, y1: 5, x2: 9, y2: 9, groundTileId: 'packed_dirt_path' } },
+      ],
+      [{ toolName: 'viewMap', input: { layer: 'ground' } }],
+    ]);
+    setModelOverride('planner-ground', model);
+
+    const grid = new GridState(10, 10, metadata);
+    await executeGroundPhase(grid, metadata, 10, 10, false);
+
+    const stats = grid.getStats();
+    expect(stats.groundFilled).toBe(stats.totalTiles);
+    expect(grid.getTile(0, 0)?.assetId).toBe('wildflower_grass_patch');
+    expect(grid.getTile(9, 9)?.assetId).toBe('packed_dirt_path');
+    expect(getToolResults(model).map((r) => r.toolName)).toEqual(['fillGround', 'fillGround', 'viewMap']);
+  });
+
+  it('keeps existing roads unless overwrite is set', async () => {
+    setModelOverride(
+      'planner-ground',
+      createScriptedModel([
+        [{ toolName: 'fillGround', input: { x1: 0, y1: 0, x2: 9, y2: 9, groundTileId: 'dense_moss_ground_cover' } }],
+      ])
+    );
+
+    const grid = new GridState(10, 10, metadata);
+    grid.setTile(4, 4, 'cobblestone_intersection_4_way');
+    await executeGroundPhase(grid, metadata, 10, 10, false);
+
+    expect(grid.getTile(4, 4)?.assetId).toBe('cobblestone_intersection_4_way');
+    expect(grid.getStats().groundFilled).toBe(100);
+  });
+
+  it('reports an unknown tile back to the model', async () => {
+    const model = createScriptedModel([
+      [{ toolName: 'fillGround', input: { x1: 0, y1: 0, x2: 9, y2: 9, groundTileId: 'lava_floor' } }],
+    ]);
+    setModelOverride('planner-ground', model);
+
+    const grid = new GridState(10, 10, metadata);
+    await executeGroundPhase(grid, metadata, 10, 10, false);
+
+    expect(grid.getStats().groundFilled).toBe(0);
+    expect(getToolResults(model)[0]?.output).toMatchObject({ success: false });
+  });
+});
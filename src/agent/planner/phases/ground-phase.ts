@@ -2,15 +2,20 @@
  * Ground Phase
  *
  * Fills the entire map with ground tiles before roads or objects.
- * Uses fillGround tool to fill rectangular regions.
+ * Uses fillGround tool to fill rectangular regions, and wrapShoreline to
+ * border hazard regions when the spritesheet has shoreline tiles.
  */
 
 import { streamText, stepCountIs } from 'ai';
-import { google } from '@ai-sdk/google';
+import { getModel } from '../../lib/models';
 import type { GridState } from '../../lib/grid-state';
+import { getSeedSettings } from '../../lib/random';
+import { isTransitionSprite } from '../../lib/terrain-transitions';
 import type { SpritesheetMetadata } from '../../types';
 import { createFillGroundTool } from '../tools/fill-ground';
+import { createWrapShorelineTool } from '../tools/wrap-shoreline';
 import { createViewMapTool } from '../tools';
+import { getStepBudget } from '../budget';
 
 /**
  * Execute the ground filling phase.
@@ -22,18 +27,21 @@ export async function executeGroundPhase(
   width: number,
   height: number,
   verbose: boolean,
-  sceneDescription?: string
+  sceneDescription?: string,
+  seed?: number
 ): Promise<void> {
   if (verbose) console.log('[Ground Phase] Starting...');
 
   const tools = {
     fillGround: createFillGroundTool(grid, verbose),
+    wrapShoreline: createWrapShorelineTool(grid, verbose),
     viewMap: createViewMapTool(grid),
   };
 
-  // Get ground tiles dynamically from metadata (exclude roads which have connectivity.connects)
+  // Get ground tiles dynamically from metadata (exclude roads which have
+  // connectivity.connects, and transitions which are placed afterwards)
   const groundSprites = metadata.sprites
-    .filter((s) => s.category === 'ground' && (!s.connectivity?.connects?.length))
+    .filter((s) => s.category === 'ground' && (!s.connectivity?.connects?.length) && !isTransitionSprite(s))
     .map((s) => s.id);
 
   if (groundSprites.length === 0) {
@@ -43,10 +51,11 @@ export async function executeGroundPhase(
   const systemPrompt = buildGroundPrompt(width, height, metadata, sceneDescription);
 
   const result = streamText({
-    model: google('gemini-2.0-flash'),
+    model: getModel('planner-ground'),
+    ...getSeedSettings(seed),
     system: systemPrompt,
     tools,
-    stopWhen: stepCountIs(10),
+    stopWhen: stepCountIs(getStepBudget('ground', width, height)),
     prompt: `Fill the entire ${width}x${height} map with ground tiles.
 
 First, analyze the available ground sprites listed in your context. Consider:
@@ -71,6 +80,37 @@ Use viewMap("ground") to verify full coverage.`,
   }
 }
 
+// Zone characters, assigned to suggested zones in reading order
+const ZONE_THEMES = [
+  'Primary zone (matches main visual theme)',
+  'Secondary zone (functional/commercial feel)',
+  'Back alley zone (gritty/worn)',
+  'Industrial/danger zone',
+];
+
+/**
+ * Split the map into a grid of suggested zones with concrete coordinates.
+ * Roughly one zone per 8x8 tiles (2x2 zones minimum, 4x4 maximum), so the
+ * guidance stays meaningful on large and non-square maps.
+ */
+function buildZoneGuide(width: number, height: number): string {
+  const zoneColumns = Math.min(4, Math.max(2, Math.round(width / 8)));
+  const zoneRows = Math.min(4, Math.max(2, Math.round(height / 8)));
+
+  const lines: string[] = [];
+  for (let row = 0; row < zoneRows; row++) {
+    const y1 = Math.floor((row * height) / zoneRows);
+    const y2 = Math.floor(((row + 1) * height) / zoneRows) - 1;
+    for (let col = 0; col < zoneColumns; col++) {
+      const x1 = Math.floor((col * width) / zoneColumns);
+      const x2 = Math.floor(((col + 1) * width) / zoneColumns) - 1;
+      const theme = ZONE_THEMES[(row * zoneColumns + col) % ZONE_THEMES.length];
+      lines.push(`- (${x1},${y1}) to (${x2},${y2}): ${theme}`);
+    }
+  }
+  return lines.join('\n');
+}
+
 /**
  * Build the system prompt for ground phase.
  * Fully dynamic - all sprite info comes from metadata.
@@ -82,9 +122,10 @@ function buildGroundPrompt(
   metadata: SpritesheetMetadata,
   sceneDescription?: string
 ): string {
-  // Extract ground tiles (exclude roads which have connectivity.connects)
+  // Extract ground tiles (exclude roads which have connectivity.connects,
+  // and transitions which are placed afterwards)
   const groundSprites = metadata.sprites.filter(
-    (s) => s.category === 'ground' && (!s.connectivity?.connects?.length)
+    (s) => s.category === 'ground' && (!s.connectivity?.connects?.length) && !isTransitionSprite(s)
   );
 
   // Categorize ground tiles for clearer guidance
@@ -99,6 +140,23 @@ function buildGroundPrompt(
   // Get first tile for example
   const exampleTile = groundSprites[0]?.id;
 
+  const hasShoreline = metadata.sprites.some(
+    (s) => s.category === 'ground' && s.connectivity.type === 'edge' && s.connectivity.contentSide
+  );
+  const shorelineTool = hasShoreline
+    ? '\n- wrapShoreline(x1, y1, x2, y2, hazardTileId) - Border a hazard region with shoreline tiles'
+    : '';
+  const shorelineGuide =
+    hasShoreline && hazardous.length > 0
+      ? `
+## SHORELINES
+After filling a hazard region (lake, pool), call wrapShoreline over the same
+rectangle with the hazard tile ID. Border tiles are swapped for shoreline
+edges facing the land, so the hazard reads as a natural shape instead of a
+hard square. Keep hazard regions at least 2 tiles wide.
+`
+      : '';
+
   // Build visual context section from scene description
   const visualContext = sceneDescription
     ? `## WORLD VISION (Read this carefully!)
@@ -112,7 +170,7 @@ Use this vision to guide your ground placement. Create ZONES that match the atmo
   return `${visualContext}You are filling ground tiles for a ${width}x${height} map.
 
 TOOLS AVAILABLE:
-- fillGround(x1, y1, x2, y2, tileId) - Fill rectangular region with ground tile
+- fillGround(x1, y1, x2, y2, tileId) - Fill rectangular region with ground tile${shorelineTool}
 - viewMap(layer) - View current map state
 
 COORDINATE SYSTEM:
@@ -134,13 +192,10 @@ Don't scatter tiles randomly. Create distinct areas:
 - **Danger spots** (corners): Hazardous tiles sparingly for visual interest
 - **Transition strips**: Leave space for roads (center strips)
 
-## QUADRANT STRATEGY for ${width}x${height}:
-- Top-left: Primary zone (matches main visual theme)
-- Top-right: Secondary zone (functional/commercial feel)
-- Bottom-left: Back alley zone (gritty/worn)
-- Bottom-right: Industrial/danger zone
-- Center strips: Reserve for roads (fill with neutral ground)
-
+## ZONE STRATEGY for ${width}x${height}:
+${buildZoneGuide(width, height)}
+- Center strips between zones: Reserve for roads (fill with neutral ground)
+${shorelineGuide}
 GOAL: Fill 100% of tiles. Create visual ZONES, not random noise.
 Empty cells show as '.' in viewMap and render as BLACK VOID - avoid at all costs.
 
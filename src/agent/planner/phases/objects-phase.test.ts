@@ -0,0 +1,64 @@
+import { readFileSync } from 'fs';
+import { afterEach, describe, expect, it } from 'vitest';
+import { GridState } from '../../lib/grid-state';
+import { setModelOverride } from '../../lib/models';
+import { createScriptedModel, getToolResults } from '../../lib/mock-model';
+import { SpritesheetMetadataSchema } from '../../types';
+import { executeObjectsPhase } from './objects-phase';
+
+const metadata = SpritesheetMetadataSchema.parse(
+  JSON.parse(readFileSync('examples/medieval-village/spritesheet-metadata.json', 'utf-8'))
+);
+
+function createGroundedGrid(): GridState {
+  const grid = new GridState(10, 10, metadata);
+  for (let y = 0; y < 10; y++) {
+    for (let x = 0; x < 10; x++) {
+      grid.setTile(x, y, 'wildflower_grass_patch');
+    }
+  }
+  return grid;
+}
+
+afterEach(() => setModelOverride('planner-objects', undefined));
+
+describe('executeObjectsPhase', () => {
+  it('places buildings and props from scripted placeAsset calls', async () => {
+    setModelOverride(
+      'planner-objects',
+      createScriptedModel([
+        [
+          { toolName: 'placeAsset', input: { x: 3, y: 3, assetId: 'stout_boar_tavern' } },
+          { toolName: 'placeAsset', input: { x: 7, y: 7, assetId: 'heavy_oak_bench' } },
+        ],
+        [{ toolName: 'viewMap', input: { layer: 'objects' } }],
+      ])
+    );
+
+    const grid = createGroundedGrid();
+    await executeObjectsPhase(grid, metadata, 10, 10, false);
+
+    // 2x2 bottom_center building anchored at (3,3) covers x=3..4, y=2..3
+    expect(grid.getOwner(4, 2, 'object')).toEqual({ x: 3, y: 3 });
+    expect(grid.getTile(7, 7, 'object')?.assetId).toBe('heavy_oak_bench');
+    expect(grid.getStats().objectsFilled).toBeGreaterThan(0);
+  });
+
+  it('rejects objects overlapping an existing footprint', async () => {
+    const model = createScriptedModel([
+      [
+        { toolName: 'placeAsset', input: { x: 3, y: 3, assetId: 'stout_boar_tavern' } },
+        { toolName: 'placeAsset', input: { x: 4, y: 2, assetId: 'heavy_oak_bench' } },
+      ],
+    ]);
+    setModelOverride('planner-objects', model);
+
+    const grid = createGroundedGrid();
+    await executeObjectsPhase(grid, metadata, 10, 10, false);
+
+    const [building, bench] = getToolResults(model);
+    expect(building?.output).toMatchObject({ success: true });
+    expect(bench?.output).toMatchObject({ success: false });
+    expect(grid.getTile(4, 2, 'object')?.assetId).toBe('stout_boar_tavern');
+  });
+});
@@ -2,15 +2,20 @@
  * Objects Phase
  *
  * Places buildings and props on the map after ground and roads.
- * Uses placeAsset tool for the objects layer.
+ * Uses placeAsset tool for the objects layer, and drawWall/encloseRegion
+ * when the spritesheet has wall sprites.
  */
 
 import { streamText, stepCountIs } from 'ai';
-import { google } from '@ai-sdk/google';
+import { getModel } from '../../lib/models';
 import type { GridState } from '../../lib/grid-state';
+import { getSeedSettings } from '../../lib/random';
 import type { SpritesheetMetadata, Sprite } from '../../types';
 import { createPlaceAssetTool } from '../tools/place-asset';
 import { createViewMapTool } from '../tools';
+import { createDrawWallTool, createEncloseRegionTool } from '../tools/draw-wall';
+import { getFootprint } from '../../lib/footprint';
+import { getStepBudget } from '../budget';
 
 /**
  * Execute the objects placement phase.
@@ -22,24 +27,29 @@ export async function executeObjectsPhase(
   width: number,
   height: number,
   verbose: boolean,
-  sceneDescription?: string
+  sceneDescription?: string,
+  seed?: number
 ): Promise<void> {
   if (verbose) console.log('[Objects Phase] Starting...');
 
   const tools = {
     placeAsset: createPlaceAssetTool(grid, verbose),
+    drawWall: createDrawWallTool(grid, verbose),
+    encloseRegion: createEncloseRegionTool(grid, verbose),
     viewMap: createViewMapTool(grid),
   };
 
   const systemPrompt = buildObjectsPrompt(width, height, metadata, sceneDescription);
 
   const result = streamText({
-    model: google('gemini-2.0-flash'),
+    model: getModel('planner-objects'),
+    ...getSeedSettings(seed),
     system: systemPrompt,
     tools,
-    stopWhen: stepCountIs(15),
+    stopWhen: stepCountIs(getStepBudget('objects', width, height)),
     prompt: `Place buildings and props on the ${width}x${height} map.
 
+Aim for about ${Math.max(2, Math.round((width * height) / 25))} buildings and ${Math.round(width * height * 0.15)} props, spread across the whole map.
 Buildings should be placed 1 tile away from roads.
 Props should be placed contextually (lamps near roads, benches in plazas, etc).`,
   });
@@ -54,10 +64,12 @@ Props should be placed contextually (lamps near roads, benches in plazas, etc).`
 
 /**
  * Categorize props by their likely placement context.
- * Uses sprite ID patterns to group props into functional categories.
+ * Uses sprite ID patterns to group props into functional categories;
+ * props no pattern matches (e.g. from a custom layout template) land in
+ * `other` with their description, so none are hidden from the model.
  */
 function categorizeProps(props: Sprite[]): Record<string, string[]> {
-  return {
+  const categories = {
     streetInfrastructure: props
       .filter((p) => /lamp|bench|sign|barrier|pole|hydrant/i.test(p.id))
       .map((p) => p.id),
@@ -77,6 +89,14 @@ function categorizeProps(props: Sprite[]): Record<string, string[]> {
       .filter((p) => /puddle|steam|flyer|graffiti|poster|neon/i.test(p.id))
       .map((p) => p.id),
   };
+
+  const categorized = new Set(Object.values(categories).flat());
+  return {
+    ...categories,
+    other: props
+      .filter((p) => !categorized.has(p.id))
+      .map((p) => `${p.id} (${p.description.substring(0, 40)})`),
+  };
 }
 
 /**
@@ -102,7 +122,22 @@ function formatPropCategories(cats: Record<string, string[]>): string {
   if (cats.atmospheric?.length) {
     lines.push(`- Atmospheric Details (scattered): ${cats.atmospheric.join(', ')}`);
   }
-  return lines.join('\n') || 'No categorized props found';
+  if (cats.other?.length) {
+    lines.push(`- Other (place where they fit the scene): ${cats.other.join(', ')}`);
+  }
+  return lines.join('\n') || 'No props found';
+}
+
+/**
+ * Describe which cells a sprite covers relative to its anchor (x, y).
+ */
+function describeFootprint(sprite: Sprite): string {
+  const { left, top, right, bottom } = getFootprint(sprite, 0, 0);
+  const range = (from: number, to: number, axis: string) => {
+    const fmt = (n: number) => (n === 0 ? axis : n > 0 ? `${axis}+${n}` : `${axis}${n}`);
+    return from === to ? fmt(from) : `${fmt(from)}..${fmt(to)}`;
+  };
+  return `covers x=${range(left, right, 'x')}, y=${range(top, bottom, 'y')}`;
 }
 
 /**
@@ -116,10 +151,10 @@ function buildObjectsPrompt(
   metadata: SpritesheetMetadata,
   sceneDescription?: string
 ): string {
-  // Extract and format buildings
+  // Extract and format buildings (with footprint so the model avoids overlaps)
   const buildings = metadata.sprites
     .filter((s) => s.category === 'building')
-    .map((s) => `  - ${s.id}: ${s.description.substring(0, 50)}`)
+    .map((s) => `  - ${s.id} (${s.w}x${s.h}, ${describeFootprint(s)}): ${s.description.substring(0, 50)}`)
     .join('\n');
 
   // Extract and categorize props
@@ -132,6 +167,24 @@ function buildObjectsPrompt(
     .map((s) => `  - ${s.id}: ${s.description.substring(0, 50)}`)
     .join('\n');
 
+  const hasWalls = metadata.sprites.some(
+    (s) => s.category === 'wall' && s.connectivity.connects.length > 0 && !s.placement.walkable
+  );
+  const wallTools = hasWalls
+    ? `
+- drawWall(fromX, fromY, toX, toY) - Draw a wall or fence; straights, corners and ends are picked automatically
+- encloseRegion(x1, y1, x2, y2, gateSide) - Wall in a rectangle with a gate on one side`
+    : '';
+  const wallGuide = hasWalls
+    ? `
+## WALLS AND FENCES
+Use encloseRegion for fenced farms, gardens and compounds; put the gate on
+the side facing the nearest road. Use drawWall for boundary walls. Never
+place wall sprites with placeAsset. Walls skip road cells, so a wall that
+crosses a road leaves an opening. Use walls sparingly: they block movement.
+`
+    : '';
+
   // Build visual context section from scene description
   const visualContext = sceneDescription
     ? `## WORLD VISION (Read carefully - this defines the MOOD!)
@@ -145,8 +198,8 @@ Place objects to REINFORCE this vision. Every placement should feel intentional.
   return `${visualContext}You are placing buildings and props on a ${width}x${height} map.
 
 TOOLS AVAILABLE:
-- placeAsset(x, y, assetId) - Place a building, prop, or marker
-- viewMap(layer) - View current map state ('objects' layer shows B=building, P=prop)
+- placeAsset(x, y, assetId) - Place a building, prop, or marker (multi-tile sprites cover every cell of their footprint; overlapping objects are rejected)
+- viewMap(layer) - View current map state ('objects' layer shows B=building, P=prop, W=wall)${wallTools}
 
 COORDINATE SYSTEM:
 - x: 0 to ${width - 1} (left to right)
@@ -159,7 +212,7 @@ ${buildings}
 ## PROPS BY CATEGORY:
 ${formatPropCategories(propCategories)}
 ${markers ? `\n## MARKERS:\n${markers}` : ''}
-
+${wallGuide}
 ## THEMATIC PLACEMENT RULES (CRITICAL!)
 
 ### 1. ZONE-BASED CHARACTER
@@ -0,0 +1,137 @@
+import { readFileSync } from 'fs';
+import { afterEach, describe, expect, it } from 'vitest';
+import { GridState } from '../../lib/grid-state';
+import { setModelOverride } from '../../lib/models';
+import { createScriptedModel, getToolResults, type MockToolCall } from '../../lib/mock-model';
+import { SpritesheetMetadataSchema } from '../../types';
+import { executeRoadsPhase } from './roads-phase';
+
+const metadata = SpritesheetMetadataSchema.parse(
+  JSON.parse(readFileSync('examples/medieval-village/spritesheet-metadata.json', 'utf-8'))
+);
+
+function createGroundedGrid(): GridState {
+  const grid = new GridState(10, 10, metadata);
+  for (let y = 0; y < 10; y++) {
+    for (let x = 0; x < 10; x++) {
+      grid.setTile(x, y, 'packed_dirt_path');
+    }
+  }
+  return grid;
+}
+
+function placeRoads(y: number, fromX: number, toX: number): MockToolCall[] {
+  const calls: MockToolCall[] = [];
+  for (let x = fromX; x <= toX; x++) {
+    calls.push({ toolName: 'placeRoad', input: { x, y, spriteId: 'cobblestone_road_horizontal' } });
+  }
+  return calls;
+}
+
+afterEach(() => setModelOverride('planner-roads', undefined));
+
+describe('executeRoadsPhase', () => {
+  it('builds a connected network when connectRoads joins separate roads', async () => {
+    setModelOverride(
+      'planner-roads',
+      createScriptedModel([
+        placeRoads(2, 0, 4),
+        placeRoads(7, 5, 9),
+        [{ toolName: 'connectRoads', input: {} }],
+        [{ toolName: 'viewMap', input: { layer: 'ground' } }],
+      ])
+    );
+
+    const grid = createGroundedGrid();
+    await executeRoadsPhase(grid, metadata, 10, 10, false, undefined, 1);
+
+    const connectivity = grid.validateRoadConnectivity();
+    expect(connectivity.totalRoadTiles).toBeGreaterThan(10);
+    expect(connectivity.connected).toBe(true);
+  });
+
+  it('lays a road graph with a junction and a bent edge', async () => {
+    const model = createScriptedModel([
+      [
+        {
+          toolName: 'planRoads',
+          input: {
+            nodes: [
+              { id: 'center', x: 4, y: 4 },
+              { id: 'west', x: 0, y: 4 },
+              { id: 'east', x: 9, y: 4 },
+              { id: 'north', x: 4, y: 0 },
+              { id: 'south', x: 6, y: 9 },
+            ],
+            edges: [
+              { from: 'center', to: 'west' },
+              { from: 'center', to: 'east' },
+              { from: 'center', to: 'north' },
+              { from: 'center', to: 'south', waypoints: [{ x: 4, y: 6 }, { x: 6, y: 6 }] },
+            ],
+          },
+        },
+      ],
+    ]);
+    setModelOverride('planner-roads', model);
+
+    const grid = createGroundedGrid();
+    await executeRoadsPhase(grid, metadata, 10, 10, false, undefined, 1);
+
+    // Road ends have no cap sprite in this sheet; everything else resolves
+    const [plan] = getToolResults(model);
+    expect(plan?.output).toMatchObject({ connected: true });
+    expect(grid.getTile(4, 4)?.assetId).toBe('cobblestone_intersection_4_way');
+    expect(grid.getTile(4, 6)?.assetId).toBe('cobblestone_corner_ne');
+    expect(grid.getTile(6, 6)?.assetId).toBe('cobblestone_corner_sw');
+    expect(grid.getTile(6, 8)?.assetId).toBe('cobblestone_road_vertical');
+  });
+
+  it('rejects a road graph in separate parts without placing anything', async () => {
+    const model = createScriptedModel([
+      [
+        {
+          toolName: 'planRoads',
+          input: {
+            nodes: [
+              { id: 'a', x: 0, y: 2 },
+              { id: 'b', x: 9, y: 2 },
+              { id: 'c', x: 0, y: 7 },
+              { id: 'd', x: 9, y: 7 },
+            ],
+            edges: [
+              { from: 'a', to: 'b' },
+              { from: 'c', to: 'd' },
+            ],
+          },
+        },
+      ],
+    ]);
+    setModelOverride('planner-roads', model);
+
+    const grid = createGroundedGrid();
+    await executeRoadsPhase(grid, metadata, 10, 10, false, undefined, 1);
+
+    const [plan] = getToolResults(model);
+    expect(plan?.output).toMatchObject({ success: false });
+    expect(grid.getRoadNetwork().size).toBe(0);
+  });
+
+  it('rejects a road that does not match its neighbours', async () => {
+    const model = createScriptedModel([
+      [
+        { toolName: 'placeRoad', input: { x: 4, y: 4, spriteId: 'cobblestone_road_horizontal' } },
+        { toolName: 'placeRoad', input: { x: 5, y: 4, spriteId: 'cobblestone_road_vertical' } },
+      ],
+    ]);
+    setModelOverride('planner-roads', model);
+
+    const grid = createGroundedGrid();
+    await executeRoadsPhase(grid, metadata, 10, 10, false, undefined, 1);
+
+    const [first, second] = getToolResults(model);
+    expect(first?.output).toMatchObject({ success: true });
+    expect(second?.output).toMatchObject({ success: false });
+    expect(grid.getTile(5, 4)?.assetId).toBe('packed_dirt_path');
+  });
+});
@@ -2,20 +2,29 @@
  * Roads Phase
  *
  * Builds the road network on top of existing ground tiles.
- * Uses placeRoad tool with exact sprite IDs based on connectivity.
+ * The model lays the network as a node/edge graph with planRoads and
+ * extends it with drawRoad; both pick sprites from connectivity. placeRoad
+ * (exact sprite IDs) stays as an expert fallback, and wfcFill solves whole
+ * regions from connectivity sockets.
  */
 
 import { streamText, stepCountIs } from 'ai';
-import { google } from '@ai-sdk/google';
+import { getModel } from '../../lib/models';
 import type { GridState } from '../../lib/grid-state';
+import { getSeedSettings, randomSeed } from '../../lib/random';
+import type { AdjacencyModel } from '../../lib/wfc';
 import type { SpritesheetMetadata } from '../../types';
 import { createPlaceRoadTool } from '../tools/place-road';
+import { createDrawRoadTool } from '../tools/draw-road';
+import { createPlanRoadsTool } from '../tools/plan-roads';
 import { createConnectRoadsTool } from '../tools/connect-roads';
+import { createWfcFillTool } from '../tools/wfc-fill';
 import { createViewMapTool } from '../tools';
+import { getRoadBudget, getStepBudget } from '../budget';
 
 /**
  * Execute the road building phase.
- * Places roads using exact sprite IDs with connectivity validation.
+ * Lays a road graph, then fills in extra roads and fixes connectivity.
  */
 export async function executeRoadsPhase(
   grid: GridState,
@@ -23,27 +32,34 @@ export async function executeRoadsPhase(
   width: number,
   height: number,
   verbose: boolean,
-  sceneDescription?: string
+  sceneDescription?: string,
+  seed?: number,
+  wfcModel?: AdjacencyModel
 ): Promise<void> {
   if (verbose) console.log('[Roads Phase] Starting...');
 
-  const maxRoadTiles = Math.floor(width * height * 0.25);
+  const maxRoadTiles = getRoadBudget(width, height);
 
   const tools = {
+    planRoads: createPlanRoadsTool(grid, maxRoadTiles, verbose),
+    drawRoad: createDrawRoadTool(grid, maxRoadTiles, verbose),
     placeRoad: createPlaceRoadTool(grid, maxRoadTiles, verbose),
     connectRoads: createConnectRoadsTool(grid, verbose),
+    wfcFill: createWfcFillTool(grid, { model: wfcModel, seed: seed ?? randomSeed() }, verbose),
     viewMap: createViewMapTool(grid),
   };
 
   const systemPrompt = buildRoadsPrompt(width, height, metadata, maxRoadTiles, sceneDescription);
 
   const result = streamText({
-    model: google('gemini-2.0-flash'),
+    model: getModel('planner-roads'),
+    ...getSeedSettings(seed),
     system: systemPrompt,
     tools,
-    stopWhen: stepCountIs(25),
+    stopWhen: stepCountIs(getStepBudget('roads', width, height)),
     prompt: `Build a connected road network on the ${width}x${height} map.
 
+Lay the main network with a single planRoads call, then add side roads with drawRoad.
 Create roads that divide the map into distinct zones.
 Use connectRoads at the end to auto-fix any connectivity issues.`,
   });
@@ -92,6 +108,54 @@ function inferLayoutStyle(
   };
 }
 
+/**
+ * Evenly spaced road lines for the map size: one road per ~10 tiles in
+ * each direction, so large maps get more than a single cross.
+ */
+function getSuggestedRoadLines(width: number, height: number): { rows: number[]; columns: number[] } {
+  const spaced = (length: number, count: number) =>
+    Array.from({ length: count }, (_, i) => Math.floor(((i + 1) * length) / (count + 1)));
+
+  return {
+    rows: spaced(height, Math.max(1, Math.round(height / 10))),
+    columns: spaced(width, Math.max(1, Math.round(width / 10))),
+  };
+}
+
+function buildSuggestedLayout(width: number, height: number): string {
+  const { rows, columns } = getSuggestedRoadLines(width, height);
+  const zones = (rows.length + 1) * (columns.length + 1);
+
+  return [
+    `- Horizontal road${rows.length > 1 ? 's' : ''} at y=${rows.join(', y=')} (primary first)`,
+    `- Vertical road${columns.length > 1 ? 's' : ''} at x=${columns.join(', x=')}`,
+    `- Creates ${zones} zones for building placement in Phase 3`,
+  ].join('\n');
+}
+
+/**
+ * planRoads call for the first suggested crossing, as a prompt example.
+ */
+function buildGraphExample(width: number, height: number): string {
+  const { rows, columns } = getSuggestedRoadLines(width, height);
+  const x = columns[0]!;
+  const y = rows[0]!;
+
+  const nodes = [
+    `{ id: "center", x: ${x}, y: ${y} }`,
+    `{ id: "west", x: 0, y: ${y} }`,
+    `{ id: "east", x: ${width - 1}, y: ${y} }`,
+    `{ id: "north", x: ${x}, y: 0 }`,
+    `{ id: "south", x: ${x}, y: ${height - 1} }`,
+  ];
+  const edges = ['west', 'east', 'north', 'south'].map((end) => `{ from: "center", to: "${end}" }`);
+
+  return `planRoads({
+  nodes: [${nodes.join(', ')}],
+  edges: [${edges.join(', ')}]
+})`;
+}
+
 /**
  * Build the system prompt for roads phase.
  * Fully dynamic - all sprite info comes from metadata.
@@ -104,9 +168,10 @@ function buildRoadsPrompt(
   maxRoadTiles: number,
   sceneDescription?: string
 ): string {
-  // Extract road sprites (ground tiles with connectivity.connects)
+  // Extract road sprites (ground tiles with path-like connectivity; shoreline
+  // edges also have connects but are not roads)
   const roadSprites = metadata.sprites.filter(
-    (s) => s.category === 'ground' && s.connectivity?.connects?.length
+    (s) => s.category === 'ground' && s.connectivity?.connects?.length && s.connectivity.type !== 'edge'
   );
 
   if (roadSprites.length === 0) {
@@ -164,9 +229,12 @@ ${layoutStyle.description}
 **INDUSTRIAL** (cyberpunk/dystopian): Main thoroughfare bisecting map, service alleys on edges
 
 TOOLS AVAILABLE:
-- placeRoad(x, y, spriteId) - Place a road tile at position
+- planRoads(nodes, edges, allowBridges?, avoid?) - Lay a whole road network from a graph (PREFERRED): nodes are intersections and road ends, edges connect two nodes and may pass through waypoints
+- drawRoad(fromX, fromY, toX, toY, allowBridge?, avoid?) - Add one road from A to B; must start or end on the existing network
+- placeRoad(x, y, spriteId, rotation?) - Expert fallback: place one exact road sprite (for small fixes only)
 - connectRoads() - Auto-fix disconnected road segments
-- viewMap(layer) - View current map state
+- wfcFill(x, y, width, height, pins?) - Generate consistent roads + ground for a whole region (replaces ground there; pins fix tiles like a plaza first)
+- viewMap(layer) - View current map state; 'roads' draws how each road tile connects (─ │ ┌ ┼ ...)
 
 COORDINATE SYSTEM:
 - x: 0 to ${width - 1} (left to right)
@@ -174,9 +242,15 @@ COORDINATE SYSTEM:
 - (0,0) is top-left corner
 
 ## SUGGESTED LAYOUT for ${width}x${height}:
-- Primary road: Horizontal at y=${Math.floor(height / 2)}
-- Secondary road: Vertical at x=${Math.floor(width / 2)}
-- Creates 4 zones for building placement in Phase 3
+${buildSuggestedLayout(width, height)}
+
+## ROAD GRAPH EXAMPLE (one crossing):
+${buildGraphExample(width, height)}
+
+planRoads and drawRoad pick straights, corners and junctions for you, and
+route around buildings, props and hazard ground. Add waypoints to an edge to
+steer it (e.g. a winding village lane), avoid rectangles to keep roads out
+of a plaza, and allowBridges only when a road must cross water.
 
 ROAD SPRITES:
 ${roadSpritesList}
@@ -186,7 +260,8 @@ CONNECTIVITY RULES:
 - Use 'path' type sprites for straight segments
 - Use 'corner' type sprites for turns
 - Use 'intersection' type sprites where roads cross
-- The placeRoad tool validates connectivity and suggests correct sprites if wrong
+- planRoads and drawRoad apply these automatically; only placeRoad needs them,
+  and it validates connectivity and suggests correct sprites if wrong
 
 ${horizontalSprite && verticalSprite && intersectionSprite ? `EXAMPLE - Cross intersection:
   0123456789
@@ -0,0 +1,50 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { GridState } from '../lib/grid-state';
+import { evaluateMapQuality } from '../lib/map-quality';
+import { loadLayoutTemplate } from '../designer/layout-template';
+import type { Sprite, SpritesheetMetadata } from '../types';
+import { paintRoadSkeleton, runProceduralPlanner } from './procedural';
+
+// The harbour layout has one road sprite per shape and relies on rotation
+let metadata: SpritesheetMetadata;
+
+beforeAll(async () => {
+  const { slots } = await loadLayoutTemplate('examples/layouts/harbour.json');
+  const sprites: Sprite[] = slots.map((slot) => ({
+    id: `${slot.row}_${slot.col}`,
+    category: slot.category,
+    col: slot.col,
+    row: slot.row,
+    w: slot.w,
+    h: slot.h,
+    description: slot.hint,
+    placement: slot.placement,
+    connectivity: slot.connectivity,
+  }));
+  metadata = { theme: 'harbour', tileSize: 256, columns: 16, rows: 16, sprites };
+});
+
+function rotatedCells(grid: GridState): number {
+  return grid.toJSON().layers.ground.flat().filter((cell) => cell?.rotation).length;
+}
+
+describe('runProceduralPlanner', () => {
+  it('rotates road sprites on a sheet with one sprite per shape', () => {
+    const grid = new GridState(20, 20, metadata);
+    runProceduralPlanner(grid, 3);
+
+    expect(rotatedCells(grid)).toBeGreaterThan(0);
+    expect(evaluateMapQuality(grid.toJSON(), metadata).details.roadEndMismatches).toEqual([]);
+    expect(grid.validateRoadConnectivity().connected).toBe(true);
+  });
+});
+
+describe('paintRoadSkeleton', () => {
+  it('rotates road sprites on a sheet with one sprite per shape', () => {
+    const grid = new GridState(32, 32, metadata);
+    paintRoadSkeleton(grid, 16, 5);
+
+    expect(rotatedCells(grid)).toBeGreaterThan(0);
+    expect(evaluateMapQuality(grid.toJSON(), metadata).details.roadEndMismatches).toEqual([]);
+  });
+});
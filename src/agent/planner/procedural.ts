@@ -0,0 +1,428 @@
+/**
+ * Procedural Planner (offline backend)
+ *
+ * Fills the same GridState as the AI phases, but algorithmically from a
+ * seed. No network access, so maps can be generated in CI and reproduced
+ * exactly from `--seed`.
+ *
+ * Architecture Decision:
+ * - Same three steps as the AI planner (ground → roads → objects), driven
+ *   only by sprite metadata (category, walkable, connectivity, footprint)
+ * - The road layout is planned first as a mask, so ground zones can keep
+ *   hazards (water, lava) off the road network
+ * - Road tiles are resolved from each cell's neighbours through
+ *   lib/road-tiles, like drawRoad, so sheets with one sprite per shape get
+ *   rotated tiles; map edges count as connections so roads run off the
+ *   map instead of ending in caps
+ * - All randomness goes through a seeded Rng (never Math.random)
+ */
+
+import type { GridState } from '../lib/grid-state';
+import type { Direction, Sprite } from '../types';
+import { createRng, type Rng } from '../lib/random';
+import { getFootprint, getFootprintCells } from '../lib/footprint';
+import { isTransitionSprite } from '../lib/terrain-transitions';
+import {
+  DIRECTION_OFFSETS,
+  DIRECTIONS,
+  findRoadTiles,
+  OPPOSITE_DIRECTION,
+  placeRoadTile,
+  type RoadTile,
+} from '../lib/road-tiles';
+
+/** Set of "x,y" keys */
+type CellSet = Set<string>;
+
+const key = (x: number, y: number) => `${x},${y}`;
+
+/**
+ * Run the procedural planner on an empty grid.
+ *
+ * @param grid - Grid to fill (shared with the rest of the pipeline)
+ * @param seed - Seed for all random decisions
+ * @param verbose - Enable detailed logging
+ */
+export function runProceduralPlanner(grid: GridState, seed: number, verbose = false): void {
+  const rng = createRng(seed);
+
+  if (verbose) console.log(`[Procedural] Seed: ${seed}`);
+
+  const roadMask = planRoadMask(grid.width, grid.height, rng);
+
+  fillGroundZones(grid, rng, roadMask, verbose);
+  paintRoads(grid, rng, roadMask, verbose);
+  placeObjects(grid, rng, verbose);
+}
+
+// ─────────────────────────────────────────────────────────────────
+// Roads - layout
+// ─────────────────────────────────────────────────────────────────
+
+/**
+ * Plan a connected road network: one east-west main street spanning the
+ * map, plus north-south side streets that either cross it or branch off
+ * it towards the south edge.
+ */
+function planRoadMask(width: number, height: number, rng: Rng): CellSet {
+  const mask: CellSet = new Set();
+  if (width < 3 || height < 3) return mask;
+
+  const mainY = rng.int(Math.floor(height / 3), Math.ceil((2 * height) / 3) - 1);
+  for (let x = 0; x < width; x++) {
+    mask.add(key(x, mainY));
+  }
+
+  // Side streets at least 3 columns apart, away from the map edges
+  const streetCount = Math.max(1, Math.floor(width / 6));
+  const columns: number[] = [];
+  for (const x of rng.shuffle(Array.from({ length: width - 2 }, (_, i) => i + 1))) {
+    if (columns.length >= streetCount) break;
+    if (columns.every(c => Math.abs(c - x) >= 3)) {
+      columns.push(x);
+    }
+  }
+
+  for (const x of columns) {
+    const fromY = rng.chance(0.5) ? 0 : mainY;
+    for (let y = fromY; y < height; y++) {
+      mask.add(key(x, y));
+    }
+  }
+
+  return mask;
+}
+
+/**
+ * Paint a road skeleton for chunked generation: one full-length road per
+ * band of `spacing` rows and columns, placed near the middle of each band
+ * (so it runs through chunks rather than along their seams). Full-length
+ * lines always cross, so the network is connected by construction.
+ *
+ * @param grid - Grid to paint roads onto (ground layer)
+ * @param spacing - Band size, usually the chunk size
+ * @param seed - Seed for road positions and sprite variants
+ * @param verbose - Enable detailed logging
+ */
+export function paintRoadSkeleton(grid: GridState, spacing: number, seed: number, verbose = false): void {
+  const rng = createRng(seed);
+  const mask: CellSet = new Set();
+
+  const bandLines = (length: number): number[] => {
+    const lines: number[] = [];
+    for (let start = 0; start < length; start += spacing) {
+      const size = Math.min(spacing, length - start);
+      if (size < 3) continue;
+      lines.push(start + rng.int(Math.floor(size / 3), Math.ceil((2 * size) / 3) - 1));
+    }
+    return lines;
+  };
+
+  for (const y of bandLines(grid.height)) {
+    for (let x = 0; x < grid.width; x++) mask.add(key(x, y));
+  }
+  for (const x of bandLines(grid.width)) {
+    for (let y = 0; y < grid.height; y++) mask.add(key(x, y));
+  }
+
+  paintRoads(grid, rng, mask, verbose);
+}
+
+/**
+ * Directions a road cell needs to connect, from its neighbours in the mask.
+ * A straight run that reaches the map edge also connects off-map.
+ */
+function getMaskConnections(mask: CellSet, x: number, y: number, width: number, height: number): Direction[] {
+  const connections: Direction[] = [];
+
+  for (const dir of DIRECTIONS) {
+    const { dx, dy } = DIRECTION_OFFSETS[dir];
+    const nx = x + dx;
+    const ny = y + dy;
+    const offMap = nx < 0 || nx >= width || ny < 0 || ny >= height;
+
+    if (offMap) {
+      const back = DIRECTION_OFFSETS[OPPOSITE_DIRECTION[dir]];
+      if (mask.has(key(x + back.dx, y + back.dy))) {
+        connections.push(dir);
+      }
+    } else if (mask.has(key(nx, ny))) {
+      connections.push(dir);
+    }
+  }
+
+  return connections;
+}
+
+/**
+ * Pick the road tile for a set of connections.
+ * Exact or rotated match first (random among equals), then the smallest
+ * superset (e.g. a 4-way when the sheet has no T-junction in any
+ * orientation), then the unrotated sprite with the closest overlap.
+ */
+function pickRoadTile(grid: GridState, connections: Direction[], rng: Rng): RoadTile | undefined {
+  const matches = findRoadTiles(grid, connections);
+  if (matches.length > 0) {
+    return rng.pick(matches);
+  }
+
+  const missing = DIRECTIONS.filter(d => !connections.includes(d));
+  for (let extra = 1; extra <= missing.length; extra++) {
+    const supersets = combinations(missing, extra).flatMap(added => findRoadTiles(grid, [...connections, ...added]));
+    if (supersets.length > 0) {
+      return rng.pick(supersets);
+    }
+  }
+
+  const scored = grid.getRoadSprites().map(sprite => {
+    const connects = sprite.connectivity.connects;
+    const shared = connections.filter(d => connects.includes(d)).length;
+    return { sprite, missing: connections.length - shared, extra: connects.length - shared };
+  });
+  scored.sort((a, b) => a.missing - b.missing || a.extra - b.extra);
+  return scored[0] && { sprite: scored[0].sprite, rotation: 0 };
+}
+
+/** Every way to choose `size` items from `items`, in order */
+function combinations<T>(items: T[], size: number): T[][] {
+  if (size === 0) return [[]];
+  return items.flatMap((item, i) => combinations(items.slice(i + 1), size - 1).map(rest => [item, ...rest]));
+}
+
+/**
+ * Paint the planned road network onto the ground layer.
+ */
+function paintRoads(grid: GridState, rng: Rng, mask: CellSet, verbose: boolean): void {
+  if (grid.getRoadSprites().length === 0) {
+    if (verbose) console.log('[Procedural] No road sprites in metadata, skipping roads');
+    return;
+  }
+
+  let painted = 0;
+  for (let y = 0; y < grid.height; y++) {
+    for (let x = 0; x < grid.width; x++) {
+      if (!mask.has(key(x, y))) continue;
+
+      const connections = getMaskConnections(mask, x, y, grid.width, grid.height);
+      const tile = pickRoadTile(grid, connections, rng);
+      if (!tile) continue;
+
+      placeRoadTile(grid, x, y, tile);
+      painted++;
+    }
+  }
+
+  if (verbose) {
+    const connectivity = grid.validateRoadConnectivity();
+    console.log(`[Procedural] Roads: ${painted} tiles, connected=${connectivity.connected}`);
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────
+// Ground - zones
+// ─────────────────────────────────────────────────────────────────
+
+/**
+ * Fill the ground layer with Voronoi-style zones of walkable ground,
+ * plus one hazard patch (if the sheet has one) kept off the roads.
+ */
+function fillGroundZones(grid: GridState, rng: Rng, roadMask: CellSet, verbose: boolean): void {
+  const groundSprites = grid
+    .getSpritesByCategory('ground')
+    .filter(s => s.connectivity.connects.length === 0 && s.w === 1 && s.h === 1 && !isTransitionSprite(s));
+  const walkable = groundSprites.filter(s => s.placement.walkable);
+  const hazards = groundSprites.filter(s => !s.placement.walkable);
+
+  if (walkable.length === 0) {
+    throw new Error('No walkable ground sprites found in metadata');
+  }
+
+  const area = grid.width * grid.height;
+  const zoneCount = Math.min(6, Math.max(2, Math.round(area / 25)));
+  const zoneSprites = rng.shuffle(walkable);
+  const zones = Array.from({ length: zoneCount }, (_, i) => ({
+    x: rng.int(0, grid.width - 1),
+    y: rng.int(0, grid.height - 1),
+    sprite: zoneSprites[i % zoneSprites.length]!,
+  }));
+
+  for (let y = 0; y < grid.height; y++) {
+    for (let x = 0; x < grid.width; x++) {
+      // Jitter the distance so zone borders are ragged instead of straight
+      let best = zones[0]!;
+      let bestDistance = Infinity;
+      for (const zone of zones) {
+        const distance = (zone.x - x) ** 2 + (zone.y - y) ** 2 + rng.next() * 2;
+        if (distance < bestDistance) {
+          best = zone;
+          bestDistance = distance;
+        }
+      }
+      grid.setTile(x, y, best.sprite.id, 'ground');
+    }
+  }
+
+  let hazardTiles = 0;
+  if (hazards.length > 0) {
+    hazardTiles = growHazardPatch(grid, rng, rng.pick(hazards), roadMask, Math.max(2, Math.round(area / 20)));
+  }
+
+  if (verbose) {
+    console.log(
+      `[Procedural] Ground: ${zoneCount} zones (${[...new Set(zones.map(z => z.sprite.id))].join(', ')}), ${hazardTiles} hazard tiles`
+    );
+  }
+}
+
+/**
+ * Grow a blob of hazard ground by random walk, keeping one tile of
+ * clearance from every road. Returns the number of tiles painted.
+ */
+function growHazardPatch(grid: GridState, rng: Rng, hazard: Sprite, roadMask: CellSet, size: number): number {
+  const nearRoad = (x: number, y: number) => {
+    for (let dy = -1; dy <= 1; dy++) {
+      for (let dx = -1; dx <= 1; dx++) {
+        if (roadMask.has(key(x + dx, y + dy))) return true;
+      }
+    }
+    return false;
+  };
+
+  const candidates: Array<{ x: number; y: number }> = [];
+  for (let y = 0; y < grid.height; y++) {
+    for (let x = 0; x < grid.width; x++) {
+      if (!nearRoad(x, y)) candidates.push({ x, y });
+    }
+  }
+  if (candidates.length === 0) return 0;
+
+  const start = rng.pick(candidates);
+  const patch: Array<{ x: number; y: number }> = [start];
+  const inPatch: CellSet = new Set([key(start.x, start.y)]);
+
+  for (let attempts = 0; patch.length < size && attempts < size * 20; attempts++) {
+    const from = rng.pick(patch);
+    const { dx, dy } = DIRECTION_OFFSETS[rng.pick(DIRECTIONS)];
+    const x = from.x + dx;
+    const y = from.y + dy;
+    if (x < 0 || x >= grid.width || y < 0 || y >= grid.height) continue;
+    if (inPatch.has(key(x, y)) || nearRoad(x, y)) continue;
+
+    patch.push({ x, y });
+    inPatch.add(key(x, y));
+  }
+
+  for (const { x, y } of patch) {
+    grid.setTile(x, y, hazard.id, 'ground');
+  }
+  return patch.length;
+}
+
+// ─────────────────────────────────────────────────────────────────
+// Objects - buildings, props, markers
+// ─────────────────────────────────────────────────────────────────
+
+/**
+ * Place buildings along roads, then props and markers around them.
+ * Also used by the WFC planner, which only solves the ground layer.
+ */
+export function placeObjects(grid: GridState, rng: Rng, verbose: boolean): void {
+  const area = grid.width * grid.height;
+
+  // Objects only go on walkable, non-road ground
+  const isBuildable = (x: number, y: number): boolean => {
+    const tile = grid.getTile(x, y, 'ground');
+    const sprite = tile ? grid.getSprite(tile.assetId) : undefined;
+    return !!sprite && sprite.placement.walkable && !grid.isRoadAt(x, y);
+  };
+
+  const isAdjacentToRoad = (x: number, y: number): boolean =>
+    DIRECTIONS.some(dir => {
+      const { dx, dy } = DIRECTION_OFFSETS[dir];
+      return grid.isRoadAt(x + dx, y + dy);
+    });
+
+  const canPlace = (sprite: Sprite, x: number, y: number): boolean =>
+    grid.checkPlacement(x, y, sprite.id, 'object') === null &&
+    getFootprintCells(getFootprint(sprite, x, y)).every(c => isBuildable(c.x, c.y));
+
+  const allCells = Array.from({ length: area }, (_, i) => ({
+    x: i % grid.width,
+    y: Math.floor(i / grid.width),
+  }));
+
+  // Buildings: front onto a road, with a one-tile gap between buildings
+  const buildings = rng.shuffle(grid.getSpritesByCategory('building'));
+  const buildingTarget = buildings.length > 0 ? Math.max(1, Math.round(area / 25)) : 0;
+  let buildingsPlaced = 0;
+
+  const hasBuildingNearby = (sprite: Sprite, x: number, y: number): boolean => {
+    const fp = getFootprint(sprite, x, y);
+    for (let cy = fp.top - 1; cy <= fp.bottom + 1; cy++) {
+      for (let cx = fp.left - 1; cx <= fp.right + 1; cx++) {
+        const tile = grid.getTile(cx, cy, 'object');
+        if (tile && grid.getSprite(tile.assetId)?.category === 'building') return true;
+      }
+    }
+    return false;
+  };
+
+  for (const { x, y } of rng.shuffle(allCells)) {
+    if (buildingsPlaced >= buildingTarget) break;
+
+    const sprite = buildings[buildingsPlaced % buildings.length]!;
+    if (!canPlace(sprite, x, y) || hasBuildingNearby(sprite, x, y)) continue;
+
+    const cells = getFootprintCells(getFootprint(sprite, x, y));
+    if (!cells.some(c => isAdjacentToRoad(c.x, c.y))) continue;
+
+    grid.setTile(x, y, sprite.id, 'object');
+    buildingsPlaced++;
+  }
+
+  // Props: mostly near roads and buildings, a few scattered for texture
+  const props = grid.getSpritesByCategory('prop');
+  const propTarget = props.length > 0 ? Math.round(area * 0.15) : 0;
+  let propsPlaced = 0;
+
+  const isNearActivity = (x: number, y: number): boolean => {
+    for (let dy = -2; dy <= 2; dy++) {
+      for (let dx = -2; dx <= 2; dx++) {
+        if (grid.isRoadAt(x + dx, y + dy) || grid.getTile(x + dx, y + dy, 'object')) return true;
+      }
+    }
+    return false;
+  };
+
+  for (const { x, y } of rng.shuffle(allCells)) {
+    if (propsPlaced >= propTarget) break;
+    if (!isNearActivity(x, y) && !rng.chance(0.25)) continue;
+
+    // Keep road shoulders clear of blocking props
+    const candidates = props.filter(
+      p => canPlace(p, x, y) && (p.placement.walkable || !isAdjacentToRoad(x, y))
+    );
+    if (candidates.length === 0) continue;
+
+    grid.setTile(x, y, rng.pick(candidates).id, 'object');
+    propsPlaced++;
+  }
+
+  // Markers: one beside the road network (e.g. spawn point)
+  const markers = grid.getSpritesByCategory('marker');
+  let markersPlaced = 0;
+  if (markers.length > 0) {
+    const marker = rng.pick(markers);
+    const spot = rng.shuffle(allCells).find(c => isAdjacentToRoad(c.x, c.y) && canPlace(marker, c.x, c.y));
+    if (spot) {
+      grid.setTile(spot.x, spot.y, marker.id, 'object');
+      markersPlaced++;
+    }
+  }
+
+  if (verbose) {
+    console.log(
+      `[Procedural] Objects: ${buildingsPlaced} buildings, ${propsPlaced} props, ${markersPlaced} markers`
+    );
+  }
+}
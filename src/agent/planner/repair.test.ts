@@ -0,0 +1,108 @@
+import { readFileSync } from 'fs';
+import { describe, expect, it } from 'vitest';
+import { GridState } from '../lib/grid-state';
+import { SpritesheetMetadataSchema } from '../types';
+import { fillGroundHoles, rederiveRoadSprites, removeMisplacedObjects, repairAfterPhase } from './repair';
+
+const metadata = SpritesheetMetadataSchema.parse(
+  JSON.parse(readFileSync('examples/medieval-village/spritesheet-metadata.json', 'utf-8'))
+);
+
+function fillAll(grid: GridState, assetId: string): void {
+  for (let y = 0; y < grid.height; y++) {
+    for (let x = 0; x < grid.width; x++) {
+      grid.setTile(x, y, assetId);
+    }
+  }
+}
+
+describe('fillGroundHoles', () => {
+  it('fills holes from the surrounding ground', () => {
+    const grid = new GridState(6, 6, metadata);
+    fillAll(grid, 'dense_moss_ground_cover');
+    grid.clearTile(2, 2);
+    grid.clearTile(3, 2);
+
+    const fixes = fillGroundHoles(grid);
+
+    expect(fixes).toHaveLength(2);
+    expect(grid.getTile(2, 2)?.assetId).toBe('dense_moss_ground_cover');
+    expect(grid.getStats().groundFilled).toBe(36);
+  });
+
+  it('prefers walkable neighbours over hazards', () => {
+    const grid = new GridState(3, 1, metadata);
+    grid.setTile(0, 0, 'clear_stream_bed');
+    grid.setTile(2, 0, 'packed_dirt_path');
+
+    fillGroundHoles(grid);
+
+    expect(grid.getTile(1, 0)?.assetId).toBe('packed_dirt_path');
+  });
+
+  it('fills a completely empty map', () => {
+    const grid = new GridState(4, 4, metadata);
+    fillGroundHoles(grid);
+    expect(grid.getStats().groundFilled).toBe(16);
+  });
+});
+
+describe('rederiveRoadSprites', () => {
+  it('turns mismatched road ends into the sprite their neighbours need', () => {
+    const grid = new GridState(5, 5, metadata);
+    fillAll(grid, 'packed_dirt_path');
+    // An L-shaped road drawn with straight pieces only
+    grid.setTile(1, 2, 'cobblestone_road_horizontal');
+    grid.setTile(2, 2, 'cobblestone_road_horizontal');
+    grid.setTile(2, 3, 'cobblestone_road_vertical');
+
+    const fixes = rederiveRoadSprites(grid);
+
+    expect(grid.getTile(2, 2)?.assetId).toBe('cobblestone_corner_sw');
+    expect(grid.getTile(2, 3)?.assetId).toBe('cobblestone_road_vertical');
+    expect(fixes.map((f) => [f.x, f.y])).toContainEqual([2, 2]);
+  });
+
+  it('keeps roads that run off the map edge', () => {
+    const grid = new GridState(3, 1, metadata);
+    fillAll(grid, 'cobblestone_road_horizontal');
+
+    expect(rederiveRoadSprites(grid)).toEqual([]);
+  });
+});
+
+describe('removeMisplacedObjects', () => {
+  it('removes objects on roads and on hazards but keeps walkable ones on water', () => {
+    const grid = new GridState(5, 5, metadata);
+    fillAll(grid, 'wildflower_grass_patch');
+    grid.setTile(1, 1, 'cobblestone_intersection_4_way');
+    grid.setTile(3, 3, 'clear_stream_bed');
+    grid.setTile(3, 1, 'clear_stream_bed');
+    grid.setTile(1, 1, 'heavy_oak_bench', 'object');
+    grid.setTile(3, 3, 'wooden_storage_crate', 'object');
+    grid.setTile(3, 1, 'wooden_plank_bridge', 'object');
+    grid.setTile(0, 4, 'oak_barrel_iron_bands', 'object');
+
+    const fixes = removeMisplacedObjects(grid);
+
+    expect(fixes.map((f) => f.message)).toEqual([
+      'removed heavy_oak_bench (on road)',
+      'removed wooden_storage_crate (on hazard)',
+    ]);
+    expect(grid.getTile(3, 1, 'object')?.assetId).toBe('wooden_plank_bridge');
+    expect(grid.getTile(0, 4, 'object')?.assetId).toBe('oak_barrel_iron_bands');
+  });
+});
+
+describe('repairAfterPhase', () => {
+  it('only touches the layers produced so far', () => {
+    const grid = new GridState(3, 3, metadata);
+    grid.setTile(1, 1, 'cobblestone_road_horizontal');
+    grid.setTile(1, 1, 'heavy_oak_bench', 'object');
+
+    const fixes = repairAfterPhase(grid, 'ground');
+
+    expect(fixes.every((f) => f.kind === 'ground')).toBe(true);
+    expect(grid.getTile(1, 1, 'object')?.assetId).toBe('heavy_oak_bench');
+  });
+});
@@ -0,0 +1,272 @@
+/**
+ * Repair Pass (after each planner phase)
+ *
+ * Deterministic fix-ups for what the LLM phases leave behind: holes in the
+ * ground (the phase hit its step limit), road sprites that do not match
+ * their neighbours, and objects standing on roads or hazards.
+ *
+ * Architecture Decision:
+ * - No randomness and no model calls: the same grid always gets the same
+ *   fixes, so repairs never make a seeded run irreproducible
+ * - Each phase runs only the repairs for layers it has produced so far
+ *   (ground → ground; roads → ground + roads; objects → everything)
+ * - Roads are re-derived from the road cells actually on the map, the same
+ *   way drawRoad picks sprites; a map edge counts as a connection only if
+ *   the current sprite already runs off the map there
+ * - Every fix is returned and logged, never applied silently
+ */
+
+import type { GridState } from '../lib/grid-state';
+import { getFootprintCells } from '../lib/footprint';
+import { isTransitionSprite } from '../lib/terrain-transitions';
+import {
+  DIRECTION_OFFSETS,
+  DIRECTIONS,
+  findRoadTile,
+  getRoadConnectionsAt,
+  placeRoadTile,
+  type RoadTile,
+} from '../lib/road-tiles';
+import type { Direction, Sprite } from '../types';
+import type { PlannerPhase } from './budget';
+
+/** 8-neighbourhood, for picking fill sprites */
+const NEIGHBOR_OFFSETS = [-1, 0, 1].flatMap((dy) =>
+  [-1, 0, 1].filter((dx) => dx !== 0 || dy !== 0).map((dx) => ({ dx, dy }))
+);
+
+export interface RepairFix {
+  kind: 'ground' | 'road' | 'object';
+  x: number;
+  y: number;
+  message: string;
+}
+
+// ─────────────────────────────────────────────────────────────────
+// Entry Point
+// ─────────────────────────────────────────────────────────────────
+
+/**
+ * Run the repairs that apply after `phase` and log what changed.
+ *
+ * @param grid - Grid to repair in place
+ * @param phase - Phase that just finished
+ * @param verbose - Log every fix (a summary line is always printed)
+ * @returns Every fix applied, in order
+ */
+export function repairAfterPhase(grid: GridState, phase: PlannerPhase, verbose = false): RepairFix[] {
+  const fixes: RepairFix[] = [...fillGroundHoles(grid)];
+  if (phase === 'roads' || phase === 'objects') {
+    fixes.push(...rederiveRoadSprites(grid));
+  }
+  if (phase === 'objects') {
+    fixes.push(...removeMisplacedObjects(grid));
+  }
+
+  if (verbose) {
+    for (const fix of fixes) {
+      console.log(`[Repair] ${fix.kind} (${fix.x}, ${fix.y}): ${fix.message}`);
+    }
+  }
+  if (fixes.length > 0) {
+    const counts = (['ground', 'road', 'object'] as const)
+      .map((kind) => `${fixes.filter((f) => f.kind === kind).length} ${kind}`)
+      .join(', ');
+    console.log(`[Repair] After ${phase} phase: ${fixes.length} fix(es) (${counts})`);
+  }
+
+  return fixes;
+}
+
+// ─────────────────────────────────────────────────────────────────
+// Ground
+// ─────────────────────────────────────────────────────────────────
+
+/**
+ * Fill empty ground cells from their neighbours, growing inward from the
+ * edges of each hole. Each cell takes the most common non-road ground
+ * sprite around it, preferring walkable ground so hazards do not spread.
+ */
+export function fillGroundHoles(grid: GridState): RepairFix[] {
+  const fixes: RepairFix[] = [];
+  const fillable = grid
+    .getSpritesByCategory('ground')
+    .filter((s) => s.connectivity.connects.length === 0 && s.w === 1 && s.h === 1 && !isTransitionSprite(s));
+  const fallback = fillable.find((s) => s.placement.walkable) ?? fillable[0];
+  if (!fallback) {
+    return fixes;
+  }
+
+  let empty = getEmptyGroundCells(grid);
+
+  // Nothing to grow from: seed the top-left corner
+  if (empty.length === grid.width * grid.height && empty.length > 0) {
+    grid.setTile(0, 0, fallback.id, 'ground');
+    fixes.push({ kind: 'ground', x: 0, y: 0, message: `empty map, seeded with ${fallback.id}` });
+    empty = getEmptyGroundCells(grid);
+  }
+
+  // Fill in waves so each cell only copies from cells filled before this wave
+  while (empty.length > 0) {
+    const wave: Array<{ x: number; y: number; sprite: Sprite }> = [];
+    for (const cell of empty) {
+      const sprite = pickFillSprite(grid, cell.x, cell.y, fillable);
+      if (sprite) wave.push({ ...cell, sprite });
+    }
+    if (wave.length === 0) break;
+
+    for (const { x, y, sprite } of wave) {
+      grid.setTile(x, y, sprite.id, 'ground');
+      fixes.push({ kind: 'ground', x, y, message: `filled empty cell with ${sprite.id}` });
+    }
+    empty = getEmptyGroundCells(grid);
+  }
+
+  return fixes;
+}
+
+function getEmptyGroundCells(grid: GridState): Array<{ x: number; y: number }> {
+  const cells: Array<{ x: number; y: number }> = [];
+  for (let y = 0; y < grid.height; y++) {
+    for (let x = 0; x < grid.width; x++) {
+      if (!grid.getTile(x, y, 'ground')) cells.push({ x, y });
+    }
+  }
+  return cells;
+}
+
+/**
+ * Most common fillable sprite among the 8 neighbours (walkable first;
+ * ties go to the sprite listed first in the metadata).
+ */
+function pickFillSprite(grid: GridState, x: number, y: number, fillable: Sprite[]): Sprite | undefined {
+  const counts = new Map<Sprite, number>();
+  for (const { dx, dy } of NEIGHBOR_OFFSETS) {
+    const tile = grid.getTile(x + dx, y + dy, 'ground');
+    const sprite = fillable.find((s) => s.id === tile?.assetId);
+    if (sprite) counts.set(sprite, (counts.get(sprite) ?? 0) + 1);
+  }
+
+  const ranked = fillable
+    .filter((s) => counts.has(s))
+    .sort((a, b) => Number(b.placement.walkable) - Number(a.placement.walkable) || counts.get(b)! - counts.get(a)!);
+  return ranked[0];
+}
+
+// ─────────────────────────────────────────────────────────────────
+// Roads
+// ─────────────────────────────────────────────────────────────────
+
+/**
+ * Replace every road sprite whose connections differ from its actual road
+ * neighbours with one that matches (exact or rotated match via
+ * lib/road-tiles, else the smallest superset).
+ */
+export function rederiveRoadSprites(grid: GridState): RepairFix[] {
+  const fixes: RepairFix[] = [];
+  const roadSprites = grid.getRoadSprites();
+
+  // Decide every cell from the original layout before changing any
+  const changes: Array<{ x: number; y: number; from: string; to: RoadTile }> = [];
+  for (let y = 0; y < grid.height; y++) {
+    for (let x = 0; x < grid.width; x++) {
+      if (!grid.isRoadAt(x, y)) continue;
+      const current = grid.getTile(x, y, 'ground')!;
+      const connections = getRoadConnections(grid, x, y);
+      if (sameConnections(getRoadConnectionsAt(grid, x, y), connections)) continue;
+
+      const replacement = pickRoadTile(grid, roadSprites, connections);
+      if (replacement && (replacement.sprite.id !== current.assetId || replacement.rotation !== (current.rotation ?? 0))) {
+        changes.push({ x, y, from: current.assetId, to: replacement });
+      }
+    }
+  }
+
+  for (const { x, y, from, to } of changes) {
+    placeRoadTile(grid, x, y, to);
+    const target = to.rotation ? `${to.sprite.id} (rotated ${to.rotation}°)` : to.sprite.id;
+    fixes.push({ kind: 'road', x, y, message: `${from} → ${target} to match neighbouring roads` });
+  }
+
+  return fixes;
+}
+
+/**
+ * Directions this road cell should connect: toward every neighbouring road,
+ * and off the map where the current tile already does.
+ */
+function getRoadConnections(grid: GridState, x: number, y: number): Direction[] {
+  const currentConnects = getRoadConnectionsAt(grid, x, y);
+  return DIRECTIONS.filter((direction) => {
+    const { dx, dy } = DIRECTION_OFFSETS[direction];
+    const nx = x + dx;
+    const ny = y + dy;
+    const offMap = nx < 0 || nx >= grid.width || ny < 0 || ny >= grid.height;
+    return offMap ? currentConnects.includes(direction) : grid.isRoadAt(nx, ny);
+  });
+}
+
+function sameConnections(connects: Direction[], connections: Direction[]): boolean {
+  return connects.length === connections.length && connections.every((d) => connects.includes(d));
+}
+
+function pickRoadTile(grid: GridState, roadSprites: Sprite[], connections: Direction[]): RoadTile | undefined {
+  if (connections.length === 0) {
+    return undefined;
+  }
+
+  const exact = findRoadTile(grid, connections);
+  if (exact) {
+    return exact;
+  }
+
+  const supersets = roadSprites
+    .filter((s) => connections.every((d) => s.connectivity.connects.includes(d)))
+    .sort((a, b) => a.connectivity.connects.length - b.connectivity.connects.length);
+  return supersets[0] ? { sprite: supersets[0], rotation: 0 } : undefined;
+}
+
+// ─────────────────────────────────────────────────────────────────
+// Objects
+// ─────────────────────────────────────────────────────────────────
+
+/**
+ * Remove objects with any footprint cell on a road, or on hazard ground
+ * (non-walkable) unless the object itself is walkable (bridges, planks).
+ */
+export function removeMisplacedObjects(grid: GridState): RepairFix[] {
+  const fixes: RepairFix[] = [];
+
+  for (let y = 0; y < grid.height; y++) {
+    for (let x = 0; x < grid.width; x++) {
+      const owner = grid.getOwner(x, y, 'object');
+      if (owner?.x !== x || owner.y !== y) continue;
+
+      const tile = grid.getTile(x, y, 'object')!;
+      const sprite = grid.getSprite(tile.assetId);
+      const footprint = grid.getFootprintAt(x, y, 'object');
+      if (!sprite || !footprint) continue;
+
+      const cells = getFootprintCells(footprint);
+      const onRoad = cells.some((c) => grid.isRoadAt(c.x, c.y));
+      const onHazard =
+        !sprite.placement.walkable &&
+        cells.some((c) => {
+          const ground = grid.getTile(c.x, c.y, 'ground');
+          return ground !== null && grid.getSprite(ground.assetId)?.placement.walkable === false;
+        });
+
+      if (onRoad || onHazard) {
+        grid.clearTile(x, y, 'object');
+        fixes.push({
+          kind: 'object',
+          x,
+          y,
+          message: `removed ${tile.assetId} (on ${onRoad ? 'road' : 'hazard'})`,
+        });
+      }
+    }
+  }
+
+  return fixes;
+}
@@ -7,35 +7,24 @@
  *
  * Architecture Decision:
  * - Detects islands using flood-fill from GridState
- * - Finds nearest points between islands
- * - Draws connecting roads using Manhattan paths
- * - Preserves existing road sprites and updates intersections
+ * - Picks which islands to join with a minimum spanning tree over the
+ *   distance between their nearest tiles, so every island joins the
+ *   network by its shortest link instead of island i-1 to i
+ * - Routes each link with A* (lib/pathfinding) around buildings and
+ *   hazards; bridges over water are allowed but only when unavoidable
+ * - Lays links with drawRoad's rasterizer, keeping existing road sprites
+ *   and updating intersections
  */
 
 import { z } from 'zod';
 import { tool } from 'ai';
 import type { GridState } from '../../lib/grid-state';
-import type { Direction, Sprite } from '../../types';
+import { findPath, getTerrainCosts } from '../../lib/pathfinding';
+import { rasterizeRoadPath } from './draw-road';
 
 // No parameters needed - auto-detects and fixes
 const ConnectRoadsParamsSchema = z.object({});
 
-// Direction offset mappings
-const DIRECTION_OFFSETS: Record<Direction, { dx: number; dy: number }> = {
-  north: { dx: 0, dy: -1 },
-  south: { dx: 0, dy: 1 },
-  east: { dx: 1, dy: 0 },
-  west: { dx: -1, dy: 0 },
-};
-
-// Opposite directions
-const OPPOSITE_DIRECTION: Record<Direction, Direction> = {
-  north: 'south',
-  south: 'north',
-  east: 'west',
-  west: 'east',
-};
-
 /**
  * Find the pair of tiles (one from each island) with minimum Manhattan distance.
  */
@@ -59,170 +48,38 @@ function findNearestTilesBetweenIslands(
 }
 
 /**
- * Generate a Manhattan path from start to end.
- */
-function generateManhattanPath(
-  fromX: number,
-  fromY: number,
-  toX: number,
-  toY: number
-): Array<{ x: number; y: number }> {
-  const path: Array<{ x: number; y: number }> = [];
-  let x = fromX;
-  let y = fromY;
-
-  // Move horizontally first
-  while (x !== toX) {
-    path.push({ x, y });
-    x += x < toX ? 1 : -1;
-  }
-
-  // Then move vertically
-  while (y !== toY) {
-    path.push({ x, y });
-    y += y < toY ? 1 : -1;
-  }
-
-  // Add final point
-  path.push({ x: toX, y: toY });
-
-  return path;
-}
-
-/**
- * Get the direction from one point to an adjacent point.
- */
-function getDirectionBetween(
-  fromX: number,
-  fromY: number,
-  toX: number,
-  toY: number
-): Direction | null {
-  const dx = toX - fromX;
-  const dy = toY - fromY;
-
-  if (dx === 1 && dy === 0) return 'east';
-  if (dx === -1 && dy === 0) return 'west';
-  if (dx === 0 && dy === 1) return 'south';
-  if (dx === 0 && dy === -1) return 'north';
-
-  return null;
-}
-
-/**
- * Check if a sprite is a road sprite.
- */
-function isRoadSprite(sprite: Sprite | undefined): boolean {
-  if (!sprite) return false;
-  const type = sprite.connectivity?.type;
-  return type === 'path' || type === 'corner' || type === 'intersection' || type === 'cap';
-}
-
-/**
- * Get connections from adjacent existing roads.
+ * Minimum spanning tree over islands (Kruskal), weighted by the distance
+ * between their nearest tiles. Returns the island links to draw.
  */
-function getAdjacentRoadConnections(
-  grid: GridState,
-  x: number,
-  y: number
-): Direction[] {
-  const connections: Direction[] = [];
-
-  for (const [dir, offset] of Object.entries(DIRECTION_OFFSETS) as [Direction, { dx: number; dy: number }][]) {
-    const nx = x + offset.dx;
-    const ny = y + offset.dy;
-
-    if (nx < 0 || nx >= grid.width || ny < 0 || ny >= grid.height) continue;
-
-    const tile = grid.getTile(nx, ny, 'ground');
-    if (!tile) continue;
-
-    const sprite = grid.getSprite(tile.assetId);
-    if (!sprite || !isRoadSprite(sprite)) continue;
-
-    const neighborConnects = sprite.connectivity?.connects ?? [];
-    const oppositeDir = OPPOSITE_DIRECTION[dir];
-
-    if (neighborConnects.includes(oppositeDir)) {
-      connections.push(dir);
+function buildIslandSpanningTree(
+  islands: Array<{ tiles: Array<{ x: number; y: number }> }>
+): Array<{ a: number; b: number; from: { x: number; y: number }; to: { x: number; y: number }; distance: number }> {
+  const links: Array<{ a: number; b: number; from: { x: number; y: number }; to: { x: number; y: number }; distance: number }> = [];
+  for (let a = 0; a < islands.length; a++) {
+    for (let b = a + 1; b < islands.length; b++) {
+      links.push({ a, b, ...findNearestTilesBetweenIslands(islands[a]!.tiles, islands[b]!.tiles) });
     }
   }
-
-  return connections;
-}
-
-/**
- * Get connections needed for a path point based on path neighbors.
- */
-function getPathConnections(
-  path: Array<{ x: number; y: number }>,
-  index: number
-): Direction[] {
-  const connections: Direction[] = [];
-  const current = path[index];
-  if (!current) return connections;
-
-  const prev = path[index - 1];
-  const next = path[index + 1];
-
-  if (prev) {
-    const dir = getDirectionBetween(current.x, current.y, prev.x, prev.y);
-    if (dir) connections.push(dir);
-  }
-
-  if (next) {
-    const dir = getDirectionBetween(current.x, current.y, next.x, next.y);
-    if (dir) connections.push(dir);
-  }
-
-  return connections;
-}
-
-/**
- * Find a road sprite that matches the needed connections.
- */
-function findMatchingRoadSprite(
-  grid: GridState,
-  connections: Direction[]
-): Sprite | undefined {
-  const matches = grid.getSpritesWithConnections(connections);
-  const roadMatches = matches.filter(
-    (s) => s.category === 'ground' && isRoadSprite(s)
-  );
-  return roadMatches[0];
-}
-
-/**
- * Update an adjacent road to include a new connection.
- */
-function updateAdjacentRoad(
-  grid: GridState,
-  x: number,
-  y: number,
-  newConnection: Direction
-): boolean {
-  const tile = grid.getTile(x, y, 'ground');
-  if (!tile) return false;
-
-  const sprite = grid.getSprite(tile.assetId);
-  if (!sprite || !isRoadSprite(sprite)) return false;
-
-  const currentConnections = sprite.connectivity?.connects ?? [];
-  if (currentConnections.includes(newConnection)) return false;
-
-  const updatedConnections = [...currentConnections, newConnection];
-  const newSprite = findMatchingRoadSprite(grid, updatedConnections);
-
-  if (newSprite && newSprite.id !== tile.assetId) {
-    grid.setTile(x, y, newSprite.id, 'ground');
+  links.sort((l1, l2) => l1.distance - l2.distance);
+
+  const parent = islands.map((_, i) => i);
+  const find = (i: number): number => {
+    while (parent[i] !== i) i = parent[i]!;
+    return i;
+  };
+
+  return links.filter((link) => {
+    const rootA = find(link.a);
+    const rootB = find(link.b);
+    if (rootA === rootB) return false;
+    parent[rootA] = rootB;
     return true;
-  }
-
-  return false;
+  });
 }
 
 /**
- * Draw a connecting road between two points.
+ * Draw a connecting road between two points. Cells that are already road
+ * are kept, so the link joins the islands instead of repaving them.
  */
 function drawConnectingRoad(
   grid: GridState,
@@ -232,71 +89,21 @@ function drawConnectingRoad(
   toY: number,
   verbose: boolean
 ): { tilesPlaced: number; tilesUpdated: number; errors: string[] } {
-  const path = generateManhattanPath(fromX, fromY, toX, toY);
-
-  let tilesPlaced = 0;
-  let tilesUpdated = 0;
-  const errors: string[] = [];
-
-  for (let i = 0; i < path.length; i++) {
-    const point = path[i];
-    if (!point) continue;
-
-    // Skip if already a road (we're connecting to existing roads)
-    if (grid.isRoadAt(point.x, point.y)) {
-      // But update connections if needed
-      const pathConnections = getPathConnections(path, i);
-      for (const dir of pathConnections) {
-        const offset = DIRECTION_OFFSETS[dir];
-        const nx = point.x + offset.dx;
-        const ny = point.y + offset.dy;
-        if (updateAdjacentRoad(grid, nx, ny, OPPOSITE_DIRECTION[dir])) {
-          tilesUpdated++;
-        }
-      }
-      continue;
-    }
-
-    const pathConnections = getPathConnections(path, i);
-    const adjacentConnections = getAdjacentRoadConnections(grid, point.x, point.y);
-    const allConnections = [...new Set([...pathConnections, ...adjacentConnections])];
-
-    if (allConnections.length === 0) {
-      allConnections.push('east', 'west');
-    }
-
-    const sprite = findMatchingRoadSprite(grid, allConnections);
-
-    if (!sprite) {
-      errors.push(`No sprite for connections [${allConnections.join(', ')}] at (${point.x}, ${point.y})`);
-      continue;
-    }
-
-    try {
-      grid.setTile(point.x, point.y, sprite.id, 'ground');
-      tilesPlaced++;
-
-      // Update adjacent roads
-      for (const dir of allConnections) {
-        const offset = DIRECTION_OFFSETS[dir];
-        const nx = point.x + offset.dx;
-        const ny = point.y + offset.dy;
-        if (nx >= 0 && nx < grid.width && ny >= 0 && ny < grid.height) {
-          if (updateAdjacentRoad(grid, nx, ny, OPPOSITE_DIRECTION[dir])) {
-            tilesUpdated++;
-          }
-        }
-      }
-
-      if (verbose) {
-        console.log(`[connectRoads] Placed ${sprite.id} at (${point.x}, ${point.y})`);
-      }
-    } catch (error) {
-      errors.push(`Failed at (${point.x}, ${point.y}): ${error}`);
-    }
+  const route = findPath(
+    grid,
+    { x: fromX, y: fromY },
+    { x: toX, y: toY },
+    { allowBridges: true, terrainCosts: getTerrainCosts(grid.metadata) }
+  );
+  if (!route) {
+    return {
+      tilesPlaced: 0,
+      tilesUpdated: 0,
+      errors: [`No route from (${fromX}, ${fromY}) to (${toX}, ${toY}) around buildings and props`],
+    };
   }
 
-  return { tilesPlaced, tilesUpdated, errors };
+  return rasterizeRoadPath(grid, route.path, verbose, 'connectRoads', true);
 }
 
 /**
@@ -329,37 +136,28 @@ export function createConnectRoadsTool(grid: GridState, verbose = false) {
       const allErrors: string[] = [];
       const connections: Array<{ from: { x: number; y: number }; to: { x: number; y: number } }> = [];
 
-      // Connect islands sequentially (connect island 1 to 0, island 2 to 1, etc.)
-      const islands = connectivity.islands;
-      for (let i = 1; i < islands.length; i++) {
-        const prevIsland = islands[i - 1];
-        const currentIsland = islands[i];
-
-        if (!prevIsland || !currentIsland) continue;
-
-        // Find nearest tiles between these two islands
-        const nearest = findNearestTilesBetweenIslands(prevIsland.tiles, currentIsland.tiles);
-
+      // Join islands along a minimum spanning tree of their nearest tiles
+      for (const link of buildIslandSpanningTree(connectivity.islands)) {
         if (verbose) {
           console.log(
-            `[connectRoads] Connecting island ${i - 1} to island ${i}: (${nearest.from.x},${nearest.from.y}) -> (${nearest.to.x},${nearest.to.y})`
+            `[connectRoads] Connecting island ${link.a} to island ${link.b}: (${link.from.x},${link.from.y}) -> (${link.to.x},${link.to.y})`
           );
         }
 
         // Draw connecting road
         const result = drawConnectingRoad(
           grid,
-          nearest.from.x,
-          nearest.from.y,
-          nearest.to.x,
-          nearest.to.y,
+          link.from.x,
+          link.from.y,
+          link.to.x,
+          link.to.y,
           verbose
         );
 
         totalTilesPlaced += result.tilesPlaced;
         totalTilesUpdated += result.tilesUpdated;
         allErrors.push(...result.errors);
-        connections.push({ from: nearest.from, to: nearest.to });
+        connections.push({ from: link.from, to: link.to });
       }
 
       // Verify connectivity after fixes
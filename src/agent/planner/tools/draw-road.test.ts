@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { GridState } from '../../lib/grid-state';
+import { buildLayoutSlots } from '../../designer/layout';
+import type { Sprite, SpritesheetMetadata } from '../../types';
+import { createDrawRoadTool } from './draw-road';
+import { createPlanRoadsTool } from './plan-roads';
+
+// Every layout slot as a sprite named <row>_<col>, minus the road corners
+const CORNERS = ['0_2', '0_3', '0_4', '0_5'];
+const sprites: Sprite[] = buildLayoutSlots()
+  .map((slot) => ({
+    id: `${slot.row}_${slot.col}`,
+    category: slot.category,
+    col: slot.col,
+    row: slot.row,
+    w: slot.w,
+    h: slot.h,
+    description: slot.hint,
+    placement: slot.placement,
+    connectivity: slot.connectivity,
+  }))
+  .filter((s) => !CORNERS.includes(s.id));
+const metadata: SpritesheetMetadata = { theme: 'test', tileSize: 256, columns: 16, rows: 16, sprites };
+
+const GRASS = '1_0';
+const CALL = { toolCallId: 'test', messages: [] };
+
+function createGrid(): GridState {
+  const grid = new GridState(10, 10, metadata);
+  for (let y = 0; y < 10; y++) {
+    for (let x = 0; x < 10; x++) {
+      grid.setTile(x, y, GRASS);
+    }
+  }
+  return grid;
+}
+
+describe('drawRoad', () => {
+  it('lays a straight road', async () => {
+    const grid = createGrid();
+    const drawRoad = createDrawRoadTool(grid, 50);
+
+    const result = await drawRoad.execute!({ fromX: 1, fromY: 2, toX: 6, toY: 2 }, CALL);
+
+    expect(result).toMatchObject({ success: true, tilesPlaced: 6, totalRoadTiles: 6 });
+  });
+
+  it('leaves the map untouched when a cell has no fitting sprite', async () => {
+    const grid = createGrid();
+    const before = JSON.stringify(grid.toJSON());
+    const drawRoad = createDrawRoadTool(grid, 50);
+
+    // The route needs a corner, and the sheet has none
+    const result = await drawRoad.execute!({ fromX: 1, fromY: 1, toX: 5, toY: 4 }, CALL);
+
+    expect(result).toMatchObject({ success: false });
+    expect(JSON.stringify(grid.toJSON())).toBe(before);
+  });
+});
+
+describe('planRoads', () => {
+  it('undoes the edges already laid when a later one fails', async () => {
+    const grid = createGrid();
+    const before = JSON.stringify(grid.toJSON());
+    const planRoads = createPlanRoadsTool(grid, 50);
+
+    // Both edges are straight, but they meet at b in a corner
+    const result = await planRoads.execute!(
+      {
+        nodes: [
+          { id: 'a', x: 1, y: 1 },
+          { id: 'b', x: 6, y: 1 },
+          { id: 'c', x: 6, y: 5 },
+        ],
+        edges: [
+          { from: 'a', to: 'b' },
+          { from: 'b', to: 'c' },
+        ],
+      },
+      CALL
+    );
+
+    expect(result).toMatchObject({ success: false });
+    expect(JSON.stringify(grid.toJSON())).toBe(before);
+  });
+});
@@ -2,19 +2,42 @@
  * Draw Road Tool
  *
  * Draws connected roads from point A to point B with automatic
- * sprite selection based on connectivity metadata.
+ * sprite selection based on connectivity metadata. The route is found by
+ * A* (lib/pathfinding), so roads go around buildings and hazards.
  *
  * Architecture Decision:
  * - AI specifies WHERE roads go (creative decision)
- * - Tool determines WHICH sprite (mechanical based on connectivity)
+ * - Tool determines WHICH sprite (mechanical based on connectivity, via
+ *   lib/road-tiles)
  * - Automatically handles corners, intersections, caps
  * - Updates adjacent roads when new connections are made
+ * - Budget and connectivity are measured on the grid, so roads laid by
+ *   planRoads or placeRoad count the same as roads drawn here
+ * - Laying a path is all or nothing: if any cell has no fitting sprite
+ *   the ground is restored, so a failed call leaves the map untouched.
+ *   Road ends are the exception: sheets without caps just stop short
  */
 
 import { z } from 'zod';
 import { tool } from 'ai';
 import type { GridState } from '../../lib/grid-state';
-import type { Direction, Sprite } from '../../types';
+import type { MapCell } from '../../types';
+import { cellsInRegions, findPath, getTerrainCosts } from '../../lib/pathfinding';
+import {
+  DIRECTION_OFFSETS,
+  findRoadTile,
+  getAdjacentRoadConnections,
+  getPathConnections,
+  placeRoadTile,
+  updateAdjacentRoads,
+} from '../../lib/road-tiles';
+
+export const RegionSchema = z.object({
+  x1: z.number().int(),
+  y1: z.number().int(),
+  x2: z.number().int(),
+  y2: z.number().int(),
+});
 
 // Tool parameter schema
 const DrawRoadParamsSchema = z.object({
@@ -22,249 +45,160 @@ const DrawRoadParamsSchema = z.object({
   fromY: z.number().int().describe('Starting Y coordinate'),
   toX: z.number().int().describe('Ending X coordinate'),
   toY: z.number().int().describe('Ending Y coordinate'),
+  allowBridge: z
+    .boolean()
+    .optional()
+    .describe('Allow crossing hazard ground (water, lava) when there is no way around. Default false'),
+  avoid: z
+    .array(RegionSchema)
+    .optional()
+    .describe('Rectangles the road must go around (plazas, reserved building plots)'),
 });
 
-// Direction offset mappings
-const DIRECTION_OFFSETS: Record<Direction, { dx: number; dy: number }> = {
-  north: { dx: 0, dy: -1 },
-  south: { dx: 0, dy: 1 },
-  east: { dx: 1, dy: 0 },
-  west: { dx: -1, dy: 0 },
-};
-
-// Opposite directions for connectivity checking
-const OPPOSITE_DIRECTION: Record<Direction, Direction> = {
-  north: 'south',
-  south: 'north',
-  east: 'west',
-  west: 'east',
-};
-
-/**
- * Generate a Manhattan path from start to end.
- * Moves horizontally first, then vertically.
- */
-function generateManhattanPath(
-  fromX: number,
-  fromY: number,
-  toX: number,
-  toY: number
-): Array<{ x: number; y: number }> {
-  const path: Array<{ x: number; y: number }> = [];
-  let x = fromX;
-  let y = fromY;
-
-  // Move horizontally first
-  while (x !== toX) {
-    path.push({ x, y });
-    x += x < toX ? 1 : -1;
-  }
-
-  // Then move vertically
-  while (y !== toY) {
-    path.push({ x, y });
-    y += y < toY ? 1 : -1;
-  }
-
-  // Add final point
-  path.push({ x: toX, y: toY });
-
-  return path;
-}
-
-/**
- * Get the direction from one point to an adjacent point.
- */
-function getDirectionBetween(
-  fromX: number,
-  fromY: number,
-  toX: number,
-  toY: number
-): Direction | null {
-  const dx = toX - fromX;
-  const dy = toY - fromY;
-
-  if (dx === 1 && dy === 0) return 'east';
-  if (dx === -1 && dy === 0) return 'west';
-  if (dx === 0 && dy === 1) return 'south';
-  if (dx === 0 && dy === -1) return 'north';
-
-  return null;
-}
+type DrawRoadParams = z.infer<typeof DrawRoadParamsSchema>;
 
-/**
- * Check if a sprite is a road sprite (has path-like connectivity).
- */
-function isRoadSprite(sprite: Sprite | undefined): boolean {
-  if (!sprite) return false;
-  const type = sprite.connectivity?.type;
-  return type === 'path' || type === 'corner' || type === 'intersection' || type === 'cap';
+export interface RasterizeResult {
+  tilesPlaced: number;
+  tilesUpdated: number;
+  errors: string[];
+  warnings: string[];
 }
 
 /**
- * Get connections needed from adjacent existing roads.
- * Checks each direction for roads that would connect to this cell.
+ * Record the ground under `cells` and their neighbours (everything laying
+ * roads there can repaint) and return a function that puts it back.
  */
-function getAdjacentRoadConnections(
-  grid: GridState,
-  x: number,
-  y: number
-): Direction[] {
-  const connections: Direction[] = [];
-
-  for (const [dir, offset] of Object.entries(DIRECTION_OFFSETS) as [Direction, { dx: number; dy: number }][]) {
-    const nx = x + offset.dx;
-    const ny = y + offset.dy;
-
-    // Skip out of bounds
-    if (nx < 0 || nx >= grid.width || ny < 0 || ny >= grid.height) continue;
-
-    const tile = grid.getTile(nx, ny, 'ground');
-    if (!tile) continue;
-
-    const sprite = grid.getSprite(tile.assetId);
-    if (!sprite || !isRoadSprite(sprite)) continue;
-
-    // Check if the neighbor connects in our direction
-    const neighborConnects = sprite.connectivity?.connects ?? [];
-    const oppositeDir = OPPOSITE_DIRECTION[dir];
-
-    if (neighborConnects.includes(oppositeDir)) {
-      connections.push(dir);
+export function snapshotRoadGround(grid: GridState, cells: Array<{ x: number; y: number }>): () => void {
+  const touched = new Map<string, { x: number; y: number }>();
+  const anchors = new Map<string, { x: number; y: number; cell: MapCell }>();
+
+  for (const cell of cells) {
+    for (const offset of [{ dx: 0, dy: 0 }, ...Object.values(DIRECTION_OFFSETS)]) {
+      const x = cell.x + offset.dx;
+      const y = cell.y + offset.dy;
+      if (x < 0 || x >= grid.width || y < 0 || y >= grid.height) continue;
+      touched.set(`${x},${y}`, { x, y });
+
+      // Multi-tile ground is restored from its anchor
+      const owner = grid.getOwner(x, y, 'ground');
+      const tile = grid.getTile(x, y, 'ground');
+      if (owner && tile) {
+        anchors.set(`${owner.x},${owner.y}`, { ...owner, cell: { ...tile } });
+      }
     }
   }
 
-  return connections;
+  return () => {
+    for (const { x, y } of touched.values()) grid.clearTile(x, y, 'ground');
+    for (const { x, y, cell } of anchors.values()) {
+      grid.setTile(x, y, cell.assetId, 'ground', cell.rotation ?? 0);
+    }
+  };
 }
 
 /**
- * Determine needed connections for a path point based on path neighbors.
+ * Lay road tiles along a path (each point adjacent to the next), picking
+ * every sprite from its path neighbours plus adjacent roads that already
+ * point at it, then upgrading those roads into corners and junctions.
+ * If any cell fails, the ground is restored and nothing counts as placed;
+ * a road end the sheet has no cap for is left as ground instead.
+ *
+ * @param grid - Grid to update in place
+ * @param path - Cells in order, each adjacent to the previous one
+ * @param verbose - Log every placed tile
+ * @param logPrefix - Tool name for log lines
+ * @param skipRoads - Keep road tiles already on the path as they are and
+ *   only turn their neighbours toward them (for linking existing roads)
  */
-function getPathConnections(
+export function rasterizeRoadPath(
+  grid: GridState,
   path: Array<{ x: number; y: number }>,
-  index: number
-): Direction[] {
-  const connections: Direction[] = [];
-  const current = path[index];
-  if (!current) return connections;
-
-  const prev = path[index - 1];
-  const next = path[index + 1];
-
-  // Connection to previous point in path
-  if (prev) {
-    const dir = getDirectionBetween(current.x, current.y, prev.x, prev.y);
-    if (dir) connections.push(dir);
-  }
-
-  // Connection to next point in path
-  if (next) {
-    const dir = getDirectionBetween(current.x, current.y, next.x, next.y);
-    if (dir) connections.push(dir);
-  }
-
-  return connections;
-}
+  verbose = false,
+  logPrefix = 'drawRoad',
+  skipRoads = false
+): RasterizeResult {
+  const result: RasterizeResult = { tilesPlaced: 0, tilesUpdated: 0, errors: [], warnings: [] };
+  const restore = snapshotRoadGround(grid, path);
+
+  for (let i = 0; i < path.length; i++) {
+    const point = path[i];
+    if (!point) continue;
+
+    // Get connections needed from path neighbors
+    const pathConnections = getPathConnections(path, i);
+
+    if (skipRoads && grid.isRoadAt(point.x, point.y)) {
+      result.tilesUpdated += updateAdjacentRoads(grid, point.x, point.y, pathConnections);
+      continue;
+    }
 
-/**
- * Find a road sprite that matches the needed connections exactly.
- */
-function findMatchingRoadSprite(
-  grid: GridState,
-  connections: Direction[]
-): Sprite | undefined {
-  // Get sprites with exact matching connections
-  const matches = grid.getSpritesWithConnections(connections);
-
-  // Filter to ground category (roads)
-  const roadMatches = matches.filter(
-    (s) => s.category === 'ground' && isRoadSprite(s)
-  );
-
-  if (roadMatches.length > 0) {
-    return roadMatches[0];
-  }
+    // Get connections from existing adjacent roads
+    const adjacentConnections = getAdjacentRoadConnections(grid, point.x, point.y);
 
-  return undefined;
-}
+    // Combine connections (unique)
+    const allConnections = [...new Set([...pathConnections, ...adjacentConnections])];
 
-/**
- * Update an adjacent road tile to include a new connection.
- * Called when a new road creates a T-junction or intersection.
- */
-function updateAdjacentRoad(
-  grid: GridState,
-  x: number,
-  y: number,
-  newConnection: Direction
-): boolean {
-  const tile = grid.getTile(x, y, 'ground');
-  if (!tile) return false;
+    // Handle isolated tile (no connections) - default to horizontal
+    if (allConnections.length === 0) {
+      allConnections.push('east', 'west');
+    }
 
-  const sprite = grid.getSprite(tile.assetId);
-  if (!sprite || !isRoadSprite(sprite)) return false;
+    // Find matching sprite (or a rotated one)
+    const tile = findRoadTile(grid, allConnections);
 
-  const currentConnections = sprite.connectivity?.connects ?? [];
+    if (!tile) {
+      const message = `No road sprite for connections [${allConnections.join(', ')}] at (${point.x}, ${point.y})`;
+      if (allConnections.length === 1) {
+        result.warnings.push(`${message}, road end left as ground`);
+      } else {
+        result.errors.push(message);
+      }
+      continue;
+    }
 
-  // Already has this connection
-  if (currentConnections.includes(newConnection)) return false;
+    // Place the tile
+    try {
+      placeRoadTile(grid, point.x, point.y, tile);
+      result.tilesPlaced++;
 
-  // Add the new connection
-  const updatedConnections = [...currentConnections, newConnection];
+      // Update adjacent roads that might need to become intersections
+      result.tilesUpdated += updateAdjacentRoads(grid, point.x, point.y, allConnections);
 
-  // Find sprite with updated connections
-  const newSprite = findMatchingRoadSprite(grid, updatedConnections);
-  if (newSprite && newSprite.id !== tile.assetId) {
-    grid.setTile(x, y, newSprite.id, 'ground');
-    return true;
+      if (verbose) {
+        console.log(
+          `[${logPrefix}] Placed ${tile.sprite.id}${tile.rotation ? ` (rotated ${tile.rotation}°)` : ''} at (${point.x}, ${point.y}) with connections [${allConnections.join(', ')}]`
+        );
+      }
+    } catch (error) {
+      result.errors.push(`Failed to place at (${point.x}, ${point.y}): ${error}`);
+    }
   }
 
-  return false;
-}
-
-/**
- * Update all adjacent roads when a new road tile is placed.
- */
-function updateAdjacentRoads(
-  grid: GridState,
-  x: number,
-  y: number,
-  placedConnections: Direction[]
-): number {
-  let updated = 0;
-
-  for (const dir of placedConnections) {
-    const offset = DIRECTION_OFFSETS[dir];
-    const nx = x + offset.dx;
-    const ny = y + offset.dy;
-
-    // Skip out of bounds
-    if (nx < 0 || nx >= grid.width || ny < 0 || ny >= grid.height) continue;
-
-    const oppositeDir = OPPOSITE_DIRECTION[dir];
-    if (updateAdjacentRoad(grid, nx, ny, oppositeDir)) {
-      updated++;
-    }
+  if (result.errors.length > 0) {
+    restore();
+    return { tilesPlaced: 0, tilesUpdated: 0, errors: result.errors, warnings: [] };
   }
 
-  return updated;
+  return result;
 }
 
 /**
- * State tracker for road network across multiple tool calls.
- * Tracks both budget and connectivity enforcement.
+ * Number of cells in `path` that are not road yet (what laying it costs
+ * against the road budget).
  */
-interface RoadNetworkTracker {
-  tilesPlaced: number;
-  maxTiles: number;
-  roadTiles: Set<string>; // "x,y" keys for all road positions
+export function countNewRoadTiles(grid: GridState, path: Array<{ x: number; y: number }>): number {
+  const cells = new Set(path.map((p) => `${p.x},${p.y}`));
+  return [...cells].filter((key) => {
+    const [x, y] = key.split(',').map(Number);
+    return !grid.isRoadAt(x!, y!);
+  }).length;
 }
 
 /**
  * Check if a point is on or adjacent to an existing road tile.
  * Used to enforce road connectivity after the first road.
  */
-function isPointOnOrAdjacentToRoad(
+export function isPointOnOrAdjacentToRoad(
   grid: GridState,
   x: number,
   y: number,
@@ -287,7 +221,7 @@ function isPointOnOrAdjacentToRoad(
  * Find the nearest road tile to a given point.
  * Used to provide helpful suggestions when connectivity fails.
  */
-function findNearestRoadTile(
+export function findNearestRoadTile(
   roadTiles: Set<string>,
   x: number,
   y: number
@@ -309,24 +243,17 @@ function findNearestRoadTile(
 
 /**
  * Create the drawRoad tool bound to a GridState instance.
- * Enforces road connectivity: after the first road, new roads must connect.
+ * Enforces road connectivity: once the map has roads, new roads must connect.
  */
 export function createDrawRoadTool(
   grid: GridState,
   maxRoadTiles: number,
   verbose = false
 ) {
-  // Track road network across multiple calls
-  const tracker: RoadNetworkTracker = {
-    tilesPlaced: 0,
-    maxTiles: maxRoadTiles,
-    roadTiles: new Set<string>(),
-  };
-
   return tool({
-    description: `Draw a connected road from one point to another. IMPORTANT: After the first road, new roads MUST start or end on/adjacent to an existing road (to create intersections). The system auto-selects correct sprites (straight, corners, intersections). Creates a Manhattan path. Road budget: ${maxRoadTiles} tiles max.`,
+    description: `Draw a connected road from one point to another. IMPORTANT: Once the map has roads, new roads MUST start or end on/adjacent to an existing road (to create intersections). The system auto-selects correct sprites (straight, corners, intersections). The route goes around buildings, props and hazards, preferring straight roads. Road budget: ${maxRoadTiles} tiles max.`,
     inputSchema: DrawRoadParamsSchema,
-    execute: async ({ fromX, fromY, toX, toY }: { fromX: number; fromY: number; toX: number; toY: number }) => {
+    execute: async ({ fromX, fromY, toX, toY, allowBridge = false, avoid = [] }: DrawRoadParams) => {
       // Validate bounds
       if (
         fromX < 0 || fromX >= grid.width ||
@@ -340,14 +267,16 @@ export function createDrawRoadTool(
         };
       }
 
-      // CONNECTION ENFORCEMENT: After first road, require connection to existing network
-      if (tracker.tilesPlaced > 0) {
-        const startConnected = isPointOnOrAdjacentToRoad(grid, fromX, fromY, tracker.roadTiles);
-        const endConnected = isPointOnOrAdjacentToRoad(grid, toX, toY, tracker.roadTiles);
+      const roadTiles = grid.getRoadNetwork();
+
+      // CONNECTION ENFORCEMENT: Once roads exist, require connection to the network
+      if (roadTiles.size > 0) {
+        const startConnected = isPointOnOrAdjacentToRoad(grid, fromX, fromY, roadTiles);
+        const endConnected = isPointOnOrAdjacentToRoad(grid, toX, toY, roadTiles);
 
         if (!startConnected && !endConnected) {
-          const nearestToStart = findNearestRoadTile(tracker.roadTiles, fromX, fromY);
-          const nearestToEnd = findNearestRoadTile(tracker.roadTiles, toX, toY);
+          const nearestToStart = findNearestRoadTile(roadTiles, fromX, fromY);
+          const nearestToEnd = findNearestRoadTile(roadTiles, toX, toY);
 
           // Pick the nearest overall for suggestion
           const nearest = nearestToStart && nearestToEnd
@@ -360,88 +289,59 @@ export function createDrawRoadTool(
             suggestion: nearest
               ? `Try starting from or ending at (${nearest.x}, ${nearest.y}) which is on an existing road.`
               : 'Draw a road that connects to your existing road network.',
-            existingRoadCount: tracker.roadTiles.size,
+            existingRoadCount: roadTiles.size,
           };
         }
       }
 
-      // Generate path
-      const path = generateManhattanPath(fromX, fromY, toX, toY);
-
-      // Check budget
-      const remaining = tracker.maxTiles - tracker.tilesPlaced;
-      if (path.length > remaining) {
+      // Route around objects, hazards and avoided areas
+      const route = findPath(
+        grid,
+        { x: fromX, y: fromY },
+        { x: toX, y: toY },
+        { allowBridges: allowBridge, forbidden: cellsInRegions(grid, avoid), terrainCosts: getTerrainCosts(grid.metadata) }
+      );
+      if (!route) {
         return {
           success: false,
-          error: `Road would exceed budget. Need ${path.length} tiles but only ${remaining} remaining.`,
-          suggestion: 'Focus on defineZone and placeAsset instead.',
+          error: `No route from (${fromX},${fromY}) to (${toX},${toY}) that avoids buildings, props${allowBridge ? '' : ', hazards'} and avoided areas.`,
+          suggestion: allowBridge
+            ? 'Pick endpoints that are not on an object or in an avoided area, or remove an avoided area.'
+            : 'Pick endpoints that are not on an object, hazard or avoided area, or retry with allowBridge: true to cross water.',
         };
       }
+      const path = route.path;
 
-      let tilesPlaced = 0;
-      let tilesUpdated = 0;
-      const errors: string[] = [];
-
-      // Place each tile in the path
-      for (let i = 0; i < path.length; i++) {
-        const point = path[i];
-        if (!point) continue;
-
-        // Get connections needed from path neighbors
-        const pathConnections = getPathConnections(path, i);
-
-        // Get connections from existing adjacent roads
-        const adjacentConnections = getAdjacentRoadConnections(grid, point.x, point.y);
-
-        // Combine connections (unique)
-        const allConnections = [...new Set([...pathConnections, ...adjacentConnections])];
-
-        // Handle isolated tile (no connections) - default to horizontal
-        if (allConnections.length === 0) {
-          allConnections.push('east', 'west');
-        }
-
-        // Find matching sprite
-        const sprite = findMatchingRoadSprite(grid, allConnections);
-
-        if (!sprite) {
-          errors.push(
-            `No road sprite for connections [${allConnections.join(', ')}] at (${point.x}, ${point.y})`
-          );
-          continue;
-        }
-
-        // Place the tile
-        try {
-          grid.setTile(point.x, point.y, sprite.id, 'ground');
-          tilesPlaced++;
-
-          // Track this road tile for connectivity enforcement
-          tracker.roadTiles.add(`${point.x},${point.y}`);
-
-          // Update adjacent roads that might need to become intersections
-          tilesUpdated += updateAdjacentRoads(grid, point.x, point.y, allConnections);
-
-          if (verbose) {
-            console.log(
-              `[drawRoad] Placed ${sprite.id} at (${point.x}, ${point.y}) with connections [${allConnections.join(', ')}]`
-            );
-          }
-        } catch (error) {
-          errors.push(`Failed to place at (${point.x}, ${point.y}): ${error}`);
-        }
+      // Check budget (only cells that are not road yet cost anything)
+      const remaining = maxRoadTiles - roadTiles.size;
+      const needed = countNewRoadTiles(grid, path);
+      if (needed > remaining) {
+        return {
+          success: false,
+          error: `Road would exceed budget. Need ${needed} tiles but only ${Math.max(0, remaining)} remaining.`,
+          suggestion: 'Shorten the road or connect to a closer point on the network.',
+        };
       }
 
-      // Update budget
-      tracker.tilesPlaced += tilesPlaced;
+      const { tilesPlaced, tilesUpdated, errors, warnings } = rasterizeRoadPath(grid, path, verbose);
+      if (errors.length > 0) {
+        return {
+          success: false,
+          error: 'The road could not be laid, so the map was left unchanged.',
+          errors,
+          suggestion: 'The sheet has no sprite for the shapes listed. Route the road so it does not need them.',
+        };
+      }
+      const totalRoadTiles = grid.getRoadNetwork().size;
 
       return {
-        success: errors.length === 0,
+        success: true,
         tilesPlaced,
         tilesUpdated,
-        budgetRemaining: tracker.maxTiles - tracker.tilesPlaced,
-        totalRoadTiles: tracker.roadTiles.size,
-        errors: errors.length > 0 ? errors : undefined,
+        budgetRemaining: maxRoadTiles - totalRoadTiles,
+        totalRoadTiles,
+        bridges: route.bridges.length > 0 ? route.bridges : undefined,
+        warnings: warnings.length > 0 ? warnings : undefined,
         groundLayer: grid.toASCII().ground,
         objectsLayer: grid.toASCII().objects,
       };
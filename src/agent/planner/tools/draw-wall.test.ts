@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import { GridState } from '../../lib/grid-state';
+import { buildLayoutSlots } from '../../designer/layout';
+import type { Sprite, SpritesheetMetadata } from '../../types';
+import { createDrawWallTool, createEncloseRegionTool } from './draw-wall';
+
+// Every layout slot as a sprite named <row>_<col>
+const sprites: Sprite[] = buildLayoutSlots().map((slot) => ({
+  id: `${slot.row}_${slot.col}`,
+  category: slot.category,
+  col: slot.col,
+  row: slot.row,
+  w: slot.w,
+  h: slot.h,
+  description: slot.hint,
+  placement: slot.placement,
+  connectivity: slot.connectivity,
+}));
+const metadata: SpritesheetMetadata = { theme: 'test', tileSize: 256, columns: 16, rows: 16, sprites };
+
+const GRASS = '1_0';
+const ROAD_VERTICAL = '0_1';
+const CALL = { toolCallId: 'test', messages: [] };
+
+/** Id of the wall (or gate) sprite with exactly these connections */
+function wall(gate: boolean, ...connects: string[]): string {
+  return sprites.find(
+    (s) =>
+      s.category === 'wall' &&
+      s.placement.walkable === gate &&
+      s.connectivity.connects.length === connects.length &&
+      connects.every((d) => s.connectivity.connects.includes(d as never))
+  )!.id;
+}
+
+function createGrid(): GridState {
+  const grid = new GridState(10, 10, metadata);
+  for (let y = 0; y < 10; y++) {
+    for (let x = 0; x < 10; x++) {
+      grid.setTile(x, y, GRASS);
+    }
+  }
+  return grid;
+}
+
+function objectAt(grid: GridState, x: number, y: number): string | undefined {
+  return grid.getTile(x, y, 'object')?.assetId;
+}
+
+describe('drawWall', () => {
+  it('draws a straight wall with end posts', async () => {
+    const grid = createGrid();
+
+    const result = await createDrawWallTool(grid).execute!({ fromX: 2, fromY: 4, toX: 6, toY: 4 }, CALL);
+
+    expect(result).toMatchObject({ success: true, tilesPlaced: 5 });
+    expect(objectAt(grid, 2, 4)).toBe(wall(false, 'east'));
+    expect(objectAt(grid, 4, 4)).toBe(wall(false, 'east', 'west'));
+    expect(objectAt(grid, 6, 4)).toBe(wall(false, 'west'));
+  });
+
+  it('turns a corner and joins a wall it runs into', async () => {
+    const grid = createGrid();
+    const drawWall = createDrawWallTool(grid);
+
+    await drawWall.execute!({ fromX: 2, fromY: 2, toX: 6, toY: 6 }, CALL);
+    await drawWall.execute!({ fromX: 4, fromY: 0, toX: 4, toY: 2 }, CALL);
+
+    expect(objectAt(grid, 6, 2)).toBe(wall(false, 'west', 'south'));
+    expect(objectAt(grid, 4, 2)).toBe(wall(false, 'north', 'east', 'west'));
+  });
+
+  it('leaves a gap where the wall crosses a road', async () => {
+    const grid = createGrid();
+    for (let y = 0; y < 10; y++) grid.setTile(5, y, ROAD_VERTICAL);
+
+    const result = await createDrawWallTool(grid).execute!({ fromX: 2, fromY: 4, toX: 8, toY: 4 }, CALL);
+
+    expect(result).toMatchObject({ gaps: [{ x: 5, y: 4, reason: 'road' }] });
+    expect(objectAt(grid, 5, 4)).toBeUndefined();
+    expect(objectAt(grid, 4, 4)).toBe(wall(false, 'west'));
+    expect(objectAt(grid, 6, 4)).toBe(wall(false, 'east'));
+  });
+});
+
+describe('encloseRegion', () => {
+  it('walls in a rectangle with corners and a gate', async () => {
+    const grid = createGrid();
+
+    const result = await createEncloseRegionTool(grid).execute!({ x1: 2, y1: 2, x2: 6, y2: 5, gateSide: 'south' }, CALL);
+
+    expect(result).toMatchObject({ success: true, tilesPlaced: 14 });
+    expect(objectAt(grid, 2, 2)).toBe(wall(false, 'east', 'south'));
+    expect(objectAt(grid, 6, 2)).toBe(wall(false, 'west', 'south'));
+    expect(objectAt(grid, 6, 5)).toBe(wall(false, 'north', 'west'));
+    expect(objectAt(grid, 2, 5)).toBe(wall(false, 'north', 'east'));
+    expect(objectAt(grid, 2, 3)).toBe(wall(false, 'north', 'south'));
+    expect(objectAt(grid, 4, 5)).toBe(wall(true, 'east', 'west'));
+    expect(objectAt(grid, 4, 3)).toBeUndefined();
+  });
+
+  it('rejects regions too small to have an inside', async () => {
+    const grid = createGrid();
+
+    const result = await createEncloseRegionTool(grid).execute!({ x1: 2, y1: 2, x2: 3, y2: 6, gateSide: 'none' }, CALL);
+
+    expect(result).toMatchObject({ success: false });
+    expect(grid.getStats().objectsFilled).toBe(0);
+  });
+});
@@ -0,0 +1,278 @@
+/**
+ * Draw Wall Tools
+ *
+ * drawWall draws a wall or fence from point A to point B; encloseRegion
+ * walls in a rectangle with a gate on one side. Sprites are picked from
+ * connectivity metadata, the same way drawRoad picks road sprites.
+ *
+ * Architecture Decision:
+ * - Walls live on the object layer (category 'wall'): they stand on top
+ *   of the ground, block movement and never count as roads
+ * - AI specifies WHERE walls go; the tool determines WHICH sprite
+ *   (straight, corner, T-junction, end) from path neighbours plus adjacent
+ *   walls that already point at the cell, and upgrades those walls
+ * - Gates are walkable wall sprites; they are only placed where asked for
+ *   and are never upgraded into junctions
+ * - Cells on roads, hazards or other objects are left open, so a wall
+ *   crossing a road leaves a gap instead of blocking it
+ * - A junction the sheet has no sprite for (e.g. a 4-way crossing) uses the
+ *   wall sprite sharing the most connections
+ */
+
+import { z } from 'zod';
+import { tool } from 'ai';
+import type { GridState } from '../../lib/grid-state';
+import type { Direction, Sprite } from '../../types';
+import { getManhattanPath } from '../../lib/pathfinding';
+import { DIRECTION_OFFSETS, DIRECTIONS, OPPOSITE_DIRECTION } from '../../lib/road-tiles';
+
+const DrawWallParamsSchema = z.object({
+  fromX: z.number().int().describe('Starting X coordinate'),
+  fromY: z.number().int().describe('Starting Y coordinate'),
+  toX: z.number().int().describe('Ending X coordinate'),
+  toY: z.number().int().describe('Ending Y coordinate'),
+});
+
+const EncloseRegionParamsSchema = z.object({
+  x1: z.number().int().describe('Left X coordinate of the wall rectangle'),
+  y1: z.number().int().describe('Top Y coordinate of the wall rectangle'),
+  x2: z.number().int().describe('Right X coordinate (inclusive)'),
+  y2: z.number().int().describe('Bottom Y coordinate (inclusive)'),
+  gateSide: z
+    .enum(['north', 'south', 'east', 'west', 'none'])
+    .describe('Side that gets a gate in the middle, or "none" for a closed enclosure'),
+});
+
+type Point = { x: number; y: number };
+
+interface WallResult {
+  tilesPlaced: number;
+  tilesUpdated: number;
+  gaps: Array<Point & { reason: string }>;
+}
+
+// ─────────────────────────────────────────────────────────────────
+// Sprite Selection
+// ─────────────────────────────────────────────────────────────────
+
+function isWallSprite(sprite: Sprite | undefined): sprite is Sprite {
+  return sprite?.category === 'wall' && sprite.connectivity.connects.length > 0;
+}
+
+function isGateSprite(sprite: Sprite | undefined): boolean {
+  return isWallSprite(sprite) && sprite.placement.walkable;
+}
+
+/**
+ * Wall sprite for a set of connections: exact match, else the one sharing
+ * the most connections (fewest extra) so junctions degrade gracefully.
+ */
+function findWallSprite(grid: GridState, connections: Direction[], gate: boolean): Sprite | undefined {
+  const candidates = grid.metadata.sprites.filter(
+    (s) => isWallSprite(s) && s.placement.walkable === gate
+  );
+
+  const ranked = candidates
+    .map((sprite) => {
+      const connects = sprite.connectivity.connects;
+      const shared = connections.filter((d) => connects.includes(d)).length;
+      return { sprite, missing: connections.length - shared, extra: connects.length - shared };
+    })
+    .sort((a, b) => a.missing + a.extra - (b.missing + b.extra) || a.missing - b.missing);
+
+  return ranked[0]?.sprite;
+}
+
+function getWallAt(grid: GridState, x: number, y: number): Sprite | undefined {
+  const tile = grid.getTile(x, y, 'object');
+  const sprite = tile ? grid.getSprite(tile.assetId) : undefined;
+  return isWallSprite(sprite) ? sprite : undefined;
+}
+
+/**
+ * Why a wall cannot go at (x, y), or null if it can (existing walls are
+ * merged into, not blocked by).
+ */
+function getBlockReason(grid: GridState, x: number, y: number): string | null {
+  if (x < 0 || x >= grid.width || y < 0 || y >= grid.height) return 'out of bounds';
+  if (grid.isRoadAt(x, y)) return 'road';
+  const ground = grid.getTile(x, y, 'ground');
+  if (!ground) return 'no ground';
+  if (grid.getSprite(ground.assetId)?.placement.walkable === false) return 'hazard';
+  if (grid.getTile(x, y, 'object') && !getWallAt(grid, x, y)) return 'occupied by another object';
+  return null;
+}
+
+// ─────────────────────────────────────────────────────────────────
+// Placement
+// ─────────────────────────────────────────────────────────────────
+
+/**
+ * Place a wall along `path` (each point adjacent to the next). Points in
+ * `gates` get a gate sprite.
+ */
+function placeWallPath(grid: GridState, path: Point[], gates: Set<string>, verbose: boolean): WallResult {
+  const result: WallResult = { tilesPlaced: 0, tilesUpdated: 0, gaps: [] };
+  const key = (p: Point) => `${p.x},${p.y}`;
+
+  const open = new Set<string>();
+  for (const point of path) {
+    const reason = getBlockReason(grid, point.x, point.y);
+    if (reason) {
+      result.gaps.push({ ...point, reason });
+    } else {
+      open.add(key(point));
+    }
+  }
+
+  // Connections along the path, only between cells that get a wall
+  const pathConnections = new Map<string, Set<Direction>>();
+  path.forEach((point, i) => {
+    if (!open.has(key(point))) return;
+    const connections = pathConnections.get(key(point)) ?? new Set<Direction>();
+    for (const neighbor of [path[i - 1], path[i + 1]]) {
+      if (!neighbor || !open.has(key(neighbor))) continue;
+      const direction = DIRECTIONS.find(
+        (d) => point.x + DIRECTION_OFFSETS[d].dx === neighbor.x && point.y + DIRECTION_OFFSETS[d].dy === neighbor.y
+      );
+      if (direction) connections.add(direction);
+    }
+    pathConnections.set(key(point), connections);
+  });
+
+  const done = new Set<string>();
+  for (const point of path) {
+    const connections = pathConnections.get(key(point));
+    if (!connections || done.has(key(point))) continue;
+    done.add(key(point));
+
+    // Existing walls that already point at this cell
+    for (const direction of DIRECTIONS) {
+      const { dx, dy } = DIRECTION_OFFSETS[direction];
+      const neighbor = getWallAt(grid, point.x + dx, point.y + dy);
+      if (neighbor?.connectivity.connects.includes(OPPOSITE_DIRECTION[direction])) {
+        connections.add(direction);
+      }
+    }
+    // An existing wall here keeps its connections (crossing walls merge)
+    const existing = getWallAt(grid, point.x, point.y);
+    for (const direction of existing?.connectivity.connects ?? []) {
+      connections.add(direction);
+    }
+
+    const isGate = gates.has(key(point)) || isGateSprite(existing);
+    const sprite = findWallSprite(grid, [...connections], isGate);
+    if (!sprite) {
+      result.gaps.push({ ...point, reason: `no ${isGate ? 'gate' : 'wall'} sprite` });
+      continue;
+    }
+
+    if (existing) grid.clearTile(point.x, point.y, 'object');
+    grid.setTile(point.x, point.y, sprite.id, 'object');
+    result.tilesPlaced++;
+    if (verbose) {
+      console.log(`[drawWall] Placed ${sprite.id} at (${point.x}, ${point.y}) with connections [${[...connections].join(', ')}]`);
+    }
+
+    // Upgrade neighbouring walls we now connect to
+    for (const direction of connections) {
+      const { dx, dy } = DIRECTION_OFFSETS[direction];
+      const nx = point.x + dx;
+      const ny = point.y + dy;
+      const neighbor = getWallAt(grid, nx, ny);
+      const back = OPPOSITE_DIRECTION[direction];
+      if (!neighbor || isGateSprite(neighbor) || neighbor.connectivity.connects.includes(back)) continue;
+
+      const upgraded = findWallSprite(grid, [...neighbor.connectivity.connects, back], false);
+      if (upgraded && upgraded.id !== neighbor.id) {
+        grid.clearTile(nx, ny, 'object');
+        grid.setTile(nx, ny, upgraded.id, 'object');
+        result.tilesUpdated++;
+      }
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Closed loop around a rectangle, clockwise from the top-left corner
+ * (first point repeated at the end so the loop closes).
+ */
+function generateRectanglePath(x1: number, y1: number, x2: number, y2: number): Point[] {
+  const path: Point[] = [];
+  for (let x = x1; x < x2; x++) path.push({ x, y: y1 });
+  for (let y = y1; y < y2; y++) path.push({ x: x2, y });
+  for (let x = x2; x > x1; x--) path.push({ x, y: y2 });
+  for (let y = y2; y > y1; y--) path.push({ x: x1, y });
+  path.push({ x: x1, y: y1 });
+  return path;
+}
+
+function formatResult(grid: GridState, result: WallResult) {
+  return {
+    success: result.tilesPlaced > 0,
+    tilesPlaced: result.tilesPlaced,
+    tilesUpdated: result.tilesUpdated,
+    gaps: result.gaps.length > 0 ? result.gaps : undefined,
+    objectsLayer: grid.toASCII().objects,
+  };
+}
+
+// ─────────────────────────────────────────────────────────────────
+// Tools
+// ─────────────────────────────────────────────────────────────────
+
+/**
+ * Create the drawWall tool bound to a GridState instance.
+ */
+export function createDrawWallTool(grid: GridState, verbose = false) {
+  return tool({
+    description:
+      'Draw a wall or fence from one point to another (Manhattan path, horizontal first). The system auto-selects straights, corners, T-junctions and ends, and joins walls that meet. Road, hazard and occupied cells are left open.',
+    inputSchema: DrawWallParamsSchema,
+    execute: async ({ fromX, fromY, toX, toY }: { fromX: number; fromY: number; toX: number; toY: number }) => {
+      if (!grid.metadata.sprites.some((s) => isWallSprite(s) && !s.placement.walkable)) {
+        return { success: false, error: 'This spritesheet has no wall sprites.' };
+      }
+
+      const path = getManhattanPath({ x: fromX, y: fromY }, { x: toX, y: toY });
+      return formatResult(grid, placeWallPath(grid, path, new Set(), verbose));
+    },
+  });
+}
+
+/**
+ * Create the encloseRegion tool bound to a GridState instance.
+ */
+export function createEncloseRegionTool(grid: GridState, verbose = false) {
+  return tool({
+    description:
+      'Wall in a rectangle (fenced farm, castle wall, compound) with a gate in the middle of one side. The wall runs along the rectangle border; the inside stays free. Example: encloseRegion(2,2,8,6,"south") puts the gate on the bottom side.',
+    inputSchema: EncloseRegionParamsSchema,
+    execute: async ({ x1, y1, x2, y2, gateSide }: { x1: number; y1: number; x2: number; y2: number; gateSide: Direction | 'none' }) => {
+      const left = Math.min(x1, x2);
+      const right = Math.max(x1, x2);
+      const top = Math.min(y1, y2);
+      const bottom = Math.max(y1, y2);
+
+      if (right - left < 2 || bottom - top < 2) {
+        return { success: false, error: 'Region must be at least 3x3 tiles to leave room inside the wall.' };
+      }
+      if (!grid.metadata.sprites.some((s) => isWallSprite(s) && !s.placement.walkable)) {
+        return { success: false, error: 'This spritesheet has no wall sprites.' };
+      }
+
+      const gates = new Set<string>();
+      const midX = Math.floor((left + right) / 2);
+      const midY = Math.floor((top + bottom) / 2);
+      if (gateSide === 'north') gates.add(`${midX},${top}`);
+      if (gateSide === 'south') gates.add(`${midX},${bottom}`);
+      if (gateSide === 'west') gates.add(`${left},${midY}`);
+      if (gateSide === 'east') gates.add(`${right},${midY}`);
+
+      const path = generateRectanglePath(left, top, right, bottom);
+      return formatResult(grid, placeWallPath(grid, path, gates, verbose));
+    },
+  });
+}
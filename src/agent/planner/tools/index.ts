@@ -4,24 +4,40 @@
  * Creates all tools bound to a shared GridState instance.
  *
  * Tools:
- * - placeRoad: Place road tiles with exact sprite ID (validates connectivity)
+ * - planRoads: Lay a whole road network from a node/edge graph
+ * - drawRoad: Draw one road from A to B with auto-selected sprites
+ * - placeRoad: Place road tiles with exact sprite ID (expert fallback)
  * - fillGround: Fill rectangular regions with ground tiles (x1,y1 to x2,y2)
  * - placeAsset: Place buildings, props, markers
  * - connectRoads: Auto-fix disconnected road islands (safety net)
- * - viewMap: View current map state as ASCII
+ * - wfcFill: Fill a region with ground + roads via Wave Function Collapse
+ * - wrapShoreline: Border a hazard region with oriented shoreline tiles
+ * - drawWall / encloseRegion: Walls and fences with auto-selected sprites
+ * - viewMap: View current map state as ASCII (layers, or road connections)
  */
 
 import { tool } from 'ai';
 import { z } from 'zod';
 import type { GridState } from '../../lib/grid-state';
+import { roadsToASCII } from '../../lib/road-tiles';
 import { createPlaceRoadTool } from './place-road';
+import { createDrawRoadTool } from './draw-road';
+import { createPlanRoadsTool } from './plan-roads';
 import { createFillGroundTool } from './fill-ground';
 import { createPlaceAssetTool } from './place-asset';
 import { createConnectRoadsTool } from './connect-roads';
+import { createWfcFillTool } from './wfc-fill';
+import { createWrapShorelineTool } from './wrap-shoreline';
+import { createDrawWallTool, createEncloseRegionTool } from './draw-wall';
+import type { AdjacencyModel } from '../../lib/wfc';
 
 export interface ToolOptions {
   /** Maximum road tiles allowed (budget enforcement). Default: 20% of map */
   maxRoadTiles?: number;
+  /** Learned adjacency weights for wfcFill. Default: uniform */
+  wfcModel?: AdjacencyModel;
+  /** Base seed for wfcFill. Default 0 */
+  seed?: number;
   /** Enable verbose logging */
   verbose?: boolean;
 }
@@ -37,10 +53,16 @@ export function createPlannerTools(grid: GridState, options: ToolOptions = {}) {
   const maxRoadTiles = options.maxRoadTiles ?? Math.floor(grid.width * grid.height * 0.2);
 
   return {
+    planRoads: createPlanRoadsTool(grid, maxRoadTiles, options.verbose),
+    drawRoad: createDrawRoadTool(grid, maxRoadTiles, options.verbose),
     placeRoad: createPlaceRoadTool(grid, maxRoadTiles, options.verbose),
     fillGround: createFillGroundTool(grid, options.verbose),
     placeAsset: createPlaceAssetTool(grid, options.verbose),
     connectRoads: createConnectRoadsTool(grid, options.verbose),
+    wfcFill: createWfcFillTool(grid, { model: options.wfcModel, seed: options.seed ?? 0 }, options.verbose),
+    wrapShoreline: createWrapShorelineTool(grid, options.verbose),
+    drawWall: createDrawWallTool(grid, options.verbose),
+    encloseRegion: createEncloseRegionTool(grid, options.verbose),
     viewMap: createViewMapTool(grid),
   };
 }
@@ -48,8 +70,8 @@ export function createPlannerTools(grid: GridState, options: ToolOptions = {}) {
 // Schema for viewMap tool
 const ViewMapParamsSchema = z.object({
   layer: z
-    .enum(['ground', 'objects', 'both'])
-    .describe('Which layer to view: ground, objects, or both'),
+    .enum(['ground', 'objects', 'both', 'roads'])
+    .describe('Which layer to view: ground, objects, both, or roads (how each road tile connects)'),
 });
 
 /**
@@ -59,7 +81,11 @@ export function createViewMapTool(grid: GridState) {
   return tool({
     description: 'View the current map state as ASCII grid. Use to see what has been placed.',
     inputSchema: ViewMapParamsSchema,
-    execute: async ({ layer }: { layer: 'ground' | 'objects' | 'both' }) => {
+    execute: async ({ layer }: { layer: 'ground' | 'objects' | 'both' | 'roads' }) => {
+      if (layer === 'roads') {
+        return { roads: roadsToASCII(grid) };
+      }
+
       const ascii = grid.toASCII();
 
       if (layer === 'ground') {
@@ -75,6 +101,11 @@ export function createViewMapTool(grid: GridState) {
 
 // Re-export tool creators for individual use
 export { createPlaceRoadTool } from './place-road';
+export { createDrawRoadTool } from './draw-road';
+export { createPlanRoadsTool } from './plan-roads';
 export { createFillGroundTool } from './fill-ground';
 export { createPlaceAssetTool } from './place-asset';
 export { createConnectRoadsTool } from './connect-roads';
+export { createWfcFillTool } from './wfc-fill';
+export { createWrapShorelineTool } from './wrap-shoreline';
+export { createDrawWallTool, createEncloseRegionTool } from './draw-wall';
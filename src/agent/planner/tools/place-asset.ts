@@ -8,6 +8,8 @@
 import { z } from 'zod';
 import { tool } from 'ai';
 import type { GridState } from '../../lib/grid-state';
+import { getFootprint, getFootprintCells } from '../../lib/footprint';
+import type { Sprite } from '../../types';
 
 // Single placement schema
 const PlaceAssetParamsSchema = z.object({
@@ -29,12 +31,22 @@ const PlaceAssetsParamsSchema = z.object({
   ).min(1).describe('Array of assets to place'),
 });
 
+/**
+ * Find footprint cells with no ground underneath.
+ * Objects must sit on ground across their whole footprint.
+ */
+function findMissingGround(grid: GridState, sprite: Sprite, x: number, y: number): Array<{ x: number; y: number }> {
+  return getFootprintCells(getFootprint(sprite, x, y)).filter(
+    (cell) => !grid.getTile(cell.x, cell.y, 'ground')
+  );
+}
+
 /**
  * Create the placeAsset tool bound to a GridState instance.
  */
 export function createPlaceAssetTool(grid: GridState, verbose = false) {
   return tool({
-    description: 'Place a single asset (building, prop, marker) at a specific location. The layer is auto-detected from sprite metadata. Use for trees, benches, buildings, etc.',
+    description: 'Place a single asset (building, prop, marker) at a specific location. The layer is auto-detected from sprite metadata. Multi-tile sprites cover w×h cells around their anchor (bottom_center: (x,y) is the bottom row) and cannot overlap other objects. Use for trees, benches, buildings, etc.',
     inputSchema: PlaceAssetParamsSchema,
     execute: async ({ x, y, assetId, layer }: { x: number; y: number; assetId: string; layer?: 'ground' | 'object' }) => {
       // Validate bounds
@@ -68,24 +80,23 @@ export function createPlaceAssetTool(grid: GridState, verbose = false) {
       // Determine layer from sprite metadata if not specified
       const targetLayer = layer ?? sprite.placement.layer;
 
-      // For object layer, check that ground exists
-      if (targetLayer === 'object') {
-        const groundTile = grid.getTile(x, y, 'ground');
-        if (!groundTile) {
-          return {
-            success: false,
-            error: `Cannot place object at (${x}, ${y}): no ground tile exists. Use fillGround first.`,
-          };
-        }
+      // Check footprint bounds and overlap with existing objects
+      const placementError = grid.checkPlacement(x, y, assetId, targetLayer);
+      if (placementError) {
+        return {
+          success: false,
+          error: placementError,
+        };
       }
 
-      // Check for existing object at location (prevent overlap)
+      // For object layer, check that ground exists under the whole footprint
       if (targetLayer === 'object') {
-        const existing = grid.getTile(x, y, 'object');
-        if (existing) {
+        const missing = findMissingGround(grid, sprite, x, y);
+        if (missing.length > 0) {
+          const cells = missing.map((c) => `(${c.x}, ${c.y})`).join(', ');
           return {
             success: false,
-            error: `Position (${x}, ${y}) already has an object: ${existing.assetId}`,
+            error: `Cannot place object at (${x}, ${y}): no ground tile at ${cells}. Use fillGround first.`,
           };
         }
       }
@@ -164,22 +175,23 @@ export function createPlaceAssetsTool(grid: GridState, verbose = false) {
 
         const targetLayer = p.layer ?? sprite.placement.layer;
 
-        // Check ground exists for objects
-        if (targetLayer === 'object' && !grid.getTile(p.x, p.y, 'ground')) {
+        // Check footprint bounds and overlap
+        const placementError = grid.checkPlacement(p.x, p.y, p.assetId, targetLayer);
+        if (placementError) {
           results.push({
             ...p,
             success: false,
-            error: `No ground at location`,
+            error: placementError,
           });
           continue;
         }
 
-        // Check for existing object
-        if (targetLayer === 'object' && grid.getTile(p.x, p.y, 'object')) {
+        // Check ground exists for objects
+        if (targetLayer === 'object' && findMissingGround(grid, sprite, p.x, p.y).length > 0) {
           results.push({
             ...p,
             success: false,
-            error: `Position occupied`,
+            error: `No ground at location`,
           });
           continue;
         }
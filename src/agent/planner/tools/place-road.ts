@@ -10,99 +10,36 @@
  * - AI must know road sprites and their connections
  * - Tool validates connectivity, doesn't auto-select
  * - Provides helpful error messages with suggestions
+ * - Budget is measured on the grid like drawRoad's, so re-placing a road
+ *   tile (e.g. to fix its sprite) does not spend budget
  */
 
 import { z } from 'zod';
 import { tool } from 'ai';
 import type { GridState } from '../../lib/grid-state';
-import type { Direction, Sprite } from '../../types';
+import { DIRECTION_OFFSETS, findRoadTile, getNeighborRoads, isRoadSprite, rotateDirections } from '../../lib/road-tiles';
+import { checkRotation } from '../../lib/rotation';
+import type { Direction } from '../../types';
 
 // Tool parameter schema
 const PlaceRoadParamsSchema = z.object({
   x: z.number().int().describe('X coordinate for road placement'),
   y: z.number().int().describe('Y coordinate for road placement'),
   spriteId: z.string().describe('Exact road sprite ID (e.g., road_horizontal, road_corner_ne, road_t_north)'),
+  rotation: z
+    .number()
+    .int()
+    .optional()
+    .describe('Clockwise rotation in degrees (0, 90, 180 or 270), only for orientations the sheet has no sprite for. Default 0'),
 });
 
-// Direction offset mappings
-const DIRECTION_OFFSETS: Record<Direction, { dx: number; dy: number }> = {
-  north: { dx: 0, dy: -1 },
-  south: { dx: 0, dy: 1 },
-  east: { dx: 1, dy: 0 },
-  west: { dx: -1, dy: 0 },
-};
-
-// Opposite directions
-const OPPOSITE_DIRECTION: Record<Direction, Direction> = {
-  north: 'south',
-  south: 'north',
-  east: 'west',
-  west: 'east',
-};
-
-/**
- * Check if a sprite is a road sprite.
- */
-function isRoadSprite(sprite: Sprite | undefined): boolean {
-  if (!sprite) return false;
-  const type = sprite.connectivity?.type;
-  return type === 'path' || type === 'corner' || type === 'intersection' || type === 'cap';
-}
-
-/**
- * Get what connections a neighbor road expects from this cell.
- */
-function getNeighborExpectations(
-  grid: GridState,
-  x: number,
-  y: number
-): { direction: Direction; neighborSprite: string }[] {
-  const expectations: { direction: Direction; neighborSprite: string }[] = [];
-
-  for (const [dir, offset] of Object.entries(DIRECTION_OFFSETS) as [Direction, { dx: number; dy: number }][]) {
-    const nx = x + offset.dx;
-    const ny = y + offset.dy;
-
-    if (nx < 0 || nx >= grid.width || ny < 0 || ny >= grid.height) continue;
-
-    const tile = grid.getTile(nx, ny, 'ground');
-    if (!tile) continue;
-
-    const sprite = grid.getSprite(tile.assetId);
-    if (!sprite || !isRoadSprite(sprite)) continue;
-
-    // Check if neighbor connects toward us
-    const neighborConnects = sprite.connectivity?.connects ?? [];
-    const oppositeDir = OPPOSITE_DIRECTION[dir];
-
-    if (neighborConnects.includes(oppositeDir)) {
-      expectations.push({ direction: dir, neighborSprite: tile.assetId });
-    }
-  }
-
-  return expectations;
-}
-
 /**
- * Find a road sprite that would satisfy the given connectivity requirements.
+ * Road sprite (with rotation) that would satisfy the given connectivity requirements.
  */
 function suggestCorrectSprite(grid: GridState, neededConnections: Direction[]): string | null {
-  const matches = grid.getSpritesWithConnections(neededConnections);
-  const roadMatches = matches.filter((s) => s.category === 'ground' && isRoadSprite(s));
-
-  if (roadMatches.length > 0) {
-    return roadMatches[0]?.id ?? null;
-  }
-
-  return null;
-}
-
-/**
- * State tracker for road budget across multiple calls.
- */
-interface RoadBudgetTracker {
-  tilesPlaced: number;
-  maxTiles: number;
+  const tile = findRoadTile(grid, neededConnections);
+  if (!tile) return null;
+  return tile.rotation ? `"${tile.sprite.id}" with rotation ${tile.rotation}` : `"${tile.sprite.id}"`;
 }
 
 /**
@@ -113,15 +50,10 @@ export function createPlaceRoadTool(
   maxRoadTiles: number,
   verbose = false
 ) {
-  const tracker: RoadBudgetTracker = {
-    tilesPlaced: 0,
-    maxTiles: maxRoadTiles,
-  };
-
   return tool({
     description: `Place a road sprite at a specific location. You must specify the exact sprite ID. The tool validates connectivity - the sprite's connections must match adjacent roads. Road budget: ${maxRoadTiles} tiles max.`,
     inputSchema: PlaceRoadParamsSchema,
-    execute: async ({ x, y, spriteId }: { x: number; y: number; spriteId: string }) => {
+    execute: async ({ x, y, spriteId, rotation = 0 }: { x: number; y: number; spriteId: string; rotation?: number }) => {
       // Validate bounds
       if (x < 0 || x >= grid.width || y < 0 || y >= grid.height) {
         return {
@@ -130,11 +62,11 @@ export function createPlaceRoadTool(
         };
       }
 
-      // Check budget
-      if (tracker.tilesPlaced >= tracker.maxTiles) {
+      // Check budget (replacing a road tile with another costs nothing)
+      if (!grid.isRoadAt(x, y) && grid.getRoadNetwork().size >= maxRoadTiles) {
         return {
           success: false,
-          error: `Road budget exhausted. Max ${tracker.maxTiles} tiles.`,
+          error: `Road budget exhausted. Max ${maxRoadTiles} tiles.`,
           budgetRemaining: 0,
         };
       }
@@ -160,11 +92,16 @@ export function createPlaceRoadTool(
         };
       }
 
-      // Get what this sprite connects to
-      const spriteConnects = sprite.connectivity?.connects ?? [];
+      const rotationError = checkRotation(sprite, rotation);
+      if (rotationError) {
+        return { success: false, error: rotationError };
+      }
+
+      // Get what this sprite connects to (as rotated)
+      const spriteConnects = rotateDirections(sprite.connectivity?.connects ?? [], rotation);
 
       // Get what adjacent roads expect from this cell
-      const neighborExpectations = getNeighborExpectations(grid, x, y);
+      const neighborExpectations = getNeighborRoads(grid, x, y);
 
       // Check if sprite satisfies all neighbor expectations
       const missingConnections: Direction[] = [];
@@ -183,8 +120,8 @@ export function createPlaceRoadTool(
           success: false,
           error: `Connectivity mismatch. "${spriteId}" connects [${spriteConnects.join(', ')}] but needs to connect [${neededConnections.join(', ')}] to match adjacent roads.`,
           missingConnections,
-          neighborExpectations: neighborExpectations.map((e) => `${e.direction}: ${e.neighborSprite}`),
-          suggestion: suggestedSprite ? `Try "${suggestedSprite}" instead.` : undefined,
+          neighborExpectations: neighborExpectations.map((e) => `${e.direction}: ${e.assetId}`),
+          suggestion: suggestedSprite ? `Try ${suggestedSprite} instead.` : undefined,
         };
       }
 
@@ -209,8 +146,7 @@ export function createPlaceRoadTool(
 
       // Place the road
       try {
-        grid.setTile(x, y, spriteId, 'ground');
-        tracker.tilesPlaced++;
+        grid.setTile(x, y, spriteId, 'ground', rotation);
 
         if (verbose) {
           console.log(`[placeRoad] Placed ${spriteId} at (${x}, ${y}) with connections [${spriteConnects.join(', ')}]`);
@@ -222,9 +158,10 @@ export function createPlaceRoadTool(
             x,
             y,
             spriteId,
+            rotation: rotation || undefined,
             connections: spriteConnects,
           },
-          budgetRemaining: tracker.maxTiles - tracker.tilesPlaced,
+          budgetRemaining: maxRoadTiles - grid.getRoadNetwork().size,
           warnings: warnings.length > 0 ? warnings : undefined,
           groundLayer: grid.toASCII().ground,
           objectsLayer: grid.toASCII().objects,
@@ -0,0 +1,228 @@
+/**
+ * Plan Roads Tool
+ *
+ * Lays a whole road network from a graph in one call: nodes are
+ * intersections and road ends, edges are the segments between them
+ * (optionally passing through waypoints).
+ *
+ * Architecture Decision:
+ * - AI designs the network TOPOLOGY; the tool rasterizes it with drawRoad's
+ *   sprite selection, so corners and junctions come out right without the
+ *   model knowing any sprite IDs
+ * - The graph is validated as a whole (unknown nodes, bounds, disconnected
+ *   parts, budget) before any tile is placed: a rejected plan leaves the
+ *   map untouched
+ * - Each leg between consecutive points is routed by A* (lib/pathfinding)
+ *   around buildings, props and hazards; waypoints pin where a segment
+ *   goes, e.g. to make a village lane wind
+ */
+
+import { z } from 'zod';
+import { tool } from 'ai';
+import type { GridState } from '../../lib/grid-state';
+import { cellsInRegions, findPath, getTerrainCosts, type PathOptions } from '../../lib/pathfinding';
+import {
+  countNewRoadTiles,
+  findNearestRoadTile,
+  isPointOnOrAdjacentToRoad,
+  rasterizeRoadPath,
+  RegionSchema,
+  snapshotRoadGround,
+} from './draw-road';
+
+const PointSchema = z.object({
+  x: z.number().int().describe('X coordinate'),
+  y: z.number().int().describe('Y coordinate'),
+});
+
+const PlanRoadsParamsSchema = z.object({
+  nodes: z
+    .array(PointSchema.extend({ id: z.string().describe('Unique node name, e.g. "center" or "north_gate"') }))
+    .min(2)
+    .describe('Intersections and road ends'),
+  edges: z
+    .array(
+      z.object({
+        from: z.string().describe('Node id where the segment starts'),
+        to: z.string().describe('Node id where the segment ends'),
+        waypoints: z
+          .array(PointSchema)
+          .optional()
+          .describe('Cells the segment passes through in order, to control its course'),
+      })
+    )
+    .min(1)
+    .describe('Road segments between nodes'),
+  allowBridges: z
+    .boolean()
+    .optional()
+    .describe('Allow segments to cross hazard ground (water, lava) when there is no way around. Default false'),
+  avoid: z
+    .array(RegionSchema)
+    .optional()
+    .describe('Rectangles roads must go around (plazas, reserved building plots)'),
+});
+
+type Point = { x: number; y: number };
+type PlanRoadsParams = z.infer<typeof PlanRoadsParamsSchema>;
+
+/**
+ * Validate the graph and turn every edge into a cell path.
+ * Returns an error message instead when the graph cannot be laid.
+ */
+function buildEdgePaths(
+  grid: GridState,
+  { nodes, edges, allowBridges = false, avoid = [] }: PlanRoadsParams
+): { paths: Point[][]; bridges: Point[] } | { error: string } {
+  const routing: PathOptions = {
+    allowBridges,
+    forbidden: cellsInRegions(grid, avoid),
+    terrainCosts: getTerrainCosts(grid.metadata),
+  };
+  const inBounds = (p: Point) => p.x >= 0 && p.x < grid.width && p.y >= 0 && p.y < grid.height;
+
+  const nodeById = new Map<string, Point>();
+  for (const node of nodes) {
+    if (nodeById.has(node.id)) {
+      return { error: `Duplicate node id "${node.id}".` };
+    }
+    if (!inBounds(node)) {
+      return { error: `Node "${node.id}" at (${node.x}, ${node.y}) is out of bounds. Map is ${grid.width}x${grid.height}.` };
+    }
+    nodeById.set(node.id, node);
+  }
+
+  // Union-find over node ids to reject networks in several pieces
+  const parent = new Map(nodes.map((n) => [n.id, n.id]));
+  const find = (id: string): string => {
+    while (parent.get(id) !== id) id = parent.get(id)!;
+    return id;
+  };
+
+  const paths: Point[][] = [];
+  const bridges: Point[] = [];
+  for (const edge of edges) {
+    const from = nodeById.get(edge.from);
+    const to = nodeById.get(edge.to);
+    if (!from || !to) {
+      return { error: `Edge ${edge.from} → ${edge.to} references an unknown node. Nodes: ${[...nodeById.keys()].join(', ')}` };
+    }
+    if (edge.from === edge.to) {
+      return { error: `Edge ${edge.from} → ${edge.to} starts and ends at the same node.` };
+    }
+    const outside = edge.waypoints?.find((p) => !inBounds(p));
+    if (outside) {
+      return { error: `Waypoint (${outside.x}, ${outside.y}) on edge ${edge.from} → ${edge.to} is out of bounds.` };
+    }
+
+    const points = [from, ...(edge.waypoints ?? []), to];
+    const path: Point[] = [];
+    for (let i = 1; i < points.length; i++) {
+      const start = points[i - 1]!;
+      const end = points[i]!;
+      const leg = findPath(grid, start, end, routing);
+      if (!leg) {
+        return {
+          error:
+            `Edge ${edge.from} → ${edge.to} has no route from (${start.x},${start.y}) to (${end.x},${end.y}) ` +
+            `around buildings, props${allowBridges ? '' : ', hazards'} and avoided areas.` +
+            (allowBridges ? '' : ' Set allowBridges: true to cross water.'),
+        };
+      }
+      path.push(...(i === 1 ? leg.path : leg.path.slice(1)));
+      bridges.push(...leg.bridges);
+    }
+    paths.push(path);
+    parent.set(find(edge.from), find(edge.to));
+  }
+
+  const unused = nodes.filter((n) => !edges.some((e) => e.from === n.id || e.to === n.id));
+  if (unused.length > 0) {
+    return { error: `Node(s) ${unused.map((n) => `"${n.id}"`).join(', ')} are not used by any edge.` };
+  }
+
+  const components = new Set(nodes.map((n) => find(n.id)));
+  if (components.size > 1) {
+    return { error: `The road graph is in ${components.size} separate parts. Add edges so every node is reachable.` };
+  }
+
+  return { paths, bridges };
+}
+
+/**
+ * Create the planRoads tool bound to a GridState instance.
+ */
+export function createPlanRoadsTool(grid: GridState, maxRoadTiles: number, verbose = false) {
+  return tool({
+    description: `Lay a whole road network from a graph. Nodes are intersections and road ends; edges are road segments between two nodes, routed around buildings and hazards and optionally pinned through waypoints. Sprites (straights, corners, junctions) are picked automatically. The graph must be connected, and once the map has roads it must touch them. Road budget: ${maxRoadTiles} tiles max.`,
+    inputSchema: PlanRoadsParamsSchema,
+    execute: async (plan: PlanRoadsParams) => {
+      const built = buildEdgePaths(grid, plan);
+      if ('error' in built) {
+        return { success: false, error: built.error };
+      }
+
+      const cells = built.paths.flat();
+      const roadTiles = grid.getRoadNetwork();
+
+      if (roadTiles.size > 0 && !cells.some((p) => isPointOnOrAdjacentToRoad(grid, p.x, p.y, roadTiles))) {
+        const nearest = findNearestRoadTile(roadTiles, plan.nodes[0]!.x, plan.nodes[0]!.y);
+        return {
+          success: false,
+          error: 'The road graph does not touch the existing road network.',
+          suggestion: nearest
+            ? `Add a node on or next to (${nearest.x}, ${nearest.y}), which is on an existing road, and connect it.`
+            : undefined,
+        };
+      }
+
+      const remaining = maxRoadTiles - roadTiles.size;
+      const needed = countNewRoadTiles(grid, cells);
+      if (needed > remaining) {
+        return {
+          success: false,
+          error: `Road graph would exceed budget. Need ${needed} tiles but only ${Math.max(0, remaining)} remaining.`,
+          suggestion: 'Drop or shorten some edges.',
+        };
+      }
+
+      // Edges are laid one by one; a failing edge undoes the whole plan
+      const restore = snapshotRoadGround(grid, cells);
+      let tilesPlaced = 0;
+      let tilesUpdated = 0;
+      const errors: string[] = [];
+      const warnings: string[] = [];
+      for (const path of built.paths) {
+        const result = rasterizeRoadPath(grid, path, verbose, 'planRoads');
+        tilesPlaced += result.tilesPlaced;
+        tilesUpdated += result.tilesUpdated;
+        errors.push(...result.errors);
+        warnings.push(...result.warnings);
+      }
+      if (errors.length > 0) {
+        restore();
+        return {
+          success: false,
+          error: 'The road graph could not be laid, so the map was left unchanged.',
+          errors,
+          suggestion: 'The sheet has no sprite for the shapes listed. Move nodes or waypoints so the roads do not need them.',
+        };
+      }
+
+      const connectivity = grid.validateRoadConnectivity();
+
+      return {
+        success: true,
+        nodes: plan.nodes.length,
+        edges: plan.edges.length,
+        tilesPlaced,
+        tilesUpdated,
+        budgetRemaining: maxRoadTiles - connectivity.totalRoadTiles,
+        connected: connectivity.connected,
+        bridges: built.bridges.length > 0 ? built.bridges : undefined,
+        warnings: warnings.length > 0 ? warnings : undefined,
+        groundLayer: grid.toASCII().ground,
+      };
+    },
+  });
+}
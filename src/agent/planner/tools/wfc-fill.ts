@@ -0,0 +1,94 @@
+/**
+ * WFC Fill Tool
+ *
+ * Fills a rectangular region of the ground layer with Wave Function
+ * Collapse, so every road inside it matches its neighbours' connectivity.
+ *
+ * Architecture Decision:
+ * - AI picks WHERE (region, optional pinned tiles like a plaza)
+ * - Solver picks WHICH sprites, from connectivity sockets + learned weights
+ * - Ground just outside the region constrains the border, so new roads
+ *   join existing ones instead of dead-ending at the region edge
+ * - Each call advances the seed, so retrying the same region gives a new
+ *   layout while the whole run stays reproducible
+ */
+
+import { z } from 'zod';
+import { tool } from 'ai';
+import type { GridState } from '../../lib/grid-state';
+import { wfcFill, type AdjacencyModel, type WfcPin } from '../../lib/wfc';
+
+const WfcFillParamsSchema = z.object({
+  x: z.number().int().describe('Region left X coordinate'),
+  y: z.number().int().describe('Region top Y coordinate'),
+  width: z.number().int().min(1).describe('Region width in tiles'),
+  height: z.number().int().min(1).describe('Region height in tiles'),
+  pins: z
+    .array(
+      z.object({
+        x: z.number().int(),
+        y: z.number().int(),
+        assetId: z.string().describe('Ground sprite ID to fix at this cell'),
+        rotation: z.number().int().optional().describe('Clockwise rotation in degrees for a road sprite. Default 0'),
+      })
+    )
+    .optional()
+    .describe('Cells to fix before solving (e.g. a plaza tile)'),
+});
+
+export interface WfcToolContext {
+  /** Learned adjacency weights. Default: uniform */
+  model?: AdjacencyModel;
+  /** Base seed; each call uses seed + call index */
+  seed: number;
+}
+
+/**
+ * Create the wfcFill tool bound to a GridState instance.
+ */
+export function createWfcFillTool(grid: GridState, context: WfcToolContext, verbose = false) {
+  let calls = 0;
+
+  return tool({
+    description:
+      'Fill a rectangular region with ground and roads using Wave Function Collapse. Roads always connect consistently, including to existing roads just outside the region. Replaces all ground in the region. Use pins to fix specific tiles (e.g. a plaza) first.',
+    inputSchema: WfcFillParamsSchema,
+    execute: async ({ x, y, width, height, pins = [] }: { x: number; y: number; width: number; height: number; pins?: WfcPin[] }) => {
+      const seed = context.seed + calls++;
+
+      try {
+        const result = wfcFill(grid, {
+          seed,
+          model: context.model,
+          region: { x, y, width, height },
+          pins,
+        });
+
+        if (verbose) {
+          console.log(
+            `[wfcFill] Filled ${result.cellsFilled} cells at (${result.region.x}, ${result.region.y}) ${result.region.width}x${result.region.height} in ${result.attempts} attempt(s)`
+          );
+        }
+
+        const connectivity = grid.validateRoadConnectivity();
+        return {
+          success: true,
+          region: result.region,
+          cellsFilled: result.cellsFilled,
+          shorelineTiles: result.shorelineTiles,
+          attempts: result.attempts,
+          roadIslands: connectivity.islandCount,
+          groundLayer: grid.toASCII().ground,
+        };
+      } catch (error) {
+        if (verbose) {
+          console.warn(`[wfcFill] Failed: ${error instanceof Error ? error.message : error}`);
+        }
+        return {
+          success: false,
+          error: error instanceof Error ? error.message : String(error),
+        };
+      }
+    },
+  });
+}
@@ -0,0 +1,80 @@
+/**
+ * Wrap Shoreline Tool
+ *
+ * Gives a hazard region (lake, lava pool) a proper border: every hazard
+ * cell next to land inside the region becomes the shoreline tile whose
+ * bank faces that land (straights, outer and inner corners).
+ *
+ * Architecture Decision:
+ * - AI picks WHERE (the region it filled with hazard ground)
+ * - lib/shoreline picks WHICH edge sprite from its contentSide/connects,
+ *   so the model never has to reason about orientation
+ * - Safe to call again after the region changes: existing shoreline tiles
+ *   are re-derived, interior ones go back to plain hazard
+ */
+
+import { z } from 'zod';
+import { tool } from 'ai';
+import type { GridState } from '../../lib/grid-state';
+import { getShorelineSprites, wrapShoreline } from '../../lib/shoreline';
+
+const WrapShorelineParamsSchema = z.object({
+  x1: z.number().int().describe('Start X coordinate'),
+  y1: z.number().int().describe('Start Y coordinate'),
+  x2: z.number().int().describe('End X coordinate (inclusive)'),
+  y2: z.number().int().describe('End Y coordinate (inclusive)'),
+  hazardTileId: z.string().describe('Hazard ground tile the region was filled with (water, lava...)'),
+});
+
+/**
+ * Create the wrapShoreline tool bound to a GridState instance.
+ */
+export function createWrapShorelineTool(grid: GridState, verbose = false) {
+  return tool({
+    description:
+      'Wrap the hazard ground (water, lava) inside a region with shoreline edge tiles, oriented automatically. Call after filling the region with the hazard tile. Example: wrapShoreline(6,6,11,10,"lake_water"). Make hazard regions at least 2 tiles wide so every border cell has a matching tile.',
+    inputSchema: WrapShorelineParamsSchema,
+    execute: async ({ x1, y1, x2, y2, hazardTileId }: { x1: number; y1: number; x2: number; y2: number; hazardTileId: string }) => {
+      const sprite = grid.getSprite(hazardTileId);
+      if (!sprite || sprite.category !== 'ground' || sprite.placement.walkable) {
+        const hazards = grid
+          .getSpritesByCategory('ground')
+          .filter((s) => !s.placement.walkable && s.connectivity.type !== 'edge')
+          .map((s) => s.id);
+        return {
+          success: false,
+          error: `"${hazardTileId}" is not a hazard ground tile. Hazard tiles: ${hazards.join(', ') || 'none'}`,
+        };
+      }
+
+      if (getShorelineSprites(grid).length === 0) {
+        return {
+          success: false,
+          error: 'This spritesheet has no shoreline tiles. Leave the hazard region as it is.',
+        };
+      }
+
+      const result = wrapShoreline(grid, { x1, y1, x2, y2 }, hazardTileId);
+
+      if (verbose) {
+        for (const { x, y, assetId } of result.placed) {
+          console.log(`[wrapShoreline] Placed ${assetId} at (${x}, ${y})`);
+        }
+        for (const { x, y, reason } of result.unresolved) {
+          console.log(`[wrapShoreline] Skipped (${x}, ${y}): ${reason}`);
+        }
+      }
+
+      return {
+        success: true,
+        tilesPlaced: result.placed.length,
+        unresolved: result.unresolved,
+        hint:
+          result.unresolved.length > 0
+            ? 'Unresolved cells sit in hazard strips one tile wide. Widen the region or fill those cells with walkable ground, then wrap again.'
+            : undefined,
+        groundLayer: grid.toASCII().ground,
+      };
+    },
+  });
+}
@@ -31,6 +31,15 @@ export const ConnectivitySchema = z.object({
   contentSide: DirectionSchema.optional(),
 });
 
+// Terrain membership for corner-Wang transitions: which terrain each corner
+// of the tile shows. Plain terrain tiles have the same terrain at all four
+export const TerrainCornersSchema = z.object({
+  nw: z.string(),
+  ne: z.string(),
+  se: z.string(),
+  sw: z.string(),
+});
+
 // Enhanced sprite metadata - semantic, not tag-based
 export const SpriteSchema = z.object({
   id: z.string(),
@@ -53,6 +62,18 @@ export const SpriteSchema = z.object({
 
   // Variants - what other sprites can substitute
   variants: z.array(z.string()).optional(),
+
+  // Terrain corners - only for ground tiles that take part in transitions
+  terrain: TerrainCornersSchema.optional(),
+
+  // Rotation - whether the sprite may be placed turned by 90° steps.
+  // Defaults to true for roads, false otherwise (baked-in lighting and
+  // perspective usually look wrong when turned)
+  rotatable: z.boolean().optional(),
+
+  // Road routing - cost of paving one cell of this ground tile (default 1).
+  // Higher steers roads around it (mud, rubble), lower draws them along it
+  pathCost: z.number().positive().optional(),
 });
 
 export const SpritesheetMetadataSchema = z.object({
@@ -79,6 +100,8 @@ export const MapCellSchema = z.object({
 export const MapSchema = z.object({
   width: z.number(),
   height: z.number(),
+  // Seed the map was generated with (re-run with --seed to reproduce)
+  seed: z.number().int().optional(),
   layers: z.object({
     ground: z.array(z.array(MapCellSchema.nullable())),
     objects: z.array(z.array(MapCellSchema.nullable())),
@@ -92,6 +115,7 @@ export type MapCell = z.infer<typeof MapCellSchema>;
 export type GameMap = z.infer<typeof MapSchema>;
 export type Placement = z.infer<typeof PlacementSchema>;
 export type Connectivity = z.infer<typeof ConnectivitySchema>;
+export type TerrainCorners = z.infer<typeof TerrainCornersSchema>;
 
 // Note: design-plan, sprite-requirement, and ground-plan types are
 // no longer used after the Designer simplification.